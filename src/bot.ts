@@ -7,8 +7,23 @@
  *   /summary   – summarise recent chat history
  *   /news      – scrape + summarise a quoted news article
  *   /videosum  – download + summarise a quoted video
+ *   /ranking   – Duylhou leaderboard (month, YYYY-MM or all-time)
+ *   /buscar    – find buffered messages by words, with links to them
+ *   /duylhou   – `config`: per-chat Duylhou settings (chat admins)
+ *                `stats`: most-reposted links, victims, pairs, repost delay
+ *   /testurl   – admin-only: test a URL against the normalisation rules
+ *   /backup    – admin-only: list, create or restore database snapshots
+ *   /retencao  – admin-only: retention policies and the last cleanup
+ *   /config    – admin-only: effective configuration, secrets redacted
+ *   /exportar  – chat admins: download this chat's data as a portable archive
+ *   /meusdados – any user: download everything stored about them (LGPD)
+ *   /apagarmeusdados – any user: erase their data, after confirmation
  *   #TODO      – admin-only task capture (persisted in the central database)
  *
+ * On the 1st of each month the Duylhou awards scheduler posts the previous
+ * month's final ranking to the target group.  Duylhou callouts carry a
+ * "Contestar" button that opens a timed group vote to forgive the incident.
+ *
  * Express server exposes a /health endpoint so container orchestrators can
  * probe liveness without the bot token.
  * =============================================================================
@@ -17,7 +32,6 @@
 import { Bot, GrammyError, HttpError } from 'grammy';
 import express from 'express';
 import cors from 'cors';
-import path from 'path';
 
 // --- Configuration & Logging ---
 import { loadConfig } from './config';
@@ -25,7 +39,7 @@ import { auditLog } from './assistant/audit-log';
 import { formatError } from './assistant/errors';
 
 // --- Services ---
-import { createDatabase } from './database';
+import { createDatabase, createUrlRulesLoader } from './database';
 import { createGeminiService } from './assistant/services/gemini.service';
 import { createScraperService } from './assistant/services/scraper.service';
 import { createVideoExtractorService } from './assistant/services/video-extractor.service';
@@ -35,7 +49,20 @@ import { createMemoryService } from './assistant/services/memory.service';
 import { createMediaHandler } from './bot/handlers/media';
 import { createRateLimiter } from './bot/middleware/rate-limiter';
 import { createDuylhouHandler } from './bot/handlers/duylhou';
+import { createRankingHandler } from './bot/handlers/ranking';
+import { createDuylhouAwardsScheduler } from './bot/handlers/duylhou-awards';
+import { createDuylhouAppeals } from './bot/handlers/duylhou-appeals';
+import { createDuylhouConfigHandler } from './bot/handlers/duylhou-config';
+import { createDuylhouStatsHandler } from './bot/handlers/duylhou-stats';
+import { createBackupHandler } from './bot/handlers/backup';
+import { createRetentionHandler } from './bot/handlers/retention';
+import { createConfigHandler } from './bot/handlers/config';
+import { createChatExportHandler } from './bot/handlers/chat-export';
+import { createUserDataHandler } from './bot/handlers/user-data';
+import { createLinkResolver } from './bot/handlers/link-resolver';
+import { createUrlRulesHandler } from './bot/handlers/url-rules';
 import { createSummaryHandler } from './bot/handlers/summary';
+import { createSearchHandler } from './bot/handlers/search';
 import { createNewsHandler } from './bot/handlers/news';
 import { createVideoSumHandler } from './bot/handlers/videosum';
 import { createTraduzirHandler } from './bot/handlers/traduzir';
@@ -53,12 +80,26 @@ async function main() {
 
   // 2. Initialize Database
   const [dbError, db] = createDatabase({
-    dataDir: path.join(__dirname, '../data'),
-    persistIntervalMs: 5 * 60 * 1000,
-    linkExpiryMs: 24 * 60 * 60 * 1000,
-    conversationMaxMessages: 20,
-    leaderboardRetentionDays: 30,
-    cleanupIntervalMs: 60 * 60 * 1000,
+    dataDir: config.database.dataDir,
+    persistIntervalMs: config.database.persistIntervalMs,
+    linkExpiryMs: config.database.linkExpiryMs,
+    conversationMaxMessages: config.database.conversationMaxMessages,
+    conversationMaxAgeDays: config.database.sessionMaxAgeDays,
+    leaderboardRetentionDays: config.database.leaderboardRetentionDays,
+    cleanupIntervalMs: config.database.cleanupIntervalMs,
+    chatBufferMaxAgeMs: config.database.chatBufferMaxAgeMs,
+    searchHistoryDays: config.database.searchHistoryDays,
+    searchHistoryMaxMessages: config.database.searchHistoryMaxMessages,
+    maxMemoriesPerUser: config.memory.maxMemoriesPerUser,
+    memoryDecayDays: config.memory.decayDays,
+    shortLinkRetentionDays: config.database.shortLinkRetentionDays,
+    backend: config.database.backend,
+    writeDelayMs: config.database.writeDelayMs,
+    journal: config.database.journal,
+    backupIntervalMs: config.database.backupIntervalMs,
+    backupMaxCount: config.database.backupMaxCount,
+    backupMaxAgeDays: config.database.backupMaxAgeDays,
+    retention: config.database.retention,
   });
 
   if (dbError || !db) {
@@ -98,8 +139,8 @@ async function main() {
 
   // 6. Rate Limiter  (created early — used to wrap every AI command below)
   const [rlError, rateLimiter] = createRateLimiter({
-    maxRequests: 5,
-    windowMs: 60 * 1000,
+    maxRequests: config.rateLimit.maxRequests,
+    windowMs: config.rateLimit.windowMs,
     database: db,   // persist across restarts
   });
 
@@ -110,8 +151,8 @@ async function main() {
 
   // 7. Initialize Memory Service
   const [memoryError, memoryService] = createMemoryService(db, geminiService, {
-    maxMemoriesPerUser: 50, // Match DB cap
-    memoryTokenBudget: 1000, // Character limit for memory context
+    maxMemoriesPerUser: config.memory.maxMemoriesPerUser, // same cap as the DB retention policy
+    memoryTokenBudget: config.memory.tokenBudget, // Character limit for memory context
   });
 
   if (memoryError || !memoryService) {
@@ -119,17 +160,73 @@ async function main() {
     // Memory is optional but we want to log if it fails
   }
 
-  // 8. Initialize Handlers
+  // 8. Create the Bot (its API client is needed by the schedulers below)
+  const bot = new Bot(config.bot.token);
+
+  // 9. Initialize Handlers
   const mediaHandler = createMediaHandler({
     targetGroupId: config.bot.targetGroupId,
+    maxConcurrency: config.media.maxConcurrency,
   });
 
+  const duylhouAppeals = createDuylhouAppeals({
+    api: bot.api,
+    database: db,
+  });
+
+  // URL normalisation rules — DATA_DIR/url-rules.json, hot-reloaded.
+  const urlRulesLoader = createUrlRulesLoader({ dataDir: config.database.dataDir });
+  urlRulesLoader.start();
+
+  const linkResolver = createLinkResolver({ database: db });
+
   const duylhouHandler = createDuylhouHandler({
     database: db,
     targetChatIds: [config.bot.targetGroupId],
     // Sticker file_id is loaded from .env — see .env.example for instructions
-    // on how to obtain it.  When empty the handler falls back to a text reply.
+    // on how to obtain it.  When empty only the text callout is sent.
     duylhouStickerFileId: config.bot.duylhouStickerFileId,
+    appeals: duylhouAppeals,
+    linkResolver,
+  });
+
+  const rankingHandler = createRankingHandler({ database: db });
+
+  const duylhouConfigHandler = createDuylhouConfigHandler({
+    database: db,
+    defaultExpiryMs: config.database.linkExpiryMs,
+  });
+
+  const duylhouStatsHandler = createDuylhouStatsHandler({ database: db });
+
+  const urlRulesHandler = createUrlRulesHandler({
+    loader: urlRulesLoader,
+    adminId: config.bot.adminId,
+    linkResolver,
+  });
+
+  const backupHandler = createBackupHandler({
+    database: db,
+    adminId: config.bot.adminId,
+  });
+
+  const retentionHandler = createRetentionHandler({
+    database: db,
+    adminId: config.bot.adminId,
+  });
+
+  const configHandler = createConfigHandler({
+    config,
+    adminId: config.bot.adminId,
+  });
+
+  const chatExportHandler = createChatExportHandler({
+    database: db,
+    adminId: config.bot.adminId,
+  });
+
+  const userDataHandler = createUserDataHandler({
+    database: db,
   });
 
   const summaryHandler = createSummaryHandler({
@@ -137,6 +234,10 @@ async function main() {
     database: db,
   });
 
+  const searchHandler = createSearchHandler({
+    database: db,
+  });
+
   const newsHandler = createNewsHandler({
     geminiService,
     scraperService,
@@ -155,8 +256,10 @@ async function main() {
   });
   if (memoryService) traduzirHandler.setMemoryService(memoryService);
 
-  // 9. Setup Bot
-  const bot = new Bot(config.bot.token);
+  // 10. Setup Bot
+
+  // Drop every update while a backup is being restored (see /backup).
+  bot.use(backupHandler.restoreGuard);
 
   // --- Commands ---
 
@@ -169,6 +272,51 @@ async function main() {
   bot.command('videosum', rateLimiter.wrap(videoSumHandler.handleCommand));
   bot.command('traduzir', rateLimiter.wrap(traduzirHandler.handleCommand));
 
+  // Duylhou leaderboard — no AI involved, so not rate-limited.
+  bot.command('ranking', rankingHandler.handleCommand);
+  bot.callbackQuery(rankingHandler.callbackPattern, rankingHandler.handleCallback);
+
+  // Word search over the /summary message buffer — no AI, not rate-limited.
+  bot.command('buscar', searchHandler.handleCommand);
+
+  // /duylhou <subcommand> — per-chat Duylhou tools.
+  bot.command('duylhou', async (ctx) => {
+    const [subcommand = '', ...args] = ctx.match.trim().split(/\s+/).filter(Boolean);
+    switch (subcommand.toLowerCase()) {
+      case 'config':
+        await duylhouConfigHandler.handleCommand(ctx, args);
+        return;
+      case 'stats':
+        await duylhouStatsHandler.handleCommand(ctx, args);
+        return;
+      default:
+        await ctx.reply('🔄 Use: /duylhou config \\| stats', { parse_mode: 'MarkdownV2' }).catch(() => {});
+    }
+  });
+
+  // Duylhou appeals — "Contestar" button and vote buttons.
+  bot.callbackQuery(duylhouAppeals.callbackPattern, duylhouAppeals.handleCallback);
+
+  // URL normalisation rule tester (admin-only).
+  bot.command('testurl', urlRulesHandler.handleCommand);
+
+  // Database snapshots (admin-only).
+  bot.command('backup', backupHandler.handleCommand);
+
+  // Retention policies and the last cleanup (admin-only).
+  bot.command('retencao', retentionHandler.handleCommand);
+
+  // Effective configuration, secrets redacted (admin-only).
+  bot.command('config', configHandler.handleCommand);
+
+  // A group downloads its own data (chat admins).
+  bot.command('exportar', chatExportHandler.handleCommand);
+
+  // Data access and erasure requests (any user, own data only).
+  bot.command('meusdados', userDataHandler.handleExportCommand);
+  bot.command('apagarmeusdados', userDataHandler.handleEraseCommand);
+  bot.callbackQuery(userDataHandler.callbackPattern, userDataHandler.handleCallback);
+
   // --- #TODO (admin-only, persisted via centralised database) ---
   bot.hears(/#TODO/i, async (ctx) => {
     if (ctx.from?.id !== config.bot.adminId) {
@@ -207,6 +355,9 @@ async function main() {
     await duylhouHandler.handleMessage(ctx);
   });
 
+  // Edits replace the buffered text so /summary and /buscar see the final version.
+  bot.on('edited_message', (ctx) => summaryHandler.collectEdit(ctx));
+
   // --- Express Server ---
   const app = express();
   app.use(cors());
@@ -244,6 +395,18 @@ async function main() {
     }
   });
 
+  // --- End-of-month Duylhou awards ---
+  const awardsScheduler = createDuylhouAwardsScheduler({
+    api: bot.api,
+    database: db,
+    targetChatIds: [config.bot.targetGroupId],
+    pinMessage: config.bot.duylhouAwardsPin,
+  });
+  awardsScheduler.start();
+
+  // --- Duylhou appeal sweep (closes expired votes) ---
+  duylhouAppeals.start();
+
   bot.start();
   console.log('Bot started! AI commands: /summary, /news, /videosum');
 
@@ -251,6 +414,9 @@ async function main() {
   //     container runtimes) ---
   const shutdown = async () => {
     console.log('Shutting down…');
+    awardsScheduler.stop();
+    duylhouAppeals.stop();
+    urlRulesLoader.stop();
     await db.shutdown();
     await bot.stop();
     process.exit(0);
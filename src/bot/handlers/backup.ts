@@ -0,0 +1,147 @@
+/**
+ * =============================================================================
+ * Backup Handler — admin command for database snapshots
+ *
+ * /backup                     – lists the most recent snapshots
+ * /backup criar               – writes a snapshot now
+ * /backup restaurar <arquivo> – replaces all data with a snapshot (the
+ *                               current data is saved as `pre-restore` first)
+ *
+ * {@link BackupHandler.restoreGuard} is installed before every other
+ * handler: while a restore runs it drops updates (commands and button
+ * presses are answered), and the database itself refuses writes from
+ * handlers and timers that were already running.
+ *
+ * The same operations are available offline via `npm run db:backup`.
+ * =============================================================================
+ */
+
+import { Context, NextFunction } from 'grammy';
+import { Database, BackupInfo } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { escapeMarkdownV2 } from './telegram-formatting';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Snapshots listed by `/backup`. */
+const LIST_LIMIT = 10;
+
+const USAGE =
+  '*Comandos*\n' +
+  '/backup criar\n' +
+  '/backup restaurar \\<arquivo\\>';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the backup handler.
+ */
+export interface BackupHandlerConfig {
+  /** The central database instance. */
+  database: Database;
+  /** Telegram user ID allowed to run the command. */
+  adminId: number;
+}
+
+/** Public surface of the handler. */
+export interface BackupHandler {
+  handleCommand: (ctx: Context) => Promise<void>;
+  /** Middleware that refuses updates while a restore is running. */
+  restoreGuard: (ctx: Context, next: NextFunction) => Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+function formatBackup(backup: BackupInfo): string {
+  const when = new Date(backup.createdAt).toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+  const size = `${Math.max(1, Math.round(backup.sizeBytes / 1024))} KB`;
+  return `• \`${escapeMarkdownV2(backup.name)}\`\n  ${escapeMarkdownV2(`${when} · ${size}`)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the backup handler.
+ *
+ * @param config - See {@link BackupHandlerConfig}.
+ */
+export function createBackupHandler(config: BackupHandlerConfig): BackupHandler {
+  const { database, adminId } = config;
+
+  async function handleCommand(ctx: Context): Promise<void> {
+    if (ctx.from?.id !== adminId) {
+      await ctx.reply('🚫 Somente o administrador pode usar este comando\\.', { parse_mode: 'MarkdownV2' })
+        .catch(() => {});
+      return;
+    }
+
+    const [subcommand = '', name] = (typeof ctx.match === 'string' ? ctx.match : '').trim().split(/\s+/);
+    auditLog.trace(`/backup ${subcommand} invoked by user ${ctx.from.id}`);
+
+    if (subcommand.toLowerCase() === 'criar') {
+      const [error, backup] = await database.createBackup('manual');
+      const text = error || !backup
+        ? `❌ Falha ao criar o backup: ${escapeMarkdownV2(error?.details ?? error?.message ?? 'erro')}`
+        : `✅ Backup criado\\.\n\n${formatBackup(backup)}`;
+      await ctx.reply(text, { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    if (subcommand.toLowerCase() === 'restaurar') {
+      if (!name) {
+        await ctx.reply('❌ Use: /backup restaurar \\<arquivo\\>', { parse_mode: 'MarkdownV2' }).catch(() => {});
+        return;
+      }
+
+      await ctx.reply('⏳ Restaurando backup\\.\\.\\.', { parse_mode: 'MarkdownV2' }).catch(() => {});
+      const error = await database.restoreBackup(name);
+      const text = error
+        ? `❌ Falha na restauração: ${escapeMarkdownV2(error.details ?? error.message)}`
+        : `✅ Dados restaurados de \`${escapeMarkdownV2(name)}\`\\.\nO estado anterior foi salvo como backup _pre\\-restore_\\.`;
+      await ctx.reply(text, { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    const backups = await database.listBackups();
+    const lines = ['💾 *Backups do banco de dados*', ''];
+    if (backups.length === 0) {
+      lines.push('Nenhum backup ainda\\.');
+    } else {
+      lines.push(...backups.slice(0, LIST_LIMIT).map(formatBackup));
+      if (backups.length > LIST_LIMIT) {
+        lines.push(`_\\.\\.\\. e mais ${backups.length - LIST_LIMIT}_`);
+      }
+    }
+    lines.push('', USAGE);
+
+    await ctx.reply(lines.join('\n'), { parse_mode: 'MarkdownV2' }).catch(() => {});
+  }
+
+  async function restoreGuard(ctx: Context, next: NextFunction): Promise<void> {
+    if (!database.isRestoring()) {
+      await next();
+      return;
+    }
+
+    // Only answer commands and button presses (an unanswered press keeps
+    // its spinner); ordinary chat messages are dropped silently.
+    if (ctx.message?.text?.startsWith('/')) {
+      await ctx.reply('⏳ Restaurando um backup, tente novamente em instantes\\.', { parse_mode: 'MarkdownV2' })
+        .catch(() => {});
+    } else if (ctx.callbackQuery) {
+      await ctx.answerCallbackQuery({ text: '⏳ Restaurando um backup, tente novamente em instantes.' })
+        .catch(() => {});
+    }
+    auditLog.trace(`Update ${ctx.update.update_id} dropped during restore`);
+  }
+
+  return { handleCommand, restoreGuard };
+}
@@ -0,0 +1,91 @@
+/**
+ * =============================================================================
+ * Chat Export Handler — a group downloads its own data
+ *
+ * /exportar            – sends this chat's archive (links, Duylhou incidents
+ *                        and ranking, summaries, buffered messages) as a
+ *                        `.jsonl` document.  Chat admins only.
+ * /exportar <chatId>   – bot admin: export any chat, e.g. from a private chat.
+ *
+ * The bot-wide todo list is only added when the bot admin exports; a
+ * group's own export holds nothing from other chats.
+ *
+ * The archive is imported on another host with
+ * `npm run db:chat-archive -- import <file>` (see src/database/chat-archive.ts).
+ * =============================================================================
+ */
+
+import { Context, InputFile } from 'grammy';
+import { Database, serializeChatArchive } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the chat export handler.
+ */
+export interface ChatExportHandlerConfig {
+  /** The central database instance. */
+  database: Database;
+  /** Telegram user ID allowed to export any chat. */
+  adminId: number;
+}
+
+/** Public surface of the handler. */
+export interface ChatExportHandler {
+  handleCommand: (ctx: Context) => Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the chat export handler.
+ *
+ * @param config - See {@link ChatExportHandlerConfig}.
+ */
+export function createChatExportHandler(config: ChatExportHandlerConfig): ChatExportHandler {
+  const { database, adminId } = config;
+
+  /**
+   * Group creators and administrators may export their group.
+   */
+  async function isChatAdmin(ctx: Context): Promise<boolean> {
+    if (!ctx.chat || !ctx.from || ctx.chat.type === 'private') return false;
+    const member = await ctx.api.getChatMember(ctx.chat.id, ctx.from.id).catch(() => null);
+    return member?.status === 'creator' || member?.status === 'administrator';
+  }
+
+  async function handleCommand(ctx: Context): Promise<void> {
+    if (!ctx.chat || !ctx.from) return;
+
+    const argument = (typeof ctx.match === 'string' ? ctx.match : '').trim();
+    const isBotAdmin = ctx.from.id === adminId;
+    const chatId = argument && isBotAdmin ? Number(argument) : ctx.chat.id;
+
+    if (!Number.isInteger(chatId)) {
+      await ctx.reply('❌ Use: /exportar \\[chatId\\]', { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+    if (!isBotAdmin && !(await isChatAdmin(ctx))) {
+      await ctx.reply('🚫 Somente administradores do grupo podem exportar os dados\\.', { parse_mode: 'MarkdownV2' })
+        .catch(() => {});
+      return;
+    }
+
+    auditLog.trace(`/exportar for chat ${chatId} invoked by user ${ctx.from.id}`);
+
+    const archive = database.exportChat(chatId, { includeTodos: isBotAdmin });
+    const total = Object.values(archive.header.counts).reduce((sum, count) => sum + count, 0);
+    const date = archive.header.exportedAt.slice(0, 10);
+    const file = new InputFile(Buffer.from(serializeChatArchive(archive), 'utf-8'), `chat-${chatId}-${date}.jsonl`);
+
+    await ctx.replyWithDocument(file, { caption: `📦 ${total} registros exportados.` })
+      .catch((e) => auditLog.trace(`/exportar upload failed: ${String(e)}`));
+  }
+
+  return { handleCommand };
+}
@@ -0,0 +1,62 @@
+/**
+ * =============================================================================
+ * Config Handler — admin command showing the effective configuration
+ *
+ * /config – the loaded {@link AppConfig} as JSON, with the bot token and API
+ *           keys redacted (see `redactConfig`).  Useful to check what a
+ *           deployment actually picked up from its environment.
+ * =============================================================================
+ */
+
+import { Context } from 'grammy';
+import { AppConfig, redactConfig } from '../../config';
+import { auditLog } from '../../assistant/audit-log';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the config handler.
+ */
+export interface ConfigHandlerConfig {
+  /** The loaded application configuration. */
+  config: AppConfig;
+  /** Telegram user ID allowed to run the command. */
+  adminId: number;
+}
+
+/** Public surface of the handler. */
+export interface ConfigHandler {
+  handleCommand: (ctx: Context) => Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the config handler.
+ *
+ * @param handlerConfig - See {@link ConfigHandlerConfig}.
+ */
+export function createConfigHandler(handlerConfig: ConfigHandlerConfig): ConfigHandler {
+  const { config, adminId } = handlerConfig;
+
+  async function handleCommand(ctx: Context): Promise<void> {
+    if (ctx.from?.id !== adminId) {
+      await ctx.reply('🚫 Somente o administrador pode usar este comando\\.', { parse_mode: 'MarkdownV2' })
+        .catch(() => {});
+      return;
+    }
+
+    auditLog.trace(`/config invoked by user ${ctx.from.id}`);
+
+    // Inside a pre block MarkdownV2 only needs ` and \ escaped.
+    const json = JSON.stringify(redactConfig(config), null, 2).replace(/[`\\]/g, '\\$&');
+    await ctx.reply(`⚙️ *Configuração atual*\n\`\`\`json\n${json}\n\`\`\``, { parse_mode: 'MarkdownV2' })
+      .catch(() => {});
+  }
+
+  return { handleCommand };
+}
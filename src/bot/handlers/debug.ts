@@ -122,6 +122,8 @@ export function createDebugHandler(config: DebugHandlerConfig): DebugHandler {
       '',
       `💬 Conversations: ${stats.conversations}`,
       `🔗 Active Links: ${stats.links}`,
+      `🔀 Cached Short Links: ${stats.shortLinks}`,
+      `🖼️ Media Fingerprints: ${stats.mediaFingerprints}`,
       `🔄 Duylhou Incidents: ${stats.incidents}`,
       `🏆 Leaderboard Entries: ${stats.leaderboardEntries}`,
       `⏱️ Rate Limit Records: ${stats.rateLimits}`,
@@ -159,6 +161,7 @@ export function createDebugHandler(config: DebugHandlerConfig): DebugHandler {
     const totalRemoved = 
       result.conversationsRemoved +
       result.linksRemoved +
+      result.mediaFingerprintsRemoved +
       result.incidentsRemoved +
       result.leaderboardEntriesRemoved +
       result.rateLimitsRemoved;
@@ -180,6 +183,9 @@ export function createDebugHandler(config: DebugHandlerConfig): DebugHandler {
     if (result.linksRemoved > 0) {
       lines.push(`🔗 Links: ${result.linksRemoved} removed`);
     }
+    if (result.mediaFingerprintsRemoved > 0) {
+      lines.push(`🖼️ Media Fingerprints: ${result.mediaFingerprintsRemoved} removed`);
+    }
     if (result.incidentsRemoved > 0) {
       lines.push(`🔄 Incidents: ${result.incidentsRemoved} removed`);
     }
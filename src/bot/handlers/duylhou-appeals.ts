@@ -0,0 +1,331 @@
+/**
+ * =============================================================================
+ * Duylhou Appeals — "Contestar" button and timed group vote
+ *
+ * False positives happen (same video at a different timestamp, intentional
+ * re-shares), so every Duylhou callout carries a "Contestar" button.
+ *
+ * Flow:
+ *   1. The offender presses "Contestar" → an appeal is opened in the
+ *      database and a vote message with "Perdoar" / "Manter" buttons is
+ *      posted.
+ *   2. Any member except the offender may vote (and change their vote)
+ *      until the appeal closes.
+ *   3. A periodic sweep closes expired appeals.  The appeal passes when
+ *      "Perdoar" has a strict majority and at least `minVotes` votes; the
+ *      incident is then removed and the leaderboard decremented.
+ *
+ * Every appeal and its outcome stays in the database as its own record.
+ * Because closing is driven by the stored `closesAt`, appeals that were
+ * open when the bot restarted are still resolved by the next sweep.
+ * =============================================================================
+ */
+
+import { Api, Context, InlineKeyboard } from 'grammy';
+import { Database, DuylhouAppealRecord } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { escapeMarkdownV2 } from './telegram-formatting';
+import { resolveDisplayName } from './ranking';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Callback-data prefix shared by every appeal button. */
+const CALLBACK_PREFIX = 'duylhou:';
+
+/** Default voting window. */
+const DEFAULT_DURATION_MS = 10 * 60 * 1000;
+
+/** Default minimum number of "Perdoar" votes for an appeal to pass. */
+const DEFAULT_MIN_VOTES = 2;
+
+/** How often expired appeals are closed. */
+const SWEEP_INTERVAL_MS = 30 * 1000;
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the appeals module.
+ */
+export interface DuylhouAppealsConfig {
+  /** Telegram API client — used by the sweep, which has no context. */
+  api: Api;
+  /** The central database instance (incidents + appeal records). */
+  database: Database;
+  /** Voting window in ms.  Default 10 min. */
+  durationMs?: number;
+  /** Minimum "Perdoar" votes for the appeal to pass.  Default 2. */
+  minVotes?: number;
+}
+
+/** Public surface of the appeals module. */
+export interface DuylhouAppeals {
+  /** Keyboard with the "Contestar" button for a Duylhou callout. */
+  buildAppealKeyboard: (incidentId: number) => InlineKeyboard;
+  /** Handles "Contestar" and vote button presses. */
+  handleCallback: (ctx: Context) => Promise<void>;
+  /** Regex that matches this module's callback data. */
+  callbackPattern: RegExp;
+  /** Starts the periodic sweep that closes expired appeals. */
+  start: () => void;
+  /** Stops the sweep. */
+  stop: () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the appeals module.
+ *
+ * @param config - See {@link DuylhouAppealsConfig}.
+ * @returns The appeals surface (keyboard builder, callback handler, sweep).
+ */
+export function createDuylhouAppeals(config: DuylhouAppealsConfig): DuylhouAppeals {
+  const {
+    api,
+    database,
+    durationMs = DEFAULT_DURATION_MS,
+    minVotes = DEFAULT_MIN_VOTES,
+  } = config;
+
+  let timer: NodeJS.Timeout | null = null;
+  let sweeping = false;
+
+  /**
+   * Counts forgive / keep votes.
+   */
+  function tally(appeal: DuylhouAppealRecord): { forgive: number; keep: number } {
+    const forgive = appeal.votes.filter((v) => v.forgive).length;
+    return { forgive, keep: appeal.votes.length - forgive };
+  }
+
+  function buildAppealKeyboard(incidentId: number): InlineKeyboard {
+    return new InlineKeyboard().text('⚖️ Contestar', `${CALLBACK_PREFIX}appeal:${incidentId}`);
+  }
+
+  /**
+   * Keyboard of an open vote, with the running tally on each button.
+   */
+  function buildVoteKeyboard(appeal: DuylhouAppealRecord): InlineKeyboard {
+    const { forgive, keep } = tally(appeal);
+    return new InlineKeyboard()
+      .text(`✅ Perdoar (${forgive})`, `${CALLBACK_PREFIX}vote:${appeal.id}:y`)
+      .text(`❌ Manter (${keep})`, `${CALLBACK_PREFIX}vote:${appeal.id}:n`);
+  }
+
+  /**
+   * Renders the MarkdownV2 vote message body.
+   */
+  async function renderVoteText(appeal: DuylhouAppealRecord): Promise<string> {
+    const offender = await resolveDisplayName(api, appeal.chatId, appeal.offenderId);
+    const closesAt = new Date(appeal.closesAt).toLocaleTimeString('pt-BR', {
+      timeZone: 'America/Sao_Paulo',
+      hour: '2-digit', minute: '2-digit',
+    });
+
+    return (
+      `⚖️ *Contestação de Duylhou*\n\n` +
+      `*${escapeMarkdownV2(offender)}* diz que não foi Duylhou:\n` +
+      `\`${escapeMarkdownV2(appeal.normalizedUrl)}\`\n\n` +
+      `Votação até ${escapeMarkdownV2(closesAt)}\\. ` +
+      `Para perdoar: maioria e pelo menos ${minVotes} votos\\.`
+    );
+  }
+
+  /**
+   * "Contestar" pressed: opens the appeal and posts the vote message.
+   * Only the offender may contest their own Duylhou.
+   */
+  async function openAppeal(ctx: Context, incidentId: number): Promise<void> {
+    const userId = ctx.from?.id;
+    const incident = database.getDuylhouIncident(incidentId);
+
+    if (!incident) {
+      await ctx.answerCallbackQuery({ text: 'Esse Duylhou não existe mais.' }).catch(() => {});
+      return;
+    }
+    if (userId !== incident.offenderId) {
+      await ctx.answerCallbackQuery({ text: 'Só quem levou o Duylhou pode contestar.', show_alert: true }).catch(() => {});
+      return;
+    }
+    if (database.getDuylhouAppealByIncident(incidentId)) {
+      await ctx.answerCallbackQuery({ text: 'Esse Duylhou já foi contestado.' }).catch(() => {});
+      return;
+    }
+
+    const [err, appeal] = database.createDuylhouAppeal({
+      incidentId,
+      requestedBy: userId,
+      closesAt: Date.now() + durationMs,
+    });
+    if (err || !appeal) {
+      auditLog.record(err?.code || 'DUYLHOU_APPEAL_FAIL', { incidentId, error: err?.message });
+      await ctx.answerCallbackQuery({ text: '❌ Não foi possível abrir a contestação.' }).catch(() => {});
+      return;
+    }
+
+    const sent = await api.sendMessage(appeal.chatId, await renderVoteText(appeal), {
+      parse_mode: 'MarkdownV2',
+      reply_markup: buildVoteKeyboard(appeal),
+      reply_parameters: ctx.callbackQuery?.message
+        ? { message_id: ctx.callbackQuery.message.message_id, allow_sending_without_reply: true }
+        : undefined,
+    }).catch((e: Error) => {
+      auditLog.record('DUYLHOU_APPEAL_SEND_FAIL', { appealId: appeal.id, error: e.message });
+      return null;
+    });
+
+    // Nobody could vote on an appeal without its message — withdraw it and
+    // keep the "Contestar" button so the offender can try again.
+    if (!sent) {
+      database.deleteDuylhouAppeal(appeal.id);
+      await ctx.answerCallbackQuery({ text: '❌ Não foi possível abrir a votação. Tente de novo.' }).catch(() => {});
+      return;
+    }
+
+    database.updateDuylhouAppeal(appeal.id, { messageId: sent.message_id });
+
+    // The callout's "Contestar" button is spent — remove it.
+    await ctx.editMessageReplyMarkup({ reply_markup: undefined }).catch(() => {});
+    await ctx.answerCallbackQuery({ text: 'Votação aberta!' }).catch(() => {});
+  }
+
+  /**
+   * Vote button pressed: records (or changes) the user's vote and
+   * refreshes the tally on the buttons.
+   */
+  async function castVote(ctx: Context, appealId: number, forgive: boolean): Promise<void> {
+    const userId = ctx.from?.id;
+    const appeal = database.getDuylhouAppeal(appealId);
+
+    if (!userId || !appeal || appeal.status !== 'open' || appeal.closesAt <= Date.now()) {
+      await ctx.answerCallbackQuery({ text: 'Essa votação já encerrou.' }).catch(() => {});
+      return;
+    }
+    if (userId === appeal.offenderId) {
+      await ctx.answerCallbackQuery({ text: 'Você não pode votar na própria contestação.', show_alert: true }).catch(() => {});
+      return;
+    }
+
+    const votes = appeal.votes.filter((v) => v.userId !== userId);
+    votes.push({ userId, forgive });
+    database.updateDuylhouAppeal(appealId, { votes });
+
+    await ctx.editMessageReplyMarkup({ reply_markup: buildVoteKeyboard(appeal) }).catch(() => {});
+    await ctx.answerCallbackQuery({ text: forgive ? 'Voto: perdoar ✅' : 'Voto: manter ❌' }).catch(() => {});
+  }
+
+  /**
+   * Decides an expired appeal, applies the outcome and edits the vote
+   * message with the result.
+   */
+  async function closeAppeal(appeal: DuylhouAppealRecord): Promise<void> {
+    const { forgive, keep } = tally(appeal);
+    const accepted = forgive > keep && forgive >= minVotes;
+
+    database.updateDuylhouAppeal(appeal.id, {
+      status: accepted ? 'accepted' : 'rejected',
+      resolvedAt: Date.now(),
+    });
+
+    if (accepted) {
+      database.removeDuylhouIncident(appeal.incidentId);
+    }
+
+    auditLog.trace(
+      `Duylhou appeal #${appeal.id} ${accepted ? 'accepted' : 'rejected'} (${forgive} forgive / ${keep} keep)`,
+    );
+
+    if (!appeal.messageId) return;
+
+    const offender = escapeMarkdownV2(await resolveDisplayName(api, appeal.chatId, appeal.offenderId));
+    const outcome = accepted
+      ? `✅ *Perdoado\\!* O Duylhou de *${offender}* foi retirado do ranking\\.`
+      : `❌ *Mantido\\.* O Duylhou de *${offender}* continua valendo\\.`;
+
+    await api.editMessageText(
+      appeal.chatId,
+      appeal.messageId,
+      `⚖️ *Contestação encerrada*\n\n${outcome}\n\nVotos: ${forgive} perdoar · ${keep} manter`,
+      { parse_mode: 'MarkdownV2' },
+    ).catch((e: Error) => {
+      auditLog.trace(`Duylhou appeal #${appeal.id}: result edit failed (${e.message})`);
+    });
+  }
+
+  /**
+   * Closes every open appeal whose voting window has passed.
+   */
+  async function sweep(): Promise<void> {
+    // A slow sweep still holds its list of open appeals; a second one
+    // started meanwhile would close them again.  Votes are tallied once a
+    // backup restore is done — the database refuses writes until then.
+    if (sweeping || database.isRestoring()) return;
+    sweeping = true;
+
+    try {
+      const now = Date.now();
+      for (const appeal of database.getOpenDuylhouAppeals()) {
+        if (appeal.closesAt > now) break; // sorted by closesAt
+        await closeAppeal(appeal);
+      }
+    } finally {
+      sweeping = false;
+    }
+  }
+
+  /**
+   * Routes `duylhou:appeal:<incidentId>` and `duylhou:vote:<appealId>:<y|n>`.
+   *
+   * @param ctx - Grammy context for the callback query.
+   */
+  async function handleCallback(ctx: Context): Promise<void> {
+    const data = ctx.callbackQuery?.data;
+    if (!data) return;
+
+    const [, action, id, choice] = data.split(':');
+    const numericId = parseInt(id, 10);
+    if (isNaN(numericId)) {
+      await ctx.answerCallbackQuery().catch(() => {});
+      return;
+    }
+
+    if (action === 'appeal') {
+      await openAppeal(ctx, numericId);
+    } else if (action === 'vote') {
+      await castVote(ctx, numericId, choice === 'y');
+    } else {
+      await ctx.answerCallbackQuery().catch(() => {});
+    }
+  }
+
+  function start(): void {
+    if (timer) return;
+    timer = setInterval(() => {
+      sweep().catch((e: Error) => {
+        auditLog.record('DUYLHOU_APPEAL_SWEEP_FAIL', { error: e.message });
+      });
+    }, SWEEP_INTERVAL_MS);
+    timer.unref();
+  }
+
+  function stop(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+
+  return {
+    buildAppealKeyboard,
+    handleCallback,
+    callbackPattern: new RegExp(`^${CALLBACK_PREFIX}`),
+    start,
+    stop,
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * =============================================================================
+ * Duylhou Awards — automatic end-of-month "Duylhou do Mês" post
+ *
+ * A lightweight scheduler that wakes up periodically and, once a month has
+ * ended in America/Sao_Paulo time, posts its final ranking to every target
+ * chat — each chat gets its own ranking — and crowns the winner(s).  The
+ * message can optionally be pinned.
+ *
+ * Every post is recorded via {@link Database.recordDuylhouAward}; a chat
+ * that already has an award record for the month is skipped, so restarting
+ * the bot never posts the award twice, and a bot that was down on the 1st
+ * still posts it on the next tick.
+ * =============================================================================
+ */
+
+import { Api } from 'grammy';
+import { Database } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { escapeMarkdownV2 } from './telegram-formatting';
+import { formatRankingLines, resolveDisplayName, shiftMonth } from './ranking';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Timezone whose calendar decides when a month rolls over. */
+const AWARDS_TIMEZONE = 'America/Sao_Paulo';
+
+/** Default tick interval — 15 minutes is plenty for a once-a-month job. */
+const DEFAULT_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/** Number of users listed in the award post. */
+const AWARDS_RANKING_LIMIT = 10;
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the awards scheduler.
+ */
+export interface DuylhouAwardsConfig {
+  /** Telegram API client used to post and pin. */
+  api: Api;
+  /** The central database instance (leaderboard + award records). */
+  database: Database;
+  /** Chats that receive the award post. */
+  targetChatIds: number[];
+  /** Pin the award message (silently) after posting.  Default `false`. */
+  pinMessage?: boolean;
+  /** How often the scheduler checks the calendar.  Default 15 min. */
+  checkIntervalMs?: number;
+}
+
+/** Public surface of the scheduler. */
+export interface DuylhouAwardsScheduler {
+  /** Starts the periodic check. */
+  start: () => void;
+  /** Stops the periodic check. */
+  stop: () => void;
+  /**
+   * Runs one check immediately.  Posts the previous São Paulo month's
+   * award to every chat that has no record of it yet.
+   *
+   * @param now - Instant to check (default: now).
+   * @returns Number of chats the award was posted to.
+   */
+  runOnce: (now?: Date) => Promise<number>;
+}
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the calendar day and YYYY-MM month of `date` in São Paulo.
+ *
+ * @param date - Instant to convert.
+ */
+export function getSaoPauloCalendar(date: Date): { day: number; month: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: AWARDS_TIMEZONE,
+    year: 'numeric', month: '2-digit', day: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    day: parseInt(get('day'), 10),
+    month: `${get('year')}-${get('month')}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the end-of-month awards scheduler.  Call `start()` once the bot
+ * is running; the first check happens after one interval so the database
+ * has finished loading.
+ *
+ * @param config - See {@link DuylhouAwardsConfig}.
+ * @returns A scheduler with `start`, `stop` and `runOnce`.
+ */
+export function createDuylhouAwardsScheduler(config: DuylhouAwardsConfig): DuylhouAwardsScheduler {
+  const {
+    api,
+    database,
+    targetChatIds,
+    pinMessage = false,
+    checkIntervalMs = DEFAULT_CHECK_INTERVAL_MS,
+  } = config;
+
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  /**
+   * Builds the MarkdownV2 award post for a chat.
+   *
+   * @param chatId - Chat the post is rendered for (name lookups).
+   * @param month  - The month being awarded.
+   * @returns The message text and the crowned user IDs.
+   */
+  async function buildAwardMessage(
+    chatId: number,
+    month: string,
+  ): Promise<{ text: string; winnerUserIds: number[] }> {
+    const rankings = database.getDuylhouLeaderboard(month, AWARDS_RANKING_LIMIT, chatId);
+    const header = `📅 *Fechamento do mês ${escapeMarkdownV2(month)}*`;
+
+    if (rankings.length === 0) {
+      return {
+        text: `${header}\n\n😇 Nenhum Duylhou no mês\\. O grupo está de parabéns\\!`,
+        winnerUserIds: [],
+      };
+    }
+
+    const winners = rankings.filter((r) => r.rank === 1);
+    const winnerNames: string[] = [];
+    for (const winner of winners) {
+      winnerNames.push(escapeMarkdownV2(await resolveDisplayName(api, chatId, winner.userId)));
+    }
+
+    const count = winners[0].count;
+    const crown = winners.length === 1
+      ? `👑 *Duylhou do Mês:* ${winnerNames[0]} com ${count} ${count === 1 ? 'Duylhou' : 'Duylhous'}\\!`
+      : `👑 *Duylhous do Mês \\(empate\\):* ${winnerNames.join(', ')} com ${count} cada\\!`;
+
+    const lines = await formatRankingLines(api, chatId, rankings);
+
+    return {
+      text: [header, '', crown, '', '🏆 *Ranking final*', '', ...lines].join('\n'),
+      winnerUserIds: winners.map((w) => w.userId),
+    };
+  }
+
+  /**
+   * Posts (and optionally pins) the award for one chat and records it.
+   *
+   * @returns `true` when the post was sent.
+   */
+  async function postAward(chatId: number, month: string): Promise<boolean> {
+    const { text, winnerUserIds } = await buildAwardMessage(chatId, month);
+
+    const sent = await api.sendMessage(chatId, text, { parse_mode: 'MarkdownV2' }).catch((e: Error) => {
+      auditLog.record('DUYLHOU_AWARD_SEND_FAIL', { chatId, month, error: e.message });
+      return null;
+    });
+    if (!sent) return false;
+
+    database.recordDuylhouAward({ month, chatId, messageId: sent.message_id, winnerUserIds });
+
+    if (pinMessage) {
+      await api
+        .pinChatMessage(chatId, sent.message_id, { disable_notification: true })
+        .catch((e: Error) => {
+          // Usually missing "pin messages" admin right — the post still stands.
+          auditLog.trace(`Duylhou awards: pin failed in chat ${chatId} (${e.message})`);
+        });
+    }
+
+    return true;
+  }
+
+  /**
+   * Checks the São Paulo calendar and posts any award still missing.
+   */
+  async function runOnce(now: Date = new Date()): Promise<number> {
+    // Guard against overlapping ticks while Telegram calls are slow, and
+    // wait out a backup restore (the database refuses writes meanwhile).
+    if (running || database.isRestoring()) return 0;
+    running = true;
+
+    try {
+      const { month: currentMonth } = getSaoPauloCalendar(now);
+      const awardedMonth = shiftMonth(currentMonth, -1);
+      let posted = 0;
+
+      for (const chatId of targetChatIds) {
+        if (database.getDuylhouAward(awardedMonth, chatId)) continue;
+        if (await postAward(chatId, awardedMonth)) posted++;
+      }
+
+      if (posted > 0) {
+        auditLog.trace(`Duylhou awards for ${awardedMonth} posted to ${posted} chat(s)`);
+      }
+      return posted;
+    } finally {
+      running = false;
+    }
+  }
+
+  function start(): void {
+    if (timer) return;
+    timer = setInterval(() => {
+      runOnce().catch((e: Error) => {
+        auditLog.record('DUYLHOU_AWARD_TICK_FAIL', { error: e.message });
+      });
+    }, checkIntervalMs);
+    timer.unref();
+  }
+
+  function stop(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+
+  return { start, stop, runOnce };
+}
@@ -0,0 +1,270 @@
+/**
+ * =============================================================================
+ * Duylhou Config Handler — `/duylhou config` for chat admins
+ *
+ * Usage:
+ *   /duylhou config                               → show the chat's settings
+ *   /duylhou config on | off                      → enable / disable Duylhou
+ *   /duylhou config janela <horas> | padrao       → repeat window
+ *   /duylhou config dominio add | remove <domínio> → exempt domains
+ *   /duylhou config usuario add | remove [id]     → exempt users (or reply
+ *                                                   to one of their messages)
+ *   /duylhou config sticker <pack> | padrao       → sticker set for callouts
+ *
+ * Only chat administrators may change settings; anyone may view them.
+ * Settings are stored per chat via {@link Database.updateDuylhouSettings}.
+ * =============================================================================
+ */
+
+import { Context } from 'grammy';
+import { Database, DuylhouChatSettings } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { escapeMarkdownV2 } from './telegram-formatting';
+import { resolveDisplayName } from './ranking';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Shortest window an admin may set. */
+const MIN_WINDOW_HOURS = 1;
+
+/** Longest window an admin may set (30 days). */
+const MAX_WINDOW_HOURS = 30 * 24;
+
+/** Exempt lists are capped so the settings message stays readable. */
+const MAX_EXEMPTIONS = 50;
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/** Keywords that reset a setting to the global default. */
+const DEFAULT_KEYWORDS = ['padrao', 'padrão', 'default'];
+
+const USAGE =
+  '*Comandos*\n' +
+  '/duylhou config on \\| off\n' +
+  '/duylhou config janela \\<horas\\> \\| padrao\n' +
+  '/duylhou config dominio add \\| remove \\<domínio\\>\n' +
+  '/duylhou config usuario add \\| remove \\<id\\> _\\(ou responda a uma mensagem\\)_\n' +
+  '/duylhou config sticker \\<pack\\> \\| padrao';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the config handler.
+ */
+export interface DuylhouConfigHandlerConfig {
+  /** The central database instance (settings storage). */
+  database: Database;
+  /** Global window shown when a chat uses the default. */
+  defaultExpiryMs: number;
+}
+
+/** Public surface of the handler. */
+export interface DuylhouConfigHandler {
+  /**
+   * Handles `/duylhou config …`.
+   *
+   * @param args - Words after `config`.
+   */
+  handleCommand: (ctx: Context, args: string[]) => Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+/**
+ * Formats a window in ms as hours (or days when whole).
+ */
+function formatWindow(ms: number): string {
+  const hours = ms / (60 * 60 * 1000);
+  if (hours >= 24 && hours % 24 === 0) return `${hours / 24} ${hours === 24 ? 'dia' : 'dias'}`;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
+}
+
+/**
+ * Parses the `janela` argument (`12`, `1,5`).
+ *
+ * @returns The window in ms, or `null` outside 1–720 hours.
+ */
+export function parseWindowHours(input: string): number | null {
+  const hours = parseFloat(input.replace(',', '.'));
+  if (isNaN(hours) || hours < MIN_WINDOW_HOURS || hours > MAX_WINDOW_HOURS) return null;
+  return Math.round(hours * 60 * 60 * 1000);
+}
+
+/**
+ * Reduces user input (`https://www.Docs.Google.com/x`) to a bare domain.
+ *
+ * @returns The domain, or `null` when it does not look like one.
+ */
+function parseDomain(input: string): string | null {
+  let domain = input.trim().toLowerCase().replace(/^https?:\/\//, '').split(/[\/?#:]/)[0];
+  if (domain.startsWith('www.')) domain = domain.slice(4);
+  return DOMAIN_PATTERN.test(domain) ? domain : null;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the `/duylhou config` handler.
+ *
+ * @param config - See {@link DuylhouConfigHandlerConfig}.
+ */
+export function createDuylhouConfigHandler(config: DuylhouConfigHandlerConfig): DuylhouConfigHandler {
+  const { database, defaultExpiryMs } = config;
+
+  /**
+   * Chat admins (and anyone in a private chat) may change settings.
+   */
+  async function isChatAdmin(ctx: Context): Promise<boolean> {
+    if (ctx.chat?.type === 'private') return true;
+    if (!ctx.chat || !ctx.from) return false;
+
+    const member = await ctx.api.getChatMember(ctx.chat.id, ctx.from.id).catch(() => null);
+    return member?.status === 'creator' || member?.status === 'administrator';
+  }
+
+  /**
+   * Renders the chat's settings as MarkdownV2.
+   */
+  async function renderSettings(ctx: Context, settings: DuylhouChatSettings): Promise<string> {
+    const window = settings.expiryMs === null
+      ? `${escapeMarkdownV2(formatWindow(defaultExpiryMs))} _\\(padrão\\)_`
+      : escapeMarkdownV2(formatWindow(settings.expiryMs));
+
+    const domains = settings.exemptDomains.length > 0
+      ? settings.exemptDomains.map((d) => `\`${escapeMarkdownV2(d)}\``).join(', ')
+      : 'nenhum';
+
+    const users: string[] = [];
+    for (const userId of settings.exemptUserIds) {
+      users.push(escapeMarkdownV2(await resolveDisplayName(ctx.api, settings.chatId, userId)));
+    }
+
+    const sticker = settings.stickerSetName
+      ? `pack \`${escapeMarkdownV2(settings.stickerSetName)}\``
+      : 'padrão';
+
+    return [
+      '⚙️ *Configuração do Duylhou*',
+      '',
+      `Status: ${settings.enabled ? '✅ ligado' : '⛔ desligado'}`,
+      `Janela: ${window}`,
+      `Domínios isentos: ${domains}`,
+      `Usuários isentos: ${users.length > 0 ? users.join(', ') : 'nenhum'}`,
+      `Sticker: ${sticker}`,
+    ].join('\n');
+  }
+
+  /**
+   * Applies one `/duylhou config` change.
+   *
+   * @returns The updated settings, or an error text (MarkdownV2) for the user.
+   */
+  async function applyChange(
+    ctx: Context,
+    chatId: number,
+    args: string[],
+  ): Promise<{ settings?: DuylhouChatSettings; error?: string }> {
+    const adminId = ctx.from!.id;
+    const current = database.getDuylhouSettings(chatId);
+    const [option, action, value] = args.map((a) => a.trim());
+    const keyword = option.toLowerCase();
+
+    if (keyword === 'on' || keyword === 'off') {
+      return { settings: database.updateDuylhouSettings(chatId, { enabled: keyword === 'on' }, adminId) };
+    }
+
+    if (keyword === 'janela') {
+      if (action && DEFAULT_KEYWORDS.includes(action.toLowerCase())) {
+        return { settings: database.updateDuylhouSettings(chatId, { expiryMs: null }, adminId) };
+      }
+      const expiryMs = parseWindowHours(action ?? '');
+      if (expiryMs === null) {
+        return { error: `❌ Informe a janela em horas, entre ${MIN_WINDOW_HOURS} e ${MAX_WINDOW_HOURS}\\.` };
+      }
+      return { settings: database.updateDuylhouSettings(chatId, { expiryMs }, adminId) };
+    }
+
+    if (keyword === 'dominio' || keyword === 'domínio') {
+      const domain = value ? parseDomain(value) : null;
+      if ((action !== 'add' && action !== 'remove') || !domain) {
+        return { error: '❌ Use: /duylhou config dominio add \\| remove \\<domínio\\>' };
+      }
+      const domains = current.exemptDomains.filter((d) => d !== domain);
+      if (action === 'add') {
+        if (domains.length >= MAX_EXEMPTIONS) return { error: `❌ Limite de ${MAX_EXEMPTIONS} domínios\\.` };
+        domains.push(domain);
+      }
+      return { settings: database.updateDuylhouSettings(chatId, { exemptDomains: domains }, adminId) };
+    }
+
+    if (keyword === 'usuario' || keyword === 'usuário') {
+      const repliedTo = ctx.message?.reply_to_message?.from?.id;
+      const userId = value ? parseInt(value, 10) : repliedTo;
+      if ((action !== 'add' && action !== 'remove') || !userId || isNaN(userId)) {
+        return { error: '❌ Use: /duylhou config usuario add \\| remove \\<id\\> ou responda a uma mensagem do usuário\\.' };
+      }
+      const users = current.exemptUserIds.filter((id) => id !== userId);
+      if (action === 'add') {
+        if (users.length >= MAX_EXEMPTIONS) return { error: `❌ Limite de ${MAX_EXEMPTIONS} usuários\\.` };
+        users.push(userId);
+      }
+      return { settings: database.updateDuylhouSettings(chatId, { exemptUserIds: users }, adminId) };
+    }
+
+    if (keyword === 'sticker') {
+      if (!action) return { error: '❌ Use: /duylhou config sticker \\<pack\\> \\| padrao' };
+      if (DEFAULT_KEYWORDS.includes(action.toLowerCase())) {
+        return { settings: database.updateDuylhouSettings(chatId, { stickerSetName: null }, adminId) };
+      }
+
+      // Accept a t.me/addstickers/<name> link as well as the bare name.
+      const setName = action.replace(/^https?:\/\/t\.me\/addstickers\//i, '');
+      const set = await ctx.api.getStickerSet(setName).catch(() => null);
+      if (!set || set.stickers.length === 0) {
+        return { error: `❌ Pack de stickers \`${escapeMarkdownV2(setName)}\` não encontrado\\.` };
+      }
+      return { settings: database.updateDuylhouSettings(chatId, { stickerSetName: set.name }, adminId) };
+    }
+
+    return { error: `❌ Opção desconhecida\\.\n\n${USAGE}` };
+  }
+
+  async function handleCommand(ctx: Context, args: string[]): Promise<void> {
+    const chatId = ctx.chat?.id;
+    if (!chatId || !ctx.from) return;
+
+    // No arguments → show the current settings.
+    if (args.length === 0) {
+      const text = await renderSettings(ctx, database.getDuylhouSettings(chatId));
+      await ctx.reply(`${text}\n\n${USAGE}`, { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply('🚫 Somente administradores do grupo podem alterar a configuração\\.', {
+        parse_mode: 'MarkdownV2',
+      }).catch(() => {});
+      return;
+    }
+
+    const { settings, error } = await applyChange(ctx, chatId, args);
+    if (error || !settings) {
+      await ctx.reply(error ?? '❌ Erro\\.', { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    auditLog.trace(`/duylhou config ${args.join(' ')} in chat ${chatId} by ${ctx.from.id}`);
+    const text = await renderSettings(ctx, settings);
+    await ctx.reply(`✅ Configuração atualizada\\.\n\n${text}`, { parse_mode: 'MarkdownV2' }).catch(() => {});
+  }
+
+  return { handleCommand };
+}
@@ -0,0 +1,169 @@
+/**
+ * =============================================================================
+ * Duylhou Fingerprint — media reference extraction & local perceptual hash
+ *
+ * Re-uploaded photos and videos carry no URL, so the Duylhou handler
+ * fingerprints them instead:
+ *
+ *   • `file_unique_id` — Telegram's stable ID for a file.  Forwards and
+ *     re-sends of the same file share it, so this alone catches most repeats.
+ *   • A 64-bit difference hash of the image (or the video's thumbnail) —
+ *     catches the same picture saved and uploaded again, which Telegram
+ *     re-encodes under a new `file_unique_id`.
+ *
+ * The hash is computed locally: the smallest available rendition is
+ * downloaded from the Bot API file endpoint and ffmpeg scales it to a 9×8
+ * grayscale frame.  Nothing is sent to third-party services.
+ * =============================================================================
+ */
+
+import { PassThrough } from 'stream';
+import axios from 'axios';
+import ffmpeg from 'fluent-ffmpeg';
+import { Context } from 'grammy';
+import type { Message, PhotoSize } from 'grammy/types';
+import {
+  MediaFingerprintRecord,
+  computeDifferenceHash,
+  DHASH_WIDTH,
+  DHASH_HEIGHT,
+} from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Download budget for the image used for hashing. */
+const DOWNLOAD_TIMEOUT_MS = 10 * 1000;
+
+/** Upper bound for the downloaded rendition — thumbnails are a few KB. */
+const MAX_DOWNLOAD_BYTES = 5 * 1024 * 1024;
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * The parts of a message's media needed for fingerprinting.
+ */
+export interface MediaReference {
+  mediaType: MediaFingerprintRecord['mediaType'];
+  /** `file_unique_id` of the full-size file. */
+  fileUniqueId: string;
+  /** `file_id` of the smallest image rendition to hash, if any. */
+  hashFileId: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+/**
+ * Picks the smallest rendition from a list of photo sizes.
+ */
+function smallest(sizes: PhotoSize[]): PhotoSize | null {
+  if (sizes.length === 0) return null;
+  return sizes.reduce((a, b) => (a.width * a.height <= b.width * b.height ? a : b));
+}
+
+/**
+ * Extracts the fingerprintable media from a message.
+ *
+ * Photos use the largest size's `file_unique_id` (stable across forwards)
+ * and the smallest size for hashing.  Videos and GIFs hash their thumbnail.
+ *
+ * @returns The media reference, or `null` when the message has no photo/video.
+ */
+export function extractMediaReference(message: Message): MediaReference | null {
+  if (message.photo && message.photo.length > 0) {
+    const largest = message.photo[message.photo.length - 1];
+    return {
+      mediaType: 'photo',
+      fileUniqueId: largest.file_unique_id,
+      hashFileId: smallest(message.photo)?.file_id ?? null,
+    };
+  }
+
+  // GIFs arrive with both `animation` and `document` — check animation first.
+  if (message.animation) {
+    return {
+      mediaType: 'animation',
+      fileUniqueId: message.animation.file_unique_id,
+      hashFileId: message.animation.thumbnail?.file_id ?? null,
+    };
+  }
+
+  if (message.video) {
+    return {
+      mediaType: 'video',
+      fileUniqueId: message.video.file_unique_id,
+      hashFileId: message.video.thumbnail?.file_id ?? null,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Decodes an image buffer into a 9×8 grayscale frame with ffmpeg.
+ *
+ * @returns The raw pixels, or `null` when ffmpeg fails.
+ */
+function decodeGrayscaleFrame(image: Buffer): Promise<Uint8Array | null> {
+  return new Promise((resolve) => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    output.on('end', () => resolve(new Uint8Array(Buffer.concat(chunks))));
+
+    ffmpeg()
+      .input(input)
+      .outputOptions([
+        '-vf', `scale=${DHASH_WIDTH}:${DHASH_HEIGHT},format=gray`,
+        '-frames:v', '1',
+        '-f', 'rawvideo',
+      ])
+      .on('error', (err: Error) => {
+        auditLog.trace(`Duylhou fingerprint: ffmpeg failed (${err.message})`);
+        resolve(null);
+      })
+      .pipe(output);
+
+    input.end(image);
+  });
+}
+
+/**
+ * Computes the perceptual hash of a Telegram file.
+ *
+ * Failures (download, decode) are logged and yield `null`, as does a flat
+ * frame (see computeDifferenceHash) — the caller then falls back to
+ * `file_unique_id` matching only.
+ *
+ * @param ctx    - Grammy context (carries the API client and token).
+ * @param fileId - `file_id` of the image to hash.
+ * @returns 16 hex characters, or `null`.
+ */
+export async function computePerceptualHash(ctx: Context, fileId: string): Promise<string | null> {
+  try {
+    const file = await ctx.api.getFile(fileId);
+    if (!file.file_path) return null;
+    if (file.file_size && file.file_size > MAX_DOWNLOAD_BYTES) return null;
+
+    const url = `https://api.telegram.org/file/bot${ctx.api.token}/${file.file_path}`;
+    const { data } = await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      timeout: DOWNLOAD_TIMEOUT_MS,
+      maxContentLength: MAX_DOWNLOAD_BYTES,
+    });
+
+    const pixels = await decodeGrayscaleFrame(Buffer.from(data));
+    return pixels ? computeDifferenceHash(pixels) : null;
+  } catch (e) {
+    auditLog.trace(`Duylhou fingerprint: hashing failed (${(e as Error).message})`);
+    return null;
+  }
+}
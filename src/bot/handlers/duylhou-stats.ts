@@ -0,0 +1,157 @@
+/**
+ * =============================================================================
+ * Duylhou Stats Handler — `/duylhou stats [YYYY-MM]`
+ *
+ * Shows, for the chat and month (current month by default):
+ *   • the most-duplicated URLs,
+ *   • the "victims" whose posts get duplicated most,
+ *   • the offender → original pair that repeats most,
+ *   • the median time between an original post and its duplicate.
+ *
+ * All figures come from the Duylhou incident records through the
+ * statistics queries on {@link Database}.
+ * =============================================================================
+ */
+
+import { Context } from 'grammy';
+import { Database } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { escapeMarkdownV2 } from './telegram-formatting';
+import { resolveDisplayName } from './ranking';
+import { formatDuration } from './duylhou';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Entries listed per section. */
+const STATS_LIMIT = 5;
+
+/** Longest URL shown before it is cut with an ellipsis. */
+const MAX_URL_LENGTH = 60;
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/** Incident keys of duplicated media (see `duylhou.ts`). */
+const MEDIA_KEY_PATTERN = /^telegram:(photo|video|animation)\//;
+
+const MEDIA_LABELS: Record<string, string> = {
+  photo: '📷 foto',
+  video: '🎬 vídeo',
+  animation: '🎞️ GIF',
+};
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the stats handler.
+ */
+export interface DuylhouStatsHandlerConfig {
+  /** The central database instance (incident statistics). */
+  database: Database;
+}
+
+/** Public surface of the handler. */
+export interface DuylhouStatsHandler {
+  /**
+   * Handles `/duylhou stats …`.
+   *
+   * @param args - Words after `stats` (optional YYYY-MM).
+   */
+  handleCommand: (ctx: Context, args: string[]) => Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+/**
+ * MarkdownV2 label for an incident key: a code span for URLs, a media
+ * label for duplicated photos/videos.
+ */
+function formatIncidentKey(normalizedUrl: string): string {
+  const media = normalizedUrl.match(MEDIA_KEY_PATTERN);
+  if (media) return escapeMarkdownV2(MEDIA_LABELS[media[1]]);
+
+  const shown = normalizedUrl.length > MAX_URL_LENGTH
+    ? `${normalizedUrl.slice(0, MAX_URL_LENGTH - 1)}…`
+    : normalizedUrl;
+  return `\`${escapeMarkdownV2(shown)}\``;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the `/duylhou stats` handler.
+ *
+ * @param config - See {@link DuylhouStatsHandlerConfig}.
+ */
+export function createDuylhouStatsHandler(config: DuylhouStatsHandlerConfig): DuylhouStatsHandler {
+  const { database } = config;
+
+  async function handleCommand(ctx: Context, args: string[]): Promise<void> {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const requested = args[0];
+    if (requested && !MONTH_PATTERN.test(requested)) {
+      await ctx.reply('📊 Use: /duylhou stats \\[AAAA\\-MM\\]', { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    const month = requested || database.getCurrentMonth();
+    auditLog.trace(`/duylhou stats ${month} in chat ${chatId}`);
+
+    const total = database.getDuylhouIncidentCount(month, chatId);
+    const header = `📊 *Estatísticas do Duylhou — ${escapeMarkdownV2(month)}*`;
+
+    if (total === 0) {
+      await ctx.reply(`${header}\n\n😇 Nenhum Duylhou no período\\.`, { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    const name = async (userId: number) => escapeMarkdownV2(await resolveDisplayName(ctx.api, chatId, userId));
+    const lines = [header, '', `Total de Duylhous: *${total}*`];
+
+    lines.push('', '🔁 *Mais repetidos*');
+    database.getTopDuplicatedUrls(month, STATS_LIMIT, chatId).forEach(({ normalizedUrl, count }, i) => {
+      lines.push(`${i + 1}\\. ${formatIncidentKey(normalizedUrl)} — ${count}x`);
+    });
+
+    lines.push('', '🎯 *Mais copiados*');
+    for (const [i, { userId, count }] of database.getTopDuylhouVictims(month, STATS_LIMIT, chatId).entries()) {
+      lines.push(`${i + 1}\\. ${await name(userId)} — ${count}x`);
+    }
+
+    const [topPair] = database.getTopDuylhouPairs(month, 1, chatId);
+    if (topPair && topPair.count > 1) {
+      lines.push(
+        '',
+        '👯 *Dupla mais frequente*',
+        `${await name(topPair.offenderId)} → ${await name(topPair.originalUserId)} — ${topPair.count}x`,
+      );
+    }
+
+    const { medianMs, samples } = database.getMedianRepostDelay(month, chatId);
+    if (medianMs !== null) {
+      lines.push(
+        '',
+        `⏱️ *Tempo mediano até o repost:* ${escapeMarkdownV2(formatDuration(medianMs))} ` +
+        `_\\(${samples} ${samples === 1 ? 'caso' : 'casos'}\\)_`,
+      );
+    }
+
+    await ctx.reply(lines.join('\n'), {
+      parse_mode: 'MarkdownV2',
+      link_preview_options: { is_disabled: true },
+    }).catch((e: Error) => {
+      auditLog.record('DUYLHOU_STATS_SEND_FAIL', { chatId, error: e.message });
+    });
+  }
+
+  return { handleCommand };
+}
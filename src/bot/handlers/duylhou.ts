@@ -4,21 +4,47 @@
  *
  * When a user posts a link that was already shared (and is still within the
  * expiry window) the bot replies **to that user's message** with a sticker
- * (if configured) or a plain-text fallback.  The incident is recorded on the
- * leaderboard so the group can keep score.
+ * (if configured) followed by a callout naming who posted it first, how long
+ * ago, and a `t.me` link to the original message.  The incident is recorded
+ * on the leaderboard so the group can keep score.
+ *
+ * Basic groups have no linkable message URLs; there the callout is sent as
+ * a reply to the *original* message instead, so Telegram's quote is the proof.
+ *
+ * Photos, videos and GIFs are checked too: a re-sent file is recognised by
+ * its Telegram `file_unique_id`, and a re-uploaded copy by a perceptual hash
+ * of the image/thumbnail (see `duylhou-fingerprint.ts`).  Media expire with
+ * the same window as links.  Hashing downloads and decodes the file, so
+ * media checks run in the background, one at a time and in arrival order,
+ * instead of holding up the next update.
+ *
+ * Short links (t.co, vm.tiktok.com, redd.it, …) are expanded by the optional
+ * link resolver before normalisation, so the same post matches whichever
+ * share link was used.
+ *
+ * Each chat can override the window, exempt domains and users, pick a
+ * sticker set or switch the feature off (see `duylhou-config.ts`).
+ *
+ * When an appeals module is configured the callout carries a "Contestar"
+ * button that opens a group vote (see `duylhou-appeals.ts`).
  *
  * Sticker behaviour
  * -----------------
  * Telegram stickers are referenced by a stable `file_id` string.  To obtain
  * one: forward any sticker to @getidsbot — it will reply with the file_id.
  * Set that value in `.env` as `DUYLHOU_STICKER_FILE_ID`.  When the value is
- * empty the handler falls back to a short text reply.
+ * empty only the text callout is sent.
  * =============================================================================
  */
 
 import { Context } from 'grammy';
-import { Database, extractAndNormalizeUrls } from '../../database';
+import { Database, DuylhouChatSettings, LinkRecord, extractAndNormalizeUrls } from '../../database';
 import { auditLog } from '../../assistant/audit-log';
+import { buildMessageLink, escapeMarkdownV2 } from './telegram-formatting';
+import { resolveDisplayName } from './ranking';
+import type { DuylhouAppeals } from './duylhou-appeals';
+import type { LinkResolver } from './link-resolver';
+import { computePerceptualHash, extractMediaReference } from './duylhou-fingerprint';
 
 // ---------------------------------------------------------------------------
 // Public types
@@ -36,9 +62,18 @@ export interface DuylhouHandlerConfig {
   ignoredUserIds?: number[];
   /**
    * Telegram sticker `file_id` to send on a Duylhou hit.
-   * Empty string → fall back to a text reply.
+   * Empty string → send only the text callout.
    */
   duylhouStickerFileId?: string;
+  /** Adds the "Contestar" button to callouts.  Omit to disable appeals. */
+  appeals?: DuylhouAppeals;
+  /** Expands short links before normalisation.  Omit to compare them as-is. */
+  linkResolver?: LinkResolver;
+  /**
+   * Maximum Hamming distance (out of 64 bits) for two images to count as
+   * the same picture.  Default 5.
+   */
+  mediaHashMaxDistance?: number;
 }
 
 /** Public surface of the handler. */
@@ -47,6 +82,69 @@ export interface DuylhouHandler {
   handleMessage: (ctx: Context) => Promise<void>;
 }
 
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How long a fetched sticker set is reused before asking Telegram again. */
+const STICKER_SET_CACHE_MS = 60 * 60 * 1000;
+
+/**
+ * Media checks waiting beyond this are matched by `file_unique_id` only,
+ * so a burst of uploads cannot queue up unbounded downloads.
+ */
+const MAX_PENDING_MEDIA_HASHES = 20;
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns `true` when the URL's host is one of `domains` or a subdomain of
+ * one.  Accepts full URLs and normalised `host/path` strings.
+ *
+ * @param url     - URL as posted, or its normalised form.
+ * @param domains - Lowercase domains without `www.`.
+ */
+export function isExemptDomain(url: string, domains: string[]): boolean {
+  if (domains.length === 0) return false;
+
+  const match = url.match(/^(?:https?:\/\/)?([^\/?#:]+)/i);
+  if (!match) return false;
+
+  let host = match[1].toLowerCase();
+  if (host.startsWith('www.')) host = host.slice(4);
+
+  return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * Formats a duration as a short Portuguese label ("5 min", "2h 10min", "3 dias").
+ *
+ * @param ms - Duration in milliseconds.
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return 'menos de 1 min';
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours < 24) return rest > 0 ? `${hours}h ${rest}min` : `${hours}h`;
+
+  const days = Math.floor(hours / 24);
+  return days === 1 ? '1 dia' : `${days} dias`;
+}
+
+/**
+ * Formats an elapsed duration as a short Portuguese "há …" label.
+ *
+ * @param ms - Elapsed milliseconds.
+ */
+export function formatElapsed(ms: number): string {
+  return ms < 60_000 ? 'agora mesmo' : `há ${formatDuration(ms)}`;
+}
+
 // ---------------------------------------------------------------------------
 // Factory
 // ---------------------------------------------------------------------------
@@ -58,79 +156,134 @@ export interface DuylhouHandler {
  * @returns A handler object with a single `handleMessage` method.
  */
 export function createDuylhouHandler(config: DuylhouHandlerConfig): DuylhouHandler {
-  const { database, targetChatIds, ignoredUserIds, duylhouStickerFileId } = config;
+  const {
+    database,
+    targetChatIds,
+    ignoredUserIds,
+    duylhouStickerFileId,
+    appeals,
+    linkResolver,
+    mediaHashMaxDistance = 5,
+  } = config;
+
+  /** Sticker set name → its sticker file_ids. */
+  const stickerSets = new Map<string, { fileIds: string[]; fetchedAt: number }>();
+
+  /**
+   * Picks the sticker for a callout: a random one from the chat's sticker
+   * set when configured (and fetchable), else the global sticker.
+   */
+  async function pickSticker(ctx: Context, settings: DuylhouChatSettings): Promise<string | undefined> {
+    const setName = settings.stickerSetName;
+    if (!setName) return duylhouStickerFileId || undefined;
+
+    let cached = stickerSets.get(setName);
+    if (!cached || Date.now() - cached.fetchedAt > STICKER_SET_CACHE_MS) {
+      const set = await ctx.api.getStickerSet(setName).catch((e: Error) => {
+        auditLog.trace(`Duylhou: sticker set "${setName}" unavailable (${e.message})`);
+        return null;
+      });
+      if (set) {
+        cached = { fileIds: set.stickers.map((s) => s.file_id), fetchedAt: Date.now() };
+        stickerSets.set(setName, cached);
+      }
+    }
+
+    if (!cached || cached.fileIds.length === 0) return duylhouStickerFileId || undefined;
+    return cached.fileIds[Math.floor(Math.random() * cached.fileIds.length)];
+  }
 
   /**
-   * Sends either the configured sticker or a plain-text "Duylhou!" reply,
-   * always quoting the offender's own message so the callout lands visually
-   * right below it.
+   * Sends the Duylhou callout for a duplicate.
+   *
+   * The configured sticker (if any) goes first as a reply to the offender.
+   * It is followed by a MarkdownV2 text naming the original poster, how
+   * long ago they posted, and a deep link to their message.  When the chat
+   * cannot be deep-linked the text replies to the original message instead.
    *
    * @param ctx       - Grammy context (carries the Telegram API client).
    * @param chatId    - The chat to send into.
    * @param messageId - The offender's message ID (used as the reply target).
+   * @param original  - The stored record of the first post (link or media).
+   * @param incidentId - The recorded incident (target of the appeal button).
+   * @param settings  - The chat's Duylhou settings (sticker choice).
    */
   async function sendDuylhouResponse(
     ctx: Context,
     chatId: number,
     messageId: number,
+    original: Pick<LinkRecord, 'userId' | 'messageId' | 'createdAt'>,
+    incidentId: number,
+    settings: DuylhouChatSettings,
   ): Promise<void> {
-    const replyParams = {
+    const replyToOffender = {
       reply_parameters: {
         message_id: messageId,
         allow_sending_without_reply: true,
       },
     };
 
-    if (duylhouStickerFileId) {
-      // Send the pre-uploaded sticker by its file_id.
+    const stickerFileId = await pickSticker(ctx, settings);
+    if (stickerFileId) {
+      // Send the sticker by its file_id.  If it fails
+      // (e.g. file_id expired / wrong chat type) the text below still lands.
       await ctx.api
-        .sendSticker(chatId, duylhouStickerFileId, replyParams)
+        .sendSticker(chatId, stickerFileId, replyToOffender)
         .catch((e: Error) => {
-          // If the sticker send fails (e.g. file_id expired / wrong chat type)
-          // fall back to text so the user still sees the callout.
-          auditLog.trace(`Duylhou: sticker send failed (${e.message}), falling back to text`);
-          return ctx.api.sendMessage(chatId, 'Duylhou! 🔄', replyParams).catch(() => {});
+          auditLog.trace(`Duylhou: sticker send failed (${e.message}), sending text only`);
         });
-    } else {
-      // No sticker configured — plain text.
-      await ctx.api
-        .sendMessage(chatId, 'Duylhou! 🔄', replyParams)
-        .catch(() => {});
     }
-  }
 
-  /**
-   * Main entry point — called for every incoming message.
-   * Extracts trackable URLs, checks each against the link index,
-   * and fires the Duylhou response on the first duplicate hit.
-   *
-   * @param ctx - Grammy context for the incoming message.
-   */
-  async function handleMessage(ctx: Context): Promise<void> {
-    if (!ctx.message) return;
-
-    const text = ctx.message.text || ctx.message.caption || '';
-    if (!text) return;
+    const chatUsername = ctx.chat && 'username' in ctx.chat ? ctx.chat.username : undefined;
+    const link = buildMessageLink(chatId, original.messageId, chatUsername);
+    const name = await resolveDisplayName(ctx.api, chatId, original.userId);
+    const elapsed = formatElapsed(Date.now() - original.createdAt);
 
-    const chatId = ctx.chat?.id;
-    const userId = ctx.from?.id;
-    const messageId = ctx.message.message_id;
+    let text = `Duylhou\\! 🔄\n*${escapeMarkdownV2(name)}* já mandou isso ${escapeMarkdownV2(elapsed)}`;
+    if (link) text += `\n[👉 ver original](${link})`;
 
-    if (!chatId || !userId) return;
+    // Without a link, quote the original message itself as the proof.
+    const replyParams = link
+      ? replyToOffender
+      : { reply_parameters: { message_id: original.messageId, allow_sending_without_reply: true } };
 
-    // Scope check — honour targetChatIds when set.
-    const isPrivate = ctx.chat?.type === 'private';
-    const isTarget  = targetChatIds && targetChatIds.includes(chatId);
-    if (!isPrivate && targetChatIds && targetChatIds.length > 0 && !isTarget) return;
+    const replyMarkup = appeals?.buildAppealKeyboard(incidentId);
+    await ctx.api
+      .sendMessage(chatId, text, {
+        ...replyParams,
+        parse_mode: 'MarkdownV2',
+        link_preview_options: { is_disabled: true },
+        reply_markup: replyMarkup,
+      })
+      .catch((e: Error) => {
+        auditLog.trace(`Duylhou: callout send failed (${e.message}), falling back to plain text`);
+        return ctx.api
+          .sendMessage(chatId, 'Duylhou! 🔄', { ...replyToOffender, reply_markup: replyMarkup })
+          .catch(() => {});
+      });
+  }
 
-    // User ignore-list (e.g. the bot itself).
-    if (ignoredUserIds && ignoredUserIds.includes(userId)) return;
+  /**
+   * Checks the message's URLs against the link index.
+   *
+   * @returns `true` when a Duylhou was fired.
+   */
+  async function checkLinks(
+    ctx: Context,
+    text: string,
+    chatId: number,
+    userId: number,
+    messageId: number,
+    settings: DuylhouChatSettings,
+  ): Promise<boolean> {
+    const found = linkResolver
+      ? await linkResolver.extractAndNormalizeUrls(text)
+      : extractAndNormalizeUrls(text);
 
-    // ---------------------------------------------------------------------------
-    // URL extraction & duplicate check
-    // ---------------------------------------------------------------------------
-    const urls = extractAndNormalizeUrls(text);
-    if (urls.length === 0) return;
+    // Exempt domains are checked on both the posted and the expanded form.
+    const urls = found.filter(({ original, normalized }) =>
+      !isExemptDomain(original, settings.exemptDomains) && !isExemptDomain(normalized, settings.exemptDomains));
+    if (urls.length === 0) return false;
 
     auditLog.trace(`Duylhou: checking ${urls.length} URL(s) from user ${userId}`);
 
@@ -145,13 +298,15 @@ export function createDuylhouHandler(config: DuylhouHandlerConfig): DuylhouHandl
         );
 
         // Persist the incident for the monthly leaderboard.
-        database.recordDuylhouIncident(userId, existingLink.userId, chatId, normalized);
+        const incident = database.recordDuylhouIncident(
+          userId, existingLink.userId, chatId, normalized, existingLink.createdAt,
+        );
 
-        // Reply to the *offender's* message with sticker or text.
-        await sendDuylhouResponse(ctx, chatId, messageId);
+        // Reply to the *offender's* message with the callout and proof.
+        await sendDuylhouResponse(ctx, chatId, messageId, existingLink, incident.id, settings);
 
         // First duplicate wins — stop scanning remaining URLs in this message.
-        return;
+        return true;
       }
 
       if (!existingLink) {
@@ -167,6 +322,125 @@ export function createDuylhouHandler(config: DuylhouHandlerConfig): DuylhouHandl
       }
       // existingLink && same userId → user reposted their own link; ignore.
     }
+
+    return false;
+  }
+
+  /**
+   * Checks an attached photo/video/GIF against the media fingerprints.
+   * The perceptual hash is only computed when the exact `file_unique_id`
+   * lookup misses and `allowHashing` is set.
+   */
+  async function checkMedia(
+    ctx: Context,
+    chatId: number,
+    userId: number,
+    messageId: number,
+    settings: DuylhouChatSettings,
+    allowHashing: boolean,
+  ): Promise<void> {
+    const media = ctx.message ? extractMediaReference(ctx.message) : null;
+    if (!media) return;
+
+    let existing = database.findMediaFingerprint(chatId, media.fileUniqueId);
+    let perceptualHash: string | null = null;
+
+    if (!existing && media.hashFileId && allowHashing) {
+      perceptualHash = await computePerceptualHash(ctx, media.hashFileId);
+      existing = database.findMediaFingerprint(chatId, media.fileUniqueId, perceptualHash, mediaHashMaxDistance);
+    }
+
+    if (existing && existing.userId !== userId) {
+      auditLog.trace(
+        `Duylhou: duplicate ${media.mediaType} — original by user ${existing.userId} ` +
+        `(msg ${existing.messageId}), repeated by ${userId} (msg ${messageId})`,
+      );
+
+      // Media has no URL; the original's file ID stands in as the incident key.
+      const key = `telegram:${existing.mediaType}/${existing.fileUniqueId}`;
+      const incident = database.recordDuylhouIncident(userId, existing.userId, chatId, key, existing.createdAt);
+
+      await sendDuylhouResponse(ctx, chatId, messageId, existing, incident.id, settings);
+      return;
+    }
+
+    if (!existing) {
+      database.addMediaFingerprint({
+        chatId,
+        userId,
+        messageId,
+        mediaType: media.mediaType,
+        fileUniqueId: media.fileUniqueId,
+        perceptualHash,
+      });
+      auditLog.trace(`Duylhou: registered new ${media.mediaType} from user ${userId}`);
+    }
+    // existing && same userId → user reposted their own media; ignore.
+  }
+
+  // Media checks run one after another on this chain, in arrival order,
+  // so a repost is never checked before the original is registered.
+  let mediaChecks: Promise<void> = Promise.resolve();
+  let pendingMediaChecks = 0;
+
+  /**
+   * Queues {@link checkMedia} off the update path.  Errors are logged
+   * here — nothing awaits the check.
+   */
+  function enqueueMediaCheck(
+    ctx: Context,
+    chatId: number,
+    userId: number,
+    messageId: number,
+    settings: DuylhouChatSettings,
+  ): void {
+    if (!ctx.message || !extractMediaReference(ctx.message)) return;
+
+    const allowHashing = pendingMediaChecks < MAX_PENDING_MEDIA_HASHES;
+    pendingMediaChecks++;
+    mediaChecks = mediaChecks
+      .then(() => checkMedia(ctx, chatId, userId, messageId, settings, allowHashing))
+      .catch((e) => {
+        auditLog.record('DUYLHOU_MEDIA_CHECK_FAIL', { chatId, messageId, error: String(e) });
+      })
+      .finally(() => {
+        pendingMediaChecks--;
+      });
+  }
+
+  /**
+   * Main entry point — called for every incoming message.
+   * Checks the message's links first and, if none was a duplicate, queues
+   * the check of its attached media.  Fires the Duylhou response on the
+   * first hit.
+   *
+   * @param ctx - Grammy context for the incoming message.
+   */
+  async function handleMessage(ctx: Context): Promise<void> {
+    if (!ctx.message) return;
+
+    const chatId = ctx.chat?.id;
+    const userId = ctx.from?.id;
+    const messageId = ctx.message.message_id;
+
+    if (!chatId || !userId) return;
+
+    // Scope check — honour targetChatIds when set.
+    const isPrivate = ctx.chat?.type === 'private';
+    const isTarget  = targetChatIds && targetChatIds.includes(chatId);
+    if (!isPrivate && targetChatIds && targetChatIds.length > 0 && !isTarget) return;
+
+    // User ignore-list (e.g. the bot itself).
+    if (ignoredUserIds && ignoredUserIds.includes(userId)) return;
+
+    // Per-chat switch and exempt users (`/duylhou config`).
+    const settings = database.getDuylhouSettings(chatId);
+    if (!settings.enabled || settings.exemptUserIds.includes(userId)) return;
+
+    const text = ctx.message.text || ctx.message.caption || '';
+    if (text && await checkLinks(ctx, text, chatId, userId, messageId, settings)) return;
+
+    enqueueMediaCheck(ctx, chatId, userId, messageId, settings);
   }
 
   return { handleMessage };
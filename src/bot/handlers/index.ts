@@ -13,9 +13,48 @@ export type { DebugHandler, DebugHandlerConfig } from './debug';
 export { createDuylhouHandler } from './duylhou';
 export type { DuylhouHandler, DuylhouHandlerConfig } from './duylhou';
 
+export { createRankingHandler } from './ranking';
+export type { RankingHandler, RankingHandlerConfig } from './ranking';
+
+export { createDuylhouAwardsScheduler } from './duylhou-awards';
+export type { DuylhouAwardsScheduler, DuylhouAwardsConfig } from './duylhou-awards';
+
+export { createDuylhouAppeals } from './duylhou-appeals';
+export type { DuylhouAppeals, DuylhouAppealsConfig } from './duylhou-appeals';
+
+export { createDuylhouConfigHandler } from './duylhou-config';
+export type { DuylhouConfigHandler, DuylhouConfigHandlerConfig } from './duylhou-config';
+
+export { createDuylhouStatsHandler } from './duylhou-stats';
+export type { DuylhouStatsHandler, DuylhouStatsHandlerConfig } from './duylhou-stats';
+
+export { createLinkResolver } from './link-resolver';
+export type { LinkResolver, LinkResolverConfig } from './link-resolver';
+
+export { createUrlRulesHandler } from './url-rules';
+export type { UrlRulesHandler, UrlRulesHandlerConfig } from './url-rules';
+
+export { createBackupHandler } from './backup';
+export type { BackupHandler, BackupHandlerConfig } from './backup';
+
+export { createRetentionHandler } from './retention';
+export type { RetentionHandler, RetentionHandlerConfig } from './retention';
+
+export { createConfigHandler } from './config';
+export type { ConfigHandler, ConfigHandlerConfig } from './config';
+
+export { createChatExportHandler } from './chat-export';
+export type { ChatExportHandler, ChatExportHandlerConfig } from './chat-export';
+
+export { createUserDataHandler } from './user-data';
+export type { UserDataHandler, UserDataHandlerConfig } from './user-data';
+
 export { createSummaryHandler } from './summary';
 export type { SummaryHandler, SummaryHandlerConfig } from './summary';
 
+export { createSearchHandler } from './search';
+export type { SearchHandler, SearchHandlerConfig } from './search';
+
 export { createNewsHandler } from './news';
 export type { NewsHandler, NewsHandlerConfig } from './news';
 
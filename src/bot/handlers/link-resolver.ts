@@ -0,0 +1,187 @@
+/**
+ * =============================================================================
+ * Link Resolver — expands short links before Duylhou normalisation
+ *
+ * `t.co/…`, `bit.ly/…`, `vm.tiktok.com/…`, `redd.it/…` and Reddit's
+ * `/r/<sub>/s/<code>` share links all hide the real content URL, so the same
+ * post shared twice under different short links would never match.  This
+ * stage follows the redirects and hands the *expanded* URL to
+ * {@link normalizeUrl}.
+ *
+ * • Redirects are followed hop by hop (HEAD first, GET when a host refuses
+ *   HEAD) until the URL is no longer a short link.
+ * • Every message gets one shared timeout budget; when it runs out the
+ *   remaining links are compared by their short form.
+ * • Expansions are cached in the database ({@link Database.getShortLink}),
+ *   so each short link costs at most one lookup — across restarts too.
+ *   A chain cut short by the budget or the hop limit still ends on a short
+ *   link; that partial result is used once but not cached.
+ * =============================================================================
+ */
+
+import axios from 'axios';
+import {
+  Database,
+  extractUrls,
+  normalizeUrl,
+  isShortLink,
+  shortLinkKey,
+} from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Default time budget for resolving all short links in one message. */
+const DEFAULT_TIMEOUT_MS = 3000;
+
+/** Default maximum redirects followed per link. */
+const DEFAULT_MAX_HOPS = 5;
+
+/** Some shorteners serve an interstitial page to unknown clients. */
+const USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the link resolver.
+ */
+export interface LinkResolverConfig {
+  /** The central database instance (short link cache). */
+  database: Database;
+  /** Time budget per message in ms.  Default 3000. */
+  timeoutMs?: number;
+  /** Maximum redirects followed per link.  Default 5. */
+  maxHops?: number;
+}
+
+/** Public surface of the resolver. */
+export interface LinkResolver {
+  /**
+   * Expands a single URL.  Non-short URLs are returned unchanged; so are
+   * short links that could not be resolved before `deadline`.
+   */
+  resolve: (url: string, deadline?: number) => Promise<string>;
+  /**
+   * Drop-in async replacement for {@link extractAndNormalizeUrls}:
+   * `original` is the URL as posted, `normalized` is built from its expansion.
+   */
+  extractAndNormalizeUrls: (text: string) => Promise<Array<{ original: string; normalized: string }>>;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the short link resolver.
+ *
+ * @param config - See {@link LinkResolverConfig}.
+ * @returns The resolver.
+ */
+export function createLinkResolver(config: LinkResolverConfig): LinkResolver {
+  const {
+    database,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxHops = DEFAULT_MAX_HOPS,
+  } = config;
+
+  /**
+   * Performs one hop; every request it makes finishes by `deadline`.
+   *
+   * @returns The absolute redirect target, or `null` when the response is
+   *          not a redirect or the deadline has passed.  Throws on network
+   *          errors and timeouts.
+   */
+  async function fetchRedirect(url: string, deadline: number): Promise<string | null> {
+    const options = {
+      maxRedirects: 0,
+      validateStatus: () => true,
+      headers: { 'User-Agent': USER_AGENT },
+    };
+
+    // axios reads a timeout of 0 as "no timeout", so a spent deadline must
+    // skip the request instead.
+    let timeout = deadline - Date.now();
+    if (timeout <= 0) return null;
+    let response = await axios.head(url, { ...options, timeout });
+
+    // Some hosts answer HEAD with 403/405 — retry with GET and discard the
+    // body, with whatever time the HEAD left.
+    if (response.status >= 400) {
+      timeout = deadline - Date.now();
+      if (timeout <= 0) return null;
+      response = await axios.get(url, { ...options, timeout, responseType: 'stream' });
+      response.data?.destroy?.();
+    }
+
+    const location = response.headers['location'];
+    if (response.status >= 300 && response.status < 400 && typeof location === 'string') {
+      return new URL(location, url).toString();
+    }
+    return null;
+  }
+
+  /**
+   * Follows redirects until the URL stops being a short link.
+   *
+   * @returns The expanded URL, or `null` when no hop succeeded.
+   */
+  async function followRedirects(url: string, deadline: number): Promise<string | null> {
+    let current = url;
+
+    for (let hop = 0; hop < maxHops && isShortLink(current); hop++) {
+      const next = await fetchRedirect(current, deadline);
+      if (!next) break;
+      current = next;
+    }
+
+    return current === url ? null : current;
+  }
+
+  async function resolve(url: string, deadline: number = Date.now() + timeoutMs): Promise<string> {
+    if (!isShortLink(url)) return url;
+
+    const key = shortLinkKey(url);
+    if (!key) return url;
+
+    const cached = database.getShortLink(key);
+    if (cached) return cached.resolvedUrl;
+
+    try {
+      const resolved = await followRedirects(url, deadline);
+      if (!resolved) return url;
+
+      if (isShortLink(resolved)) {
+        auditLog.trace(`Link resolver: ${key} only expanded to ${resolved}, not cached`);
+        return resolved;
+      }
+
+      database.setShortLink(key, resolved);
+      auditLog.trace(`Link resolver: ${key} → ${resolved}`);
+      return resolved;
+    } catch (e) {
+      // Timeout / network failure: compare by the short form this time and
+      // try again on the next occurrence.
+      auditLog.trace(`Link resolver: could not expand ${key} (${(e as Error).message})`);
+      return url;
+    }
+  }
+
+  async function resolveAndNormalize(text: string): Promise<Array<{ original: string; normalized: string }>> {
+    const deadline = Date.now() + timeoutMs;
+    const results: Array<{ original: string; normalized: string }> = [];
+
+    for (const url of extractUrls(text)) {
+      results.push({ original: url, normalized: normalizeUrl(await resolve(url, deadline)) });
+    }
+
+    return results;
+  }
+
+  return { resolve, extractAndNormalizeUrls: resolveAndNormalize };
+}
@@ -0,0 +1,73 @@
+/**
+ * @module media/dash-merge
+ *
+ * Muxes a video-only and an audio-only DASH track into one streamable MP4
+ * with ffmpeg.  Used by providers whose platforms serve video and audio
+ * separately (YouTube above 360p, every Reddit-hosted video).
+ *
+ * Packets are stream-copied (`-c copy`), so merging costs almost no CPU.
+ * The fragmented output (`frag+empty_moov`) can be uploaded while ffmpeg
+ * is still writing it.
+ *
+ * HLS playlists (Bluesky) go through the same remux: ffmpeg fetches the
+ * segments and copies them into one MP4, since Telegram cannot take an
+ * `.m3u8` URL.
+ */
+
+import { PassThrough, Readable } from 'stream';
+import ffmpeg from 'fluent-ffmpeg';
+
+/**
+ * Starts merging and returns the output stream right away.  An ffmpeg
+ * failure destroys the returned stream with the error, which surfaces in
+ * the upload that consumes it.
+ *
+ * @param video - Video-only track: a readable stream or a URL ffmpeg fetches.
+ * @param audio - Audio-only track: a readable stream or a URL ffmpeg fetches.
+ */
+export function mergeDashStreams(video: Readable | string, audio: Readable | string): Readable {
+  const output = new PassThrough();
+
+  // ffmpeg reads both inputs, copies packets into a single MP4 container.
+  ffmpeg()
+    .input(video)
+    .input(audio)
+    .outputOptions([
+      '-c', 'copy',        // Stream-copy — no CPU-heavy re-encoding.
+      '-f', 'mp4',         // Output container format.
+      '-movflags', 'frag+empty_moov', // Makes the MP4 streamable (no seek needed).
+    ])
+    .on('error', (err: Error) => {
+      output.destroy(err);
+    })
+    .pipe(output);
+
+  return output;
+}
+
+/**
+ * Remuxes an HLS playlist into one streamable MP4.  From a master
+ * playlist ffmpeg's default stream selection keeps the highest-resolution
+ * variant.  Failures destroy the returned stream, as in
+ * {@link mergeDashStreams}.
+ *
+ * @param playlistUrl - URL of the `.m3u8` playlist.
+ */
+export function remuxHlsStream(playlistUrl: string): Readable {
+  const output = new PassThrough();
+
+  ffmpeg()
+    .input(playlistUrl)
+    .outputOptions([
+      '-c', 'copy',
+      '-bsf:a', 'aac_adtstoasc', // ADTS (MPEG-TS) AAC → MP4 AAC.
+      '-f', 'mp4',
+      '-movflags', 'frag+empty_moov',
+    ])
+    .on('error', (err: Error) => {
+      output.destroy(err);
+    })
+    .pipe(output);
+
+  return output;
+}
@@ -19,5 +19,6 @@ export type {
   MediaHandlerConfig,
   MediaProvider,
   MediaInfo,
+  MediaItem,
   QueuedJob,
 } from './types';
@@ -7,18 +7,26 @@
  *  3. When the queue activates the job it calls the executor, which runs
  *     `processMedia`: fetch metadata → download stream → upload to Telegram.
  *
+ * Posts with several photos/videos (`MediaInfo.items`) go out as Telegram
+ * media groups of up to {@link MEDIA_GROUP_LIMIT} items; the author,
+ * caption and the link back to the post ride on the first item.
+ *
  * The queue ensures at most `maxConcurrency` downloads run simultaneously.
  * Users whose jobs are waiting see a live status of what is ahead of them.
  */
 
-import { Context, InputFile, InlineKeyboard } from 'grammy';
-import type { MediaInfo, MediaHandlerConfig, MediaHandler, QueuedJob } from './types';
+import { Context, InputFile, InlineKeyboard, InputMediaBuilder } from 'grammy';
+import type { InputMediaPhoto, InputMediaVideo } from 'grammy/types';
+import type { MediaInfo, MediaItem, MediaHandlerConfig, MediaHandler, QueuedJob } from './types';
 import { providers } from './providers';
 import { downloadStream } from './downloader';
 import { escapeMarkdown, truncate } from './caption-formatter';
 import { ProcessingQueue } from './queue';
 import { ThrottledEditor } from './throttled-editor';
 
+/** Telegram accepts at most this many items per media group. */
+const MEDIA_GROUP_LIMIT = 10;
+
 // ---------------------------------------------------------------------------
 // Stream resolution
 // ---------------------------------------------------------------------------
@@ -118,8 +126,49 @@ async function sendImage(
     return;
   }
 
+  const captionLine = media.caption ? `\n${escapeMarkdown(truncate(media.caption))}` : '';
+
   await ctx.replyWithPhoto(new InputFile(stream, `img_${Date.now()}.jpg`), {
-    caption: `📷 *${escapeMarkdown(media.author || 'Image')}*`,
+    caption: `📷 *${escapeMarkdown(media.author || 'Image')}*${captionLine}`,
+    parse_mode: 'MarkdownV2',
+    reply_markup: new InlineKeyboard().url(
+      `Open in ${media.platform} ↗️`,
+      originalUrl,
+    ),
+  });
+}
+
+/**
+ * Streams a GIF (delivered as MP4) into the chat as an animation.
+ *
+ * @param ctx         - Grammy context.
+ * @param media       - Resolved media metadata.
+ * @param url         - Direct URL of the animation.
+ * @param originalUrl - Raw URL for the inline button.
+ * @param statusMsgId - Placeholder message ID to edit/delete.
+ */
+async function sendAnimation(
+  ctx: Context,
+  media: MediaInfo,
+  url: string,
+  originalUrl: string,
+  statusMsgId: number,
+): Promise<void> {
+  const chatId = ctx.chat!.id;
+
+  const [dlErr, stream] = await downloadStream(url);
+  if (dlErr || !stream) {
+    await ctx.api
+      .editMessageText(chatId, statusMsgId, '⚠️ Download failed.')
+      .catch(() => {});
+    return;
+  }
+
+  const authorLine = media.author ? `👤 *${escapeMarkdown(media.author)}*\n` : '';
+  const captionLine = media.caption ? escapeMarkdown(truncate(media.caption)) : '';
+
+  await ctx.replyWithAnimation(new InputFile(stream, `gif_${Date.now()}.mp4`), {
+    caption: authorLine + captionLine,
     parse_mode: 'MarkdownV2',
     reply_markup: new InlineKeyboard().url(
       `Open in ${media.platform} ↗️`,
@@ -128,6 +177,94 @@ async function sendImage(
   });
 }
 
+/**
+ * Streams a multi-media post into the chat as one or more media groups.
+ * Items that fail to download are skipped; the rest still go out.
+ *
+ * @param ctx         - Grammy context.
+ * @param media       - Resolved media metadata.
+ * @param items       - `media.items` (two or more).
+ * @param originalUrl - Raw URL for the link back to the post.
+ * @param statusMsgId - Placeholder message ID to edit/delete.
+ */
+async function sendMediaGroup(
+  ctx: Context,
+  media: MediaInfo,
+  items: MediaItem[],
+  originalUrl: string,
+  statusMsgId: number,
+): Promise<void> {
+  const chatId = ctx.chat!.id;
+
+  // Media groups cannot carry an inline keyboard, so the link goes in the caption.
+  const authorLine = media.author ? `👤 *${escapeMarkdown(media.author)}*\n` : '';
+  const captionLine = media.caption ? `${escapeMarkdown(truncate(media.caption))}\n` : '';
+  const href = /^https?:\/\//.test(originalUrl) ? originalUrl : `https://${originalUrl}`;
+  const linkLine = `[Open in ${media.platform} ↗️](${href.replace(/[)\\]/g, '\\$&')})`;
+  let caption: string | undefined = authorLine + captionLine + linkLine;
+
+  let sent = 0;
+  for (let offset = 0; offset < items.length; offset += MEDIA_GROUP_LIMIT) {
+    const chunk = items.slice(offset, offset + MEDIA_GROUP_LIMIT);
+    await ctx.api
+      .editMessageText(
+        chatId,
+        statusMsgId,
+        `⬇️ Downloading ${offset + 1}–${offset + chunk.length} of ${items.length}...`,
+      )
+      .catch(() => {});
+
+    const group: (InputMediaPhoto | InputMediaVideo)[] = [];
+    for (const item of chunk) {
+      const [dlErr, stream] = await downloadStream(item.url);
+      if (dlErr || !stream) continue;
+
+      const options = group.length === 0 && caption ? { caption, parse_mode: 'MarkdownV2' as const } : {};
+      // Media groups take no animations; a GIF's MP4 plays fine as a video.
+      group.push(
+        item.type !== 'photo'
+          ? InputMediaBuilder.video(new InputFile(stream, `vid_${Date.now()}_${group.length}.mp4`), options)
+          : InputMediaBuilder.photo(new InputFile(stream, `img_${Date.now()}_${group.length}.jpg`), options),
+      );
+    }
+    if (group.length === 0) continue;
+
+    await ctx.replyWithChatAction(chunk.some((item) => item.type !== 'photo') ? 'upload_video' : 'upload_photo');
+
+    // A media group needs at least two items.
+    if (group.length === 1) {
+      const [only] = group;
+      const other = { caption: only.caption, parse_mode: only.parse_mode };
+      if (only.type === 'video') await ctx.replyWithVideo(only.media, other);
+      else await ctx.replyWithPhoto(only.media, other);
+    } else {
+      await ctx.replyWithMediaGroup(group);
+    }
+
+    sent += group.length;
+    caption = undefined;
+  }
+
+  if (sent === 0) {
+    await ctx.api
+      .editMessageText(chatId, statusMsgId, '⚠️ Download failed.')
+      .catch(() => {});
+  }
+}
+
+/**
+ * Returns `media` with its single photo or video item (if any) moved to
+ * `videoUrl` / `imageUrl`, so a one-slide carousel is sent like a normal
+ * post.
+ */
+function withSingleItem(media: MediaInfo): MediaInfo {
+  const [item] = media.items ?? [];
+  if (!item || item.type === 'animation' || media.items!.length > 1) return media;
+  return item.type === 'video'
+    ? { ...media, videoUrl: item.url, imageUrl: undefined }
+    : { ...media, videoUrl: undefined, imageUrl: item.url };
+}
+
 // ---------------------------------------------------------------------------
 // Job executor (called by the queue when a slot is free)
 // ---------------------------------------------------------------------------
@@ -146,16 +283,22 @@ async function executeJob(job: QueuedJob, queue: ProcessingQueue): Promise<void>
   const chatId = ctx.chat!.id;
 
   try {
-    const [err, media] = await provider.fetch(match);
+    const [err, fetched] = await provider.fetch(match);
 
-    if (err || !media) {
+    if (err || !fetched) {
       await ctx.api
         .editMessageText(chatId, statusMsgId, `❌ Error: ${err?.message ?? 'Processing failed'}`)
         .catch(() => {});
       return;
     }
 
-    if (media.videoUrl || media.muxedStream) {
+    const media = withSingleItem(fetched);
+    const [firstItem] = media.items ?? [];
+    if (media.items && media.items.length > 1) {
+      await sendMediaGroup(ctx, media, media.items, originalUrl, statusMsgId);
+    } else if (firstItem?.type === 'animation') {
+      await sendAnimation(ctx, media, firstItem.url, originalUrl, statusMsgId);
+    } else if (media.videoUrl || media.muxedStream) {
       await sendVideo(ctx, media, originalUrl, statusMsgId);
     } else if (media.imageUrl) {
       await sendImage(ctx, media, originalUrl, statusMsgId);
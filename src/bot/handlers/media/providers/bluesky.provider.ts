@@ -0,0 +1,98 @@
+/**
+ * @module media/providers/bluesky
+ * Extracts photos and videos from Bluesky posts via the public AppView
+ * API (`app.bsky.feed.getPostThread`), which needs no login.
+ *
+ * Embed views handled:
+ *  - `app.bsky.embed.images#view`          — up to four photos (`fullsize`)
+ *  - `app.bsky.embed.video#view`           — an HLS playlist, remuxed to
+ *                                            MP4 with ffmpeg (media/dash-merge)
+ *  - `app.bsky.embed.recordWithMedia#view` — a quote post with its own
+ *                                            images or video (`media`)
+ *
+ * Link cards (`external`) and plain quote posts carry no media of their own.
+ */
+
+import axios from 'axios';
+import { MEDIA_ERROR_CODES } from '../types';
+import type { MediaProvider, MediaInfo, MediaItem, Result, SyncResult } from '../types';
+import { remuxHlsStream } from '../dash-merge';
+
+export class BlueskyProvider implements MediaProvider {
+  readonly platform = 'Bluesky' as const;
+  readonly statusMessage = '🔎 Bluesky...';
+  readonly regex =
+    /(?:https?:\/\/)?(?:www\.)?bsky\.app\/profile\/([^\/\s]+)\/post\/([a-z0-9]+)/i;
+
+  private static readonly API =
+    'https://public.api.bsky.app/xrpc/app.bsky.feed.getPostThread';
+
+  /**
+   * Loads the post by its AT URI.  Capture group 1 is the handle or DID,
+   * group 2 the record key.
+   */
+  async fetch(match: RegExpMatchArray): Result<MediaInfo> {
+    try {
+      const uri = `at://${match[1]}/app.bsky.feed.post/${match[2]}`;
+      const { data } = await axios.get(BlueskyProvider.API, {
+        params: { uri, depth: 0, parentHeight: 0 },
+        timeout: 10_000,
+      });
+
+      const [parseErr, media] = this.parseThread(data);
+      if (parseErr || !media) return [parseErr, null];
+
+      if (media.videoUrl?.includes('.m3u8')) {
+        return [null, { ...media, videoUrl: undefined, muxedStream: remuxHlsStream(media.videoUrl) }];
+      }
+
+      return [null, media];
+    } catch (e: any) {
+      return [
+        { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: e.message },
+        null,
+      ];
+    }
+  }
+
+  /**
+   * Builds the media info from a `getPostThread` response.  A video is
+   * returned as its playlist URL in `videoUrl`; `fetch()` remuxes it.
+   */
+  private parseThread(data: any): SyncResult<MediaInfo> {
+    const post = data?.thread?.post;
+    if (!post) {
+      return [
+        { code: MEDIA_ERROR_CODES.NOT_FOUND, category: 'MEDIA', message: 'Post not found' },
+        null,
+      ];
+    }
+
+    const base = {
+      platform: 'Bluesky' as const,
+      author: post.author?.displayName || post.author?.handle,
+      caption: post.record?.text,
+    };
+
+    const embed = post.embed?.$type === 'app.bsky.embed.recordWithMedia#view'
+      ? post.embed.media
+      : post.embed;
+
+    if (embed?.$type === 'app.bsky.embed.video#view' && embed.playlist) {
+      return [null, { ...base, videoUrl: embed.playlist }];
+    }
+
+    const images: any[] = embed?.$type === 'app.bsky.embed.images#view' ? embed.images ?? [] : [];
+    const items = images
+      .filter((image) => typeof image?.fullsize === 'string')
+      .map((image): MediaItem => ({ type: 'photo', url: image.fullsize }));
+
+    if (items.length > 1) return [null, { ...base, items }];
+    if (items.length === 1) return [null, { ...base, imageUrl: items[0].url }];
+
+    return [
+      { code: MEDIA_ERROR_CODES.NOT_FOUND, category: 'MEDIA', message: 'No media in post' },
+      null,
+    ];
+  }
+}
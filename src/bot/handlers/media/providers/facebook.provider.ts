@@ -0,0 +1,93 @@
+/**
+ * @module media/providers/facebook
+ * Extracts Facebook Reels by scraping the public reel page.
+ *
+ * The page HTML embeds the player's JSON, where the progressive MP4 URLs
+ * appear as JSON-escaped strings (`https:\/\/video…`).  Keys are tried from
+ * best to worst quality:
+ *  `browser_native_hd_url` → `playable_url_quality_hd` →
+ *  `browser_native_sd_url` → `playable_url`
+ *
+ * Share links (`facebook.com/share/r/…`, `fb.watch/…`) are fetched as they
+ * are; axios follows the redirect to the reel.  The caption comes from the
+ * `og:description` meta tag.  Private reels and videos behind the login
+ * wall return no URL and fail with NOT_FOUND.
+ */
+
+import axios from 'axios';
+import { MEDIA_ERROR_CODES } from '../types';
+import type { MediaProvider, MediaInfo, Result, SyncResult } from '../types';
+import { SMUDGE_HEADERS } from '../caption-formatter';
+
+export class FacebookProvider implements MediaProvider {
+  readonly platform = 'Facebook' as const;
+  readonly statusMessage = '🔎 Facebook Reel...';
+  readonly regex =
+    /(?:https?:\/\/)?(?:(?:www\.|m\.|web\.)?facebook\.com\/(?:reel\/\d+|share\/[rv]\/[A-Za-z0-9]+)|fb\.watch\/[A-Za-z0-9_-]+)/;
+
+  private static readonly VIDEO_KEYS = [
+    'browser_native_hd_url',
+    'playable_url_quality_hd',
+    'browser_native_sd_url',
+    'playable_url',
+  ];
+
+  /**
+   * Downloads the reel page and extracts the video URL.
+   */
+  async fetch(match: RegExpMatchArray): Result<MediaInfo> {
+    try {
+      const url = match[0].startsWith('http') ? match[0] : `https://${match[0]}`;
+      const { data } = await axios.get<string>(url, {
+        headers: SMUDGE_HEADERS,
+        responseType: 'text',
+        timeout: 10_000,
+      });
+
+      return this.parsePage(data);
+    } catch (e: any) {
+      return [
+        { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: e.message },
+        null,
+      ];
+    }
+  }
+
+  /**
+   * Finds the best video URL and the caption in the page HTML.
+   */
+  private parsePage(html: string): SyncResult<MediaInfo> {
+    for (const key of FacebookProvider.VIDEO_KEYS) {
+      const raw = new RegExp(`"${key}":"((?:[^"\\\\]|\\\\.)+)"`).exec(html)?.[1];
+      const videoUrl = raw ? this.unescapeJson(raw) : null;
+      if (videoUrl?.startsWith('http')) {
+        return [null, { platform: 'Facebook', videoUrl, caption: this.metaContent(html, 'og:description') }];
+      }
+    }
+
+    return [
+      { code: MEDIA_ERROR_CODES.NOT_FOUND, category: 'MEDIA', message: 'No video found in page' },
+      null,
+    ];
+  }
+
+  /** Decodes the body of a JSON string literal (`\/`, `\u0025`, …). */
+  private unescapeJson(raw: string): string | null {
+    try {
+      return JSON.parse(`"${raw}"`);
+    } catch {
+      return null;
+    }
+  }
+
+  /** Reads an Open Graph meta tag, decoding the common HTML entities. */
+  private metaContent(html: string, property: string): string | undefined {
+    const content = new RegExp(`<meta[^>]+property="${property}"[^>]+content="([^"]*)"`).exec(html)?.[1];
+    return content
+      ?.replace(/&quot;/g, '"')
+      .replace(/&#039;|&#x27;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+}
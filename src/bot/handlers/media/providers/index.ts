@@ -11,6 +11,10 @@ import { TikTokProvider } from './tiktok.provider';
 import { TwitterProvider } from './twitter.provider';
 import { RedditProvider } from './reddit.provider';
 import { YouTubeProvider } from './youtube.provider';
+import { BlueskyProvider } from './bluesky.provider';
+import { ThreadsProvider } from './threads.provider';
+import { FacebookProvider } from './facebook.provider';
+import { TwitchProvider } from './twitch.provider';
 
 export const providers: readonly MediaProvider[] = [
   new InstagramProvider(),
@@ -18,4 +22,8 @@ export const providers: readonly MediaProvider[] = [
   new TwitterProvider(),
   new RedditProvider(),
   new YouTubeProvider(),
+  new BlueskyProvider(),
+  new ThreadsProvider(),
+  new FacebookProvider(),
+  new TwitchProvider(),
 ];
\ No newline at end of file
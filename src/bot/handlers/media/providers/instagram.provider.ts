@@ -27,6 +27,10 @@
  * unescape passes (single → double → triple-escaped) until
  * `JSON.parse` succeeds.
  *
+ * Carousel ("sidecar") posts list their slides under
+ * `edge_sidecar_to_children`; each slide becomes one `MediaInfo.items`
+ * entry, in post order.
+ *
  * If all GQL strategies fail, three HTML-based fallbacks run:
  *  - `<meta property="og:video">` tag
  *  - Raw `video_url` key anywhere in the page
@@ -35,7 +39,7 @@
 
 import axios from 'axios';
 import { MEDIA_ERROR_CODES } from '../types';
-import type { MediaProvider, MediaInfo, Result, SyncResult } from '../types';
+import type { MediaProvider, MediaInfo, MediaItem, Result, SyncResult } from '../types';
 import { SMUDGE_HEADERS, sleep } from '../caption-formatter';
 
 export class InstagramProvider implements MediaProvider {
@@ -153,10 +157,16 @@ export class InstagramProvider implements MediaProvider {
     const media = data.shortcode_media ?? data.graphql?.shortcode_media;
     if (!media) return null;
 
+    const slides: any[] = media.edge_sidecar_to_children?.edges?.map((edge: any) => edge?.node) ?? [];
+    const items = slides
+      .map((node) => this.toMediaItem(node))
+      .filter((item): item is MediaItem => item !== null);
+
     return [
       null,
       {
         platform: 'Instagram',
+        items: items.length > 0 ? items : undefined,
         videoUrl: media.video_url
           ? this.normalizeUrl(media.video_url)
           : undefined,
@@ -170,6 +180,20 @@ export class InstagramProvider implements MediaProvider {
     ];
   }
 
+  /**
+   * Converts one carousel slide to a media item.
+   * @returns `null` for a slide without a usable URL.
+   */
+  private toMediaItem(node: any): MediaItem | null {
+    if (node?.is_video && node.video_url) {
+      return { type: 'video', url: this.normalizeUrl(node.video_url) };
+    }
+    if (node?.display_url) {
+      return { type: 'photo', url: this.normalizeUrl(node.display_url) };
+    }
+    return null;
+  }
+
   /**
    * Extracts the raw (still-escaped) gql_data string from the HTML.
    *
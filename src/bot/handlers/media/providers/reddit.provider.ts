@@ -1,13 +1,22 @@
 /**
  * @module media/providers/reddit
  * Extracts media from Reddit posts using the public `.json` endpoint.
- * Supports reddit-hosted video, direct video/image links.
+ * Supports reddit-hosted video, galleries, direct video/image links.
+ *
+ * Reddit-hosted (v.redd.it) videos are DASH: `fallback_url` is video only.
+ * The audio track is looked up in the post's DASH manifest and merged back
+ * in with ffmpeg (see media/dash-merge); videos without an audio track
+ * (`is_gif`, or none in the manifest) are sent as they are.
+ *
+ * Galleries (`gallery_data` + `media_metadata`) become `MediaInfo.items`
+ * in gallery order.  Crossposts take their media from the original post.
  */
 
 import axios from 'axios';
 import { MEDIA_ERROR_CODES } from '../types';
-import type { MediaProvider, MediaInfo, Result } from '../types';
+import type { MediaProvider, MediaInfo, MediaItem, Result, SyncResult } from '../types';
 import { SMUDGE_HEADERS } from '../caption-formatter';
+import { mergeDashStreams } from '../dash-merge';
 
 export class RedditProvider implements MediaProvider {
   readonly platform = 'Reddit' as const;
@@ -17,8 +26,8 @@ export class RedditProvider implements MediaProvider {
 
   /**
    * Appends `.json` to the post URL and reads the listing response.
-   * Checks `secure_media.reddit_video` first, then falls back to
-   * direct `.mp4`/`.mov` or image URLs in `post.url`.
+   * Checks galleries and `secure_media.reddit_video` first, then falls
+   * back to direct `.mp4`/`.mov` or image URLs in `post.url`.
    */
   async fetch(match: RegExpMatchArray): Result<MediaInfo> {
     try {
@@ -33,23 +42,18 @@ export class RedditProvider implements MediaProvider {
         ];
       }
 
-      let videoUrl = post.secure_media?.reddit_video?.fallback_url;
-      if (!videoUrl && post.url?.match(/\.(mp4|mov)$/)) {
-        videoUrl = post.url;
-      }
+      const [parseErr, media] = this.parsePost(post);
+      if (parseErr || !media) return [parseErr, null];
 
-      const isImage = !videoUrl && /\.(jpe?g|png|gif)$/.test(post.url ?? '');
+      const redditVideo = this.sourceOf(post).secure_media?.reddit_video;
+      if (media.videoUrl && redditVideo?.dash_url && !redditVideo.is_gif) {
+        const audioUrl = await this.findAudioUrl(redditVideo.dash_url);
+        if (audioUrl) {
+          return [null, { ...media, videoUrl: undefined, muxedStream: mergeDashStreams(media.videoUrl, audioUrl) }];
+        }
+      }
 
-      return [
-        null,
-        {
-          platform: 'Reddit',
-          videoUrl,
-          imageUrl: isImage ? post.url : undefined,
-          author: post.author,
-          caption: post.title,
-        },
-      ];
+      return [null, media];
     } catch (e: any) {
       return [
         { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: e.message },
@@ -57,4 +61,111 @@ export class RedditProvider implements MediaProvider {
       ];
     }
   }
-}
\ No newline at end of file
+
+  // -----------------------------------------------------------------------
+  // Post parsing
+  // -----------------------------------------------------------------------
+
+  /** A crosspost carries its media on the original post. */
+  private sourceOf(post: any): any {
+    return post.crosspost_parent_list?.[0] ?? post;
+  }
+
+  /**
+   * Builds the media info from a post listing, without the audio lookup.
+   */
+  private parsePost(post: any): SyncResult<MediaInfo> {
+    const source = this.sourceOf(post);
+    const base = { platform: 'Reddit' as const, author: post.author, caption: post.title };
+
+    const items = this.galleryItems(source);
+    if (items.length > 0) return [null, { ...base, items }];
+
+    let videoUrl = source.secure_media?.reddit_video?.fallback_url;
+    if (!videoUrl && source.url?.match(/\.(mp4|mov)$/)) {
+      videoUrl = source.url;
+    }
+
+    const isImage = !videoUrl && /\.(jpe?g|png|gif)$/.test(source.url ?? '');
+
+    return [
+      null,
+      {
+        ...base,
+        videoUrl,
+        imageUrl: isImage ? source.url : undefined,
+      },
+    ];
+  }
+
+  /**
+   * Converts a gallery to items.  Each entry of `gallery_data.items`
+   * points into `media_metadata`, whose URLs are HTML-escaped; entries
+   * still processing or removed are skipped.
+   */
+  private galleryItems(post: any): MediaItem[] {
+    const entries: any[] = post.gallery_data?.items ?? [];
+    const items: MediaItem[] = [];
+
+    for (const entry of entries) {
+      const meta = post.media_metadata?.[entry.media_id];
+      if (meta?.status !== 'valid') continue;
+
+      if (meta.e === 'AnimatedImage' && meta.s?.mp4) {
+        items.push({ type: 'animation', url: this.unescapeUrl(meta.s.mp4) });
+      } else if (meta.s?.u ?? meta.s?.gif) {
+        items.push({ type: 'photo', url: this.unescapeUrl(meta.s.u ?? meta.s.gif) });
+      }
+    }
+
+    return items;
+  }
+
+  private unescapeUrl(url: string): string {
+    return url.replace(/&amp;/g, '&');
+  }
+
+  // -----------------------------------------------------------------------
+  // DASH audio
+  // -----------------------------------------------------------------------
+
+  /**
+   * Downloads the DASH manifest and returns the audio track's URL.
+   * @returns `null` when the video has no audio or the manifest is unreadable.
+   */
+  private async findAudioUrl(dashUrl: string): Promise<string | null> {
+    try {
+      const { data } = await axios.get<string>(dashUrl, {
+        headers: SMUDGE_HEADERS,
+        responseType: 'text',
+        timeout: 10_000,
+      });
+      return this.parseAudioUrl(data, dashUrl);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Picks the highest-bandwidth representation of the manifest's audio
+   * adaptation set.  `BaseURL` is relative to the manifest.
+   *
+   * @param mpd     - DASH manifest XML.
+   * @param dashUrl - URL the manifest was loaded from.
+   */
+  private parseAudioUrl(mpd: string, dashUrl: string): string | null {
+    const sets = mpd.match(/<AdaptationSet[\s\S]*?<\/AdaptationSet>/g) ?? [];
+    const audio = sets.find((set) => /contentType="audio"|mimeType="audio\//.test(set));
+    if (!audio) return null;
+
+    const best = (audio.match(/<Representation[\s\S]*?<\/Representation>/g) ?? [])
+      .map((rep) => ({
+        bandwidth: Number(/bandwidth="(\d+)"/.exec(rep)?.[1] ?? 0),
+        baseUrl: /<BaseURL>([^<]+)<\/BaseURL>/.exec(rep)?.[1]?.trim(),
+      }))
+      .filter((rep) => rep.baseUrl)
+      .sort((a, b) => b.bandwidth - a.bandwidth)[0];
+
+    return best ? new URL(best.baseUrl!, dashUrl).toString() : null;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * @module media/providers/threads
+ * Extracts photos, videos and carousels from Threads posts by scraping the
+ * public post page.
+ *
+ * The page ships its data in `<script type="application/json">` blocks.
+ * Each block is parsed and walked for the post object whose `code` is the
+ * URL's short-code and that carries media:
+ *  - `carousel_media`  — every slide, in order, becomes a `MediaInfo.items`
+ *  - `video_versions`  — first entry is the best quality
+ *  - `image_versions2` — first candidate is the largest
+ *
+ * When the data blocks are missing (layout change, login wall) the
+ * `og:video` meta tag is used instead.  `og:image` is not: on a text-only
+ * post it is the author's profile picture.
+ */
+
+import axios from 'axios';
+import { MEDIA_ERROR_CODES } from '../types';
+import type { MediaProvider, MediaInfo, MediaItem, Result, SyncResult } from '../types';
+import { SMUDGE_HEADERS } from '../caption-formatter';
+
+export class ThreadsProvider implements MediaProvider {
+  readonly platform = 'Threads' as const;
+  readonly statusMessage = '🔎 Threads...';
+  readonly regex =
+    /(?:https?:\/\/)?(?:www\.)?threads\.(?:net|com)\/@([\w.]+)\/post\/([A-Za-z0-9_-]+)/;
+
+  /**
+   * Downloads the post page.  Capture group 1 is the username, group 2
+   * the post short-code.
+   */
+  async fetch(match: RegExpMatchArray): Result<MediaInfo> {
+    try {
+      const url = `https://www.threads.net/@${match[1]}/post/${match[2]}`;
+      const { data } = await axios.get<string>(url, {
+        headers: SMUDGE_HEADERS,
+        responseType: 'text',
+        timeout: 10_000,
+      });
+
+      return this.parsePage(data, match[2]);
+    } catch (e: any) {
+      return [
+        { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: e.message },
+        null,
+      ];
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Page parsing
+  // -----------------------------------------------------------------------
+
+  /**
+   * Builds the media info from the post page HTML.
+   *
+   * @param html - Post page.
+   * @param code - Short-code of the requested post (replies on the same
+   *               page carry their own codes).
+   */
+  private parsePage(html: string, code: string): SyncResult<MediaInfo> {
+    const post = this.findPost(html, code);
+    if (post) {
+      const base = {
+        platform: 'Threads' as const,
+        author: post.user?.username,
+        caption: post.caption?.text,
+      };
+
+      const items = ((post.carousel_media ?? []) as any[])
+        .map((slide) => this.toMediaItem(slide))
+        .filter((item): item is MediaItem => item !== null);
+      if (items.length > 0) return [null, { ...base, items }];
+
+      const single = this.toMediaItem(post);
+      if (single?.type === 'video') return [null, { ...base, videoUrl: single.url }];
+      if (single) return [null, { ...base, imageUrl: single.url }];
+    }
+
+    return this.parseMetaTags(html);
+  }
+
+  /**
+   * Walks every JSON data block for the post with the given code.
+   * @returns The post object, or `null` when no block contains it.
+   */
+  private findPost(html: string, code: string): any | null {
+    const blocks = html.match(/<script type="application\/json"[^>]*>[\s\S]*?<\/script>/g) ?? [];
+
+    for (const block of blocks) {
+      const json = block.replace(/^<script[^>]*>/, '').replace(/<\/script>$/, '');
+      let data: unknown;
+      try {
+        data = JSON.parse(json);
+      } catch {
+        continue;
+      }
+
+      const stack: unknown[] = [data];
+      while (stack.length > 0) {
+        const node = stack.pop();
+        if (!node || typeof node !== 'object') continue;
+
+        const record = node as Record<string, any>;
+        if (record.code === code && (record.carousel_media || record.video_versions || record.image_versions2)) {
+          return record;
+        }
+        stack.push(...Object.values(record));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Converts a post or carousel slide to a media item.
+   * @returns `null` for an entry without a usable URL (text-only post).
+   */
+  private toMediaItem(node: any): MediaItem | null {
+    const video = node?.video_versions?.[0]?.url;
+    if (video) return { type: 'video', url: video };
+
+    const image = node?.image_versions2?.candidates?.[0]?.url;
+    if (image) return { type: 'photo', url: image };
+
+    return null;
+  }
+
+  // -----------------------------------------------------------------------
+  // Meta-tag fallback
+  // -----------------------------------------------------------------------
+
+  private parseMetaTags(html: string): SyncResult<MediaInfo> {
+    const meta = (property: string) =>
+      new RegExp(`<meta[^>]+property="${property}"[^>]+content="([^"]+)"`).exec(html)?.[1]?.replace(/&amp;/g, '&');
+
+    const videoUrl = meta('og:video');
+    if (videoUrl) {
+      return [null, { platform: 'Threads', videoUrl, caption: meta('og:description') }];
+    }
+
+    return [
+      { code: MEDIA_ERROR_CODES.NOT_FOUND, category: 'MEDIA', message: 'No media found in post' },
+      null,
+    ];
+  }
+}
@@ -1,50 +1,71 @@
 /**
  * @module media/providers/tiktok
- * Extracts no-watermark videos from TikTok via the tikwm.com API.
+ * Extracts no-watermark videos and photo slideshows from TikTok via the
+ * tikwm.com API.
+ *
+ * Photo-mode posts (`/@user/photo/…`) come back with an `images` array
+ * instead of a playable video; each image becomes one `MediaInfo.items`
+ * entry, so the slideshow is sent as a media group.  The background music
+ * is not included.
  */
 
 import axios from 'axios';
 import { MEDIA_ERROR_CODES } from '../types';
-import type { MediaProvider, MediaInfo, Result } from '../types';
+import type { MediaProvider, MediaInfo, MediaItem, Result, SyncResult } from '../types';
 
 export class TikTokProvider implements MediaProvider {
   readonly platform = 'TikTok' as const;
   readonly statusMessage = '🔎 TikTok (No-Watermark)...';
   readonly regex =
-    /(?:https?:\/\/)?(?:www\.|vm\.|vt\.)?tiktok\.com\/(@[\w.-]+\/video\/[\d]+|[\w-]+)/;
+    /(?:https?:\/\/)?(?:www\.|vm\.|vt\.)?tiktok\.com\/(@[\w.-]+\/(?:video|photo)\/[\d]+|[\w-]+)/;
 
   private static readonly API = 'https://www.tikwm.com/api/';
 
   /**
-   * Sends the full matched URL to the tikwm API and returns video metadata.
+   * Sends the full matched URL to the tikwm API and returns video or
+   * slideshow metadata.
    */
   async fetch(match: RegExpMatchArray): Result<MediaInfo> {
     try {
       const url = `${TikTokProvider.API}?url=${encodeURIComponent(match[0])}`;
       const { data } = await axios.get(url);
 
-      if (data.code !== 0) {
-        return [
-          { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: data.msg || 'TikTok API error' },
-          null,
-        ];
-      }
-
-      const video = data.data;
+      return this.parseResponse(data);
+    } catch (e: any) {
       return [
+        { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: e.message },
         null,
-        {
-          platform: 'TikTok',
-          videoUrl: video.play,
-          author: video.author?.nickname || video.author?.unique_id,
-          caption: video.title,
-        },
       ];
-    } catch (e: any) {
+    }
+  }
+
+  /**
+   * Builds the media info from a tikwm response.
+   */
+  private parseResponse(data: any): SyncResult<MediaInfo> {
+    if (data?.code !== 0) {
       return [
-        { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: e.message },
+        { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: data?.msg || 'TikTok API error' },
         null,
       ];
     }
+
+    const post = data.data;
+    const base = {
+      platform: 'TikTok' as const,
+      author: post.author?.nickname || post.author?.unique_id,
+      caption: post.title,
+    };
+
+    const images: unknown[] = Array.isArray(post.images) ? post.images : [];
+    const items = images
+      .filter((image): image is string => typeof image === 'string' && image.startsWith('http'))
+      .map((image): MediaItem => ({ type: 'photo', url: image }));
+
+    if (items.length > 0) {
+      return [null, { ...base, items }];
+    }
+
+    return [null, { ...base, videoUrl: post.play }];
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,17 @@
 /**
  * @module media/providers/twitter
- * Extracts video from Twitter/X posts using the fxtwitter public API.
+ * Extracts photos, GIFs and videos from Twitter/X posts using the
+ * fxtwitter public API.
+ *
+ * Every attachment becomes one `MediaInfo.items` entry, in tweet order;
+ * GIFs arrive as MP4 and are sent as animations.  A quote tweet's text is
+ * appended to the caption, and when the tweet itself has no media the
+ * quoted tweet's media is used instead.
  */
 
 import axios from 'axios';
 import { MEDIA_ERROR_CODES } from '../types';
-import type { MediaProvider, MediaInfo, Result } from '../types';
+import type { MediaProvider, MediaInfo, MediaItem, Result, SyncResult } from '../types';
 
 export class TwitterProvider implements MediaProvider {
   readonly platform = 'Twitter' as const;
@@ -17,7 +23,7 @@ export class TwitterProvider implements MediaProvider {
 
   /**
    * Queries fxtwitter for tweet data. Uses capture group 2 (tweet ID).
-   * Only returns a result when the tweet contains at least one video.
+   * Only returns a result when the tweet (or the one it quotes) has media.
    */
   async fetch(match: RegExpMatchArray): Result<MediaInfo> {
     const tweetId = match[2];
@@ -33,28 +39,60 @@ export class TwitterProvider implements MediaProvider {
         headers: { 'User-Agent': 'TelegramBot' },
       });
 
-      const video = data.tweet?.media?.videos?.[0];
-      if (!video) {
-        return [
-          { code: MEDIA_ERROR_CODES.NOT_FOUND, category: 'MEDIA', message: 'No video in tweet' },
-          null,
-        ];
-      }
-
+      return this.parseTweet(data);
+    } catch (e: any) {
       return [
+        { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: e.message },
         null,
-        {
-          platform: 'Twitter',
-          videoUrl: video.url,
-          author: data.tweet.author?.name,
-          caption: data.tweet.text,
-        },
       ];
-    } catch (e: any) {
+    }
+  }
+
+  /**
+   * Builds the media info from an fxtwitter `/status` response.
+   */
+  private parseTweet(data: any): SyncResult<MediaInfo> {
+    const tweet = data?.tweet;
+    const quote = tweet?.quote;
+
+    let items = this.toMediaItems(tweet?.media);
+    if (items.length === 0) items = this.toMediaItems(quote?.media);
+
+    if (items.length === 0) {
       return [
-        { code: MEDIA_ERROR_CODES.FETCH_FAILED, category: 'MEDIA', message: e.message },
+        { code: MEDIA_ERROR_CODES.NOT_FOUND, category: 'MEDIA', message: 'No media in tweet' },
         null,
       ];
     }
+
+    const quoteLine = quote?.text
+      ? `\n\n💬 ${quote.author?.name ?? quote.author?.screen_name ?? 'Quote'}: ${quote.text}`
+      : '';
+
+    return [
+      null,
+      {
+        platform: 'Twitter',
+        items,
+        author: tweet.author?.name,
+        caption: `${tweet.text ?? ''}${quoteLine}`.trim(),
+      },
+    ];
+  }
+
+  /**
+   * Converts an fxtwitter `media` object to items.  `all` keeps the tweet
+   * order; older responses only have the `photos` / `videos` lists.
+   */
+  private toMediaItems(media: any): MediaItem[] {
+    const all: any[] = media?.all ?? [...(media?.photos ?? []), ...(media?.videos ?? [])];
+
+    return all
+      .filter((entry) => typeof entry?.url === 'string')
+      .map((entry): MediaItem => {
+        if (entry.type === 'photo') return { type: 'photo', url: entry.url };
+        if (entry.type === 'gif') return { type: 'animation', url: entry.url };
+        return { type: 'video', url: entry.url };
+      });
   }
-}
\ No newline at end of file
+}
@@ -18,11 +18,11 @@
  * skips its HTTP fetch and hands the stream directly to Telegram.
  */
 
-import { Readable, PassThrough } from 'stream';
+import { Readable } from 'stream';
 import ytdl from '@distube/ytdl-core';
-import ffmpeg from 'fluent-ffmpeg';
 import { MEDIA_ERROR_CODES } from '../types';
 import type { MediaProvider, MediaInfo, Result } from '../types';
+import { mergeDashStreams } from '../dash-merge';
 
 /** Maximum allowed video quality height in pixels. */
 const MAX_QUALITY_P = 720;
@@ -149,8 +149,8 @@ export class YouTubeProvider implements MediaProvider {
 
   /**
    * Creates two ytdl read streams (one video-only, one audio-only) and
-   * pipes them through ffmpeg with `-c copy` (no re-encoding).
-   * Returns a PassThrough stream that emits the merged MP4 container.
+   * merges them (see media/dash-merge).
+   * Returns a stream that emits the merged MP4 container.
    *
    * @param videoId  - YouTube video ID (used by ytdl to create streams).
    * @param videoFmt - The selected video-only format descriptor.
@@ -161,8 +161,6 @@ export class YouTubeProvider implements MediaProvider {
     videoFmt: ytdl.videoFormat,
     audioFmt: ytdl.videoFormat,
   ): Readable {
-    const output = new PassThrough();
-
     const videoStream = ytdl(videoId, {
       format: videoFmt,
       requestOptions: {
@@ -185,21 +183,7 @@ export class YouTubeProvider implements MediaProvider {
       }
     });
 
-    // ffmpeg reads both streams, copies packets into a single MP4 container.
-    ffmpeg()
-      .input(videoStream)
-      .input(audioStream)
-      .outputOptions([
-        '-c', 'copy',        // Stream-copy — no CPU-heavy re-encoding.
-        '-f', 'mp4',         // Output container format.
-        '-movflags', 'frag+empty_moov', // Makes the MP4 streamable (no seek needed).
-      ])
-      .pipe(output)
-      .on('error', (err: Error) => {
-        output.destroy(err);
-      });
-
-    return output;
+    return mergeDashStreams(videoStream, audioStream);
   }
 }
 
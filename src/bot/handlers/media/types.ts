@@ -18,15 +18,34 @@ export const MEDIA_ERROR_CODES = {
 } as const;
 
 /** Supported platform identifiers. */
-export type PlatformName = 'Instagram' | 'TikTok' | 'Twitter' | 'Reddit' | 'YouTube';
+export type PlatformName =
+  | 'Instagram' | 'TikTok' | 'Twitter' | 'Reddit' | 'YouTube'
+  | 'Bluesky' | 'Threads' | 'Facebook' | 'Twitch';
+
+/**
+ * One photo or video of a post.  `animation` is a silent looping MP4 (a
+ * GIF); it is sent with `sendAnimation`, or as a video inside a media group.
+ */
+export interface MediaItem {
+  type: 'video' | 'photo' | 'animation';
+  /** Direct URL to the file. */
+  url: string;
+}
 
 /**
  * Extracted media metadata from a social platform.
- * At least one of `videoUrl`, `imageUrl`, or `muxedStream` will be present on success.
+ * At least one of `items`, `videoUrl`, `imageUrl`, or `muxedStream` will be
+ * present on success.
  */
 export interface MediaInfo {
   videoUrl?: string;
   imageUrl?: string;
+  /**
+   * Every photo and video of a multi-media post (carousel, gallery), in
+   * order.  With two or more entries the handler sends a media group and
+   * ignores `videoUrl` / `imageUrl`.
+   */
+  items?: MediaItem[];
   caption?: string;
   author?: string;
   platform: PlatformName;
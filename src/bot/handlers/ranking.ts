@@ -0,0 +1,320 @@
+/**
+ * =============================================================================
+ * Ranking Handler — `/ranking` command for the Duylhou leaderboard
+ *
+ * Usage:
+ *   /ranking            → current month
+ *   /ranking 2025-01    → a specific month (YYYY-MM)
+ *   /ranking all        → all-time totals across every retained month
+ *   /ranking … global   → any of the above summed across every chat
+ *
+ * Rankings are scoped to the chat the command runs in; the `global` flag
+ * is the explicit opt-in to the cross-chat view.
+ *
+ * The reply is a MarkdownV2 podium with display names, counts, tied ranks
+ * and the time of each user's last incident.  Inline buttons let the group
+ * page between months; the callback edits the same message in place.
+ * =============================================================================
+ */
+
+import { Api, Context, InlineKeyboard } from 'grammy';
+import { Database, LeaderboardRanking } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { escapeMarkdownV2 } from './telegram-formatting';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Maximum number of users listed per ranking. */
+const RANKING_LIMIT = 10;
+
+/** Callback-data prefix for the navigation buttons. */
+const CALLBACK_PREFIX = 'ranking:';
+
+/** Keyword selecting the all-time view. */
+const ALL_TIME = 'all';
+
+/** Keyword (and callback suffix) selecting the cross-chat view. */
+const GLOBAL_FLAG = 'global';
+
+/** Medals for the top three ranks; everything below gets a number. */
+const MEDALS: Record<number, string> = { 1: '🥇', 2: '🥈', 3: '🥉' };
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the ranking handler.
+ */
+export interface RankingHandlerConfig {
+  /** The central database instance (leaderboard source). */
+  database: Database;
+}
+
+/** Public surface of the handler. */
+export interface RankingHandler {
+  /** Handles the `/ranking [YYYY-MM|all]` command. */
+  handleCommand: (ctx: Context) => Promise<void>;
+  /** Handles presses on the month-navigation buttons. */
+  handleCallback: (ctx: Context) => Promise<void>;
+  /** Regex that matches this handler's callback data. */
+  callbackPattern: RegExp;
+}
+
+/** Which ranking is shown: a period plus the chat scope. */
+export interface RankingView {
+  /** YYYY-MM month or {@link ALL_TIME}. */
+  period: string;
+  /** `true` = summed across every chat instead of the current one. */
+  global: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+/**
+ * Moves a YYYY-MM month string by `delta` months.
+ *
+ * @param month - Month in YYYY-MM format.
+ * @param delta - Number of months to add (negative to go back).
+ * @returns The shifted month in YYYY-MM format.
+ */
+export function shiftMonth(month: string, delta: number): string {
+  const [year, mon] = month.split('-').map((n) => parseInt(n, 10));
+  const date = new Date(year, mon - 1 + delta, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Parses navigation button data: `ranking:<YYYY-MM|all>[:global]`.
+ *
+ * @param data - Callback data of the pressed button.
+ * @returns The requested view, or `null` for malformed data.
+ */
+export function parseRankingCallback(data: string): RankingView | null {
+  if (!data.startsWith(CALLBACK_PREFIX)) return null;
+
+  const [period, flag] = data.slice(CALLBACK_PREFIX.length).split(':');
+  if (period !== ALL_TIME && !MONTH_PATTERN.test(period)) return null;
+  return { period, global: flag === GLOBAL_FLAG };
+}
+
+/**
+ * Formats a Unix ms timestamp as a short São Paulo date/time.
+ */
+function formatTimestamp(ms: number): string {
+  return new Date(ms).toLocaleString('pt-BR', {
+    timeZone: 'America/Sao_Paulo',
+    day: '2-digit', month: '2-digit',
+    hour: '2-digit', minute: '2-digit',
+  });
+}
+
+/**
+ * Resolves a user's display name via `getChatMember`.
+ * Falls back to a generic label when the user left or the call fails.
+ *
+ * @param api    - Telegram API client.
+ * @param chatId - Chat the user is (or was) a member of.
+ * @param userId - Telegram user ID.
+ */
+export async function resolveDisplayName(api: Api, chatId: number, userId: number): Promise<string> {
+  const member = await api.getChatMember(chatId, userId).catch(() => null);
+  if (!member) return `Usuário ${userId}`;
+
+  const { first_name, last_name, username } = member.user;
+  const fullName = [first_name, last_name].filter(Boolean).join(' ');
+  return fullName || (username ? `@${username}` : `Usuário ${userId}`);
+}
+
+/**
+ * Renders ranked entries as MarkdownV2 podium lines: medal or position,
+ * display name, count and the time of the last incident.
+ * Shared with the end-of-month awards post.
+ *
+ * @param api      - Telegram API client (for name lookups).
+ * @param chatId   - Chat the ranking is rendered in.
+ * @param rankings - Ranked entries to render.
+ * @returns One escaped line (pair) per entry.
+ */
+export async function formatRankingLines(
+  api: Api,
+  chatId: number,
+  rankings: LeaderboardRanking[],
+): Promise<string[]> {
+  const lines: string[] = [];
+  for (const entry of rankings) {
+    const name = await resolveDisplayName(api, chatId, entry.userId);
+    const position = MEDALS[entry.rank] ?? `${entry.rank}\\.`;
+    const plural = entry.count === 1 ? 'Duylhou' : 'Duylhous';
+    lines.push(
+      `${position} *${escapeMarkdownV2(name)}* — ${entry.count} ${plural}\n` +
+      `    _último: ${escapeMarkdownV2(formatTimestamp(entry.lastIncidentAt))}_`,
+    );
+  }
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the ranking handler.
+ *
+ * @param config - See {@link RankingHandlerConfig}.
+ * @returns A handler with command and callback entry points.
+ */
+export function createRankingHandler(config: RankingHandlerConfig): RankingHandler {
+  const { database } = config;
+
+  /**
+   * Builds the MarkdownV2 body for one ranking view.
+   *
+   * @param ctx      - Grammy context (for name lookups).
+   * @param chatId   - Chat the ranking is rendered in.
+   * @param view     - Period and scope being shown.
+   * @param rankings - Ranked entries to render.
+   */
+  async function renderRanking(
+    ctx: Context,
+    chatId: number,
+    view: RankingView,
+    rankings: LeaderboardRanking[],
+  ): Promise<string> {
+    const periodLabel = view.period === ALL_TIME ? 'Geral' : escapeMarkdownV2(view.period);
+    const scopeLabel = view.global ? ' \\(todos os grupos\\)' : '';
+    const title = `🏆 *Ranking Duylhou — ${periodLabel}*${scopeLabel}`;
+
+    if (rankings.length === 0) {
+      return `${title}\n\n📭 Nenhum Duylhou registrado nesse período\\.`;
+    }
+
+    const lines = await formatRankingLines(ctx.api, chatId, rankings);
+    return [title, '', ...lines].join('\n');
+  }
+
+  /**
+   * Encodes a view as callback data (`ranking:<period>[:global]`).
+   */
+  function toCallbackData(view: RankingView): string {
+    return `${CALLBACK_PREFIX}${view.period}${view.global ? `:${GLOBAL_FLAG}` : ''}`;
+  }
+
+  /**
+   * Builds the navigation keyboard for a view.
+   * The "next" button is hidden for the current month so users cannot
+   * page into the future.  Navigation keeps the view's chat scope.
+   *
+   * @param view - Period and scope being shown.
+   */
+  function buildKeyboard(view: RankingView): InlineKeyboard {
+    const currentMonth = database.getCurrentMonth();
+    const keyboard = new InlineKeyboard();
+    const { global } = view;
+
+    if (view.period === ALL_TIME) {
+      return keyboard.text('📅 Mês atual', toCallbackData({ period: currentMonth, global }));
+    }
+
+    const previous = shiftMonth(view.period, -1);
+    keyboard.text(`◀️ ${previous}`, toCallbackData({ period: previous, global }));
+
+    if (view.period < currentMonth) {
+      const next = shiftMonth(view.period, 1);
+      keyboard.text(`${next} ▶️`, toCallbackData({ period: next, global }));
+    }
+
+    return keyboard.row().text('🏆 Geral', toCallbackData({ period: ALL_TIME, global }));
+  }
+
+  /**
+   * Loads the rankings for a view from the database.
+   *
+   * @param view   - Period and scope being shown.
+   * @param chatId - Current chat (ignored for the global view).
+   */
+  function loadRankings(view: RankingView, chatId: number): LeaderboardRanking[] {
+    const scopeChatId = view.global ? undefined : chatId;
+    return view.period === ALL_TIME
+      ? database.getDuylhouAllTimeLeaderboard(RANKING_LIMIT, scopeChatId)
+      : database.getDuylhouLeaderboard(view.period, RANKING_LIMIT, scopeChatId);
+  }
+
+  /**
+   * Handles `/ranking [YYYY-MM|all] [global]`.
+   *
+   * @param ctx - Grammy context for the command message.
+   */
+  async function handleCommand(ctx: Context): Promise<void> {
+    if (!ctx.message || !ctx.chat) return;
+
+    const messageId = ctx.message.message_id;
+    const args = (ctx.message.text || '')
+      .replace(/^\/ranking(@\w+)?/i, '')
+      .trim()
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(Boolean);
+
+    const global = args.includes(GLOBAL_FLAG);
+    const periodArgs = args.filter((a) => a !== GLOBAL_FLAG);
+    const period = periodArgs[0] || database.getCurrentMonth();
+
+    if (periodArgs.length > 1 || (period !== ALL_TIME && !MONTH_PATTERN.test(period))) {
+      await ctx.reply(
+        '📅 Use: /ranking, /ranking AAAA\\-MM ou /ranking all \\(acrescente "global" para somar todos os grupos\\)',
+        { parse_mode: 'MarkdownV2', reply_parameters: { message_id: messageId } },
+      ).catch(() => {});
+      return;
+    }
+
+    const view: RankingView = { period, global };
+    auditLog.trace(`/ranking ${period}${global ? ' global' : ''} invoked in chat ${ctx.chat.id}`);
+
+    const text = await renderRanking(ctx, ctx.chat.id, view, loadRankings(view, ctx.chat.id));
+    await ctx.reply(text, {
+      parse_mode: 'MarkdownV2',
+      reply_parameters: { message_id: messageId },
+      reply_markup: buildKeyboard(view),
+    }).catch((e: Error) => {
+      auditLog.record('RANKING_SEND_FAIL', { error: e.message });
+    });
+  }
+
+  /**
+   * Handles a navigation button press by editing the ranking in place.
+   *
+   * @param ctx - Grammy context for the callback query.
+   */
+  async function handleCallback(ctx: Context): Promise<void> {
+    const data = ctx.callbackQuery?.data;
+    const chatId = ctx.chat?.id;
+    const view = data ? parseRankingCallback(data) : null;
+    if (!view || !chatId) {
+      // Still answer, or the client keeps showing the button's spinner.
+      await ctx.answerCallbackQuery().catch(() => {});
+      return;
+    }
+
+    const text = await renderRanking(ctx, chatId, view, loadRankings(view, chatId));
+    await ctx.editMessageText(text, {
+      parse_mode: 'MarkdownV2',
+      reply_markup: buildKeyboard(view),
+    }).catch(() => {
+      // "message is not modified" when the same button is pressed twice.
+    });
+    await ctx.answerCallbackQuery().catch(() => {});
+  }
+
+  return {
+    handleCommand,
+    handleCallback,
+    callbackPattern: new RegExp(`^${CALLBACK_PREFIX}`),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * =============================================================================
+ * Retention Handler — admin command showing the data retention policies
+ *
+ * /retencao – one line per collection: maximum age, maximum records per
+ *             user/chat and whether evicted records are deleted or archived,
+ *             followed by what the last cleanup run removed.
+ *
+ * Policies are set via `DB_RETENTION` (see src/database/retention.ts); this
+ * command only reads them.
+ * =============================================================================
+ */
+
+import { Context } from 'grammy';
+import { Database, RetentionOutcome, RetentionPolicy } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { escapeMarkdownV2 } from './telegram-formatting';
+import { formatDuration } from './duylhou';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the retention handler.
+ */
+export interface RetentionHandlerConfig {
+  /** The central database instance. */
+  database: Database;
+  /** Telegram user ID allowed to run the command. */
+  adminId: number;
+}
+
+/** Public surface of the handler. */
+export interface RetentionHandler {
+  handleCommand: (ctx: Context) => Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+function formatPolicy(policy: RetentionPolicy): string {
+  const age = policy.maxAgeMs === null ? 'sem limite' : formatDuration(policy.maxAgeMs);
+  const count = policy.maxCountPerKey === null ? 'sem limite' : String(policy.maxCountPerKey);
+  const action = policy.action === 'archive' ? 'arquivar' : 'apagar';
+  return `• \`${policy.collection}\`\n  ${escapeMarkdownV2(`idade: ${age} · por chave: ${count} · ${action}`)}`;
+}
+
+function formatOutcome(outcome: RetentionOutcome): string {
+  if (outcome.error) {
+    return `• \`${outcome.collection}\`: ❌ ${escapeMarkdownV2(outcome.error)}`;
+  }
+
+  const reasons = [
+    outcome.expired > 0 ? `${outcome.expired} expirados` : '',
+    outcome.aged > 0 ? `${outcome.aged} por idade` : '',
+    outcome.capped > 0 ? `${outcome.capped} por limite` : '',
+  ].filter(Boolean).join(', ');
+  const archived = outcome.archived > 0 ? ', arquivados' : '';
+  return `• \`${outcome.collection}\`: ${escapeMarkdownV2(`${outcome.removed} (${reasons}${archived})`)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the retention handler.
+ *
+ * @param config - See {@link RetentionHandlerConfig}.
+ */
+export function createRetentionHandler(config: RetentionHandlerConfig): RetentionHandler {
+  const { database, adminId } = config;
+
+  async function handleCommand(ctx: Context): Promise<void> {
+    if (ctx.from?.id !== adminId) {
+      await ctx.reply('🚫 Somente o administrador pode usar este comando\\.', { parse_mode: 'MarkdownV2' })
+        .catch(() => {});
+      return;
+    }
+
+    auditLog.trace(`/retencao invoked by user ${ctx.from.id}`);
+
+    const lines = ['🗂️ *Política de retenção*', '', ...database.getRetentionPolicies().map(formatPolicy), ''];
+
+    const { lastCleanup } = database.getStats();
+    const result = database.getLastCleanupResult();
+    if (lastCleanup === null || !result) {
+      lines.push('🧹 Nenhuma limpeza executada ainda\\.');
+    } else {
+      const elapsed = formatDuration(database.now() - lastCleanup);
+      lines.push(`🧹 *Última limpeza* ${escapeMarkdownV2(`(há ${elapsed})`)}`);
+
+      const changed = result.policies.filter((outcome) => outcome.removed > 0 || outcome.error);
+      if (changed.length === 0) lines.push('Nada removido\\.');
+      lines.push(...changed.map(formatOutcome));
+    }
+
+    await ctx.reply(lines.join('\n'), { parse_mode: 'MarkdownV2' }).catch(() => {});
+  }
+
+  return { handleCommand };
+}
@@ -0,0 +1,130 @@
+/**
+ * =============================================================================
+ * Search Handler — `/buscar` over the stored chat messages
+ *
+ * Usage:
+ *   /buscar churrasco sabado   → messages containing both words
+ *   /buscar 7d churrasco       → only from the last 7 days (`h` or `d`)
+ *
+ * Matching ignores case and accents ("sabado" finds "Sábado") and works on
+ * whole words; see src/database/text-search.ts.  Messages stay searchable
+ * for SEARCH_HISTORY_DAYS (7 by default), up to SEARCH_HISTORY_MAX_MESSAGES
+ * per chat — much longer than the /summary buffer, which reads only the
+ * newest of them.
+ *
+ * Each result shows the author, the time and, in supergroups and public
+ * groups, a link that jumps to the message.
+ * =============================================================================
+ */
+
+import { Context } from 'grammy';
+import { Database, ChatMessageRecord, parseDuration } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { buildMessageLink, escapeMarkdownV2 } from './telegram-formatting';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Maximum number of messages listed per search. */
+const SEARCH_LIMIT = 10;
+
+/** Longest excerpt shown per message. */
+const EXCERPT_LENGTH = 120;
+
+/** A leading `7d` / `12h` argument restricts the period. */
+const PERIOD_PATTERN = /^\d+[hd]$/i;
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the search handler.
+ */
+export interface SearchHandlerConfig {
+  /** The central database instance (message history source). */
+  database: Database;
+}
+
+/** Public surface of the handler. */
+export interface SearchHandler {
+  /** Handles the `/buscar [período] <termos>` command. */
+  handleCommand: (ctx: Context) => Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+function formatResult(message: ChatMessageRecord, chatUsername?: string): string {
+  const when = new Date(message.createdAt).toLocaleString('pt-BR', {
+    timeZone: 'America/Sao_Paulo',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const text = message.text.replace(/\s+/g, ' ').trim();
+  const excerpt = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+  const link = message.messageId !== undefined
+    ? buildMessageLink(message.chatId, message.messageId, chatUsername)
+    : null;
+
+  const header = `• *${escapeMarkdownV2(message.username)}* — ${escapeMarkdownV2(when)}`;
+  return `${header}${link ? ` [↗](${link})` : ''}\n  ${escapeMarkdownV2(excerpt)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the search handler.
+ *
+ * @param config - See {@link SearchHandlerConfig}.
+ */
+export function createSearchHandler(config: SearchHandlerConfig): SearchHandler {
+  const { database } = config;
+
+  async function handleCommand(ctx: Context): Promise<void> {
+    if (!ctx.chat) return;
+
+    const args = (typeof ctx.match === 'string' ? ctx.match : '').trim().split(/\s+/).filter(Boolean);
+    const period = args[0] && PERIOD_PATTERN.test(args[0]) ? parseDuration(args.shift()!) : null;
+    const query = args.join(' ');
+
+    if (!query) {
+      await ctx.reply('🔎 Use: /buscar \\[7d\\] \\<palavras\\>', { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    auditLog.trace(`/buscar in chat ${ctx.chat.id} by user ${ctx.from?.id}: "${query}"`);
+
+    const since = period !== null ? database.now() - period : undefined;
+    const [err, matches] = database.searchChatMessages(ctx.chat.id, query, { since, limit: SEARCH_LIMIT });
+    if (err || !matches) {
+      auditLog.record(err?.code || 'SEARCH_FAIL', { chatId: ctx.chat.id, error: err?.message });
+      await ctx.reply('❌ Erro ao buscar mensagens\\.', { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    if (matches.length === 0) {
+      await ctx.reply(`🔎 Nenhuma mensagem com "${escapeMarkdownV2(query)}"\\.`, { parse_mode: 'MarkdownV2' })
+        .catch(() => {});
+      return;
+    }
+
+    const chatUsername = 'username' in ctx.chat ? ctx.chat.username : undefined;
+    const noun = matches.length === 1 ? 'mensagem' : 'mensagens';
+    const title = `🔎 *${matches.length} ${noun} com "${escapeMarkdownV2(query)}"*`;
+    const body = matches.map((message) => formatResult(message, chatUsername)).join('\n\n');
+
+    await ctx.reply(`${title}\n\n${body}`, {
+      parse_mode: 'MarkdownV2',
+      link_preview_options: { is_disabled: true },
+    }).catch((e) => auditLog.trace(`/buscar reply failed: ${String(e)}`));
+  }
+
+  return { handleCommand };
+}
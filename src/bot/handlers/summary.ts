@@ -5,8 +5,15 @@
  * (max 24 h) and uses Gemini to summarise the conversation.
  *
  * **Persistence** — every incoming group message is written to the
- * central database via {@link Database.addChatMessage}, which enforces
- * the `conversationMaxMessages` cap and survives bot restarts.
+ * central database via {@link Database.addChatMessage} and survives bot
+ * restarts.  {@link Database.getChatMessages} returns only the newest
+ * `conversationMaxMessages` of them; the rest are kept for /buscar.  Each
+ * record keeps the message ID, what it replies to, attached media and the
+ * forward origin; edits replace the stored text.  Telegram does not tell
+ * bots about deleted messages, so those stay until the buffer drops them.
+ *
+ * **Threads** — the transcript nests replies under the message they answer
+ * (see {@link buildTranscript}), so the model sees who responded to whom.
  *
  * **Compaction** is wired in between prompt-building and the Gemini call so
  * that very large transcripts are compressed before they hit the API.
@@ -17,17 +24,35 @@
  */
 
 import { Context } from 'grammy';
+import type { Message, MessageOrigin } from 'grammy/types';
 import { GeminiService, ChatMessage, CompletionOptions } from '../../assistant/types';
 import { BaseGeminiCommand } from './base-gemini-command';
 import { auditLog } from '../../assistant/audit-log';
 import { createCompactionService } from '../../assistant/services/compaction.service';
 import { Database } from '../../database';
-import { ChatMessageRecord } from '../../database/types';
+import { ChatMediaType, ChatMessageRecord } from '../../database/types';
 
 // --- Constants ---
 
 const MAX_HOURS = 24;
 
+/** Replies deeper than this are shown at this depth. */
+const MAX_THREAD_DEPTH = 4;
+
+/** Transcript labels for attached media. */
+const MEDIA_LABELS: Record<ChatMediaType, string> = {
+  photo: 'foto',
+  video: 'vídeo',
+  animation: 'GIF',
+  video_note: 'vídeo redondo',
+  audio: 'áudio',
+  voice: 'mensagem de voz',
+  document: 'arquivo',
+  sticker: 'figurinha',
+  poll: 'enquete',
+  location: 'localização',
+};
+
 // --- Internal types ---
 
 /**
@@ -54,6 +79,8 @@ export interface SummaryHandlerConfig {
 export interface SummaryHandler {
   handleCommand: (ctx: Context) => Promise<void>;
   collectMessage: (ctx: Context) => void;
+  /** Applies an `edited_message` update to the buffered copy. */
+  collectEdit: (ctx: Context) => void;
 }
 
 // --- Utilities ---
@@ -89,6 +116,99 @@ function parseTimeRange(input: string): number | null {
   return totalHours;
 }
 
+/**
+ * Detects the media attached to a message.  Animations also carry a
+ * `document`, so they are checked first.
+ *
+ * @param message - Incoming Telegram message.
+ * @returns The media kind, or `undefined` for plain text.
+ */
+function detectMediaType(message: Message): ChatMediaType | undefined {
+  if (message.animation) return 'animation';
+  if (message.photo) return 'photo';
+  if (message.video) return 'video';
+  if (message.video_note) return 'video_note';
+  if (message.audio) return 'audio';
+  if (message.voice) return 'voice';
+  if (message.document) return 'document';
+  if (message.sticker) return 'sticker';
+  if (message.poll) return 'poll';
+  if (message.location) return 'location';
+  return undefined;
+}
+
+/**
+ * Display name of a forwarded message's original author.
+ *
+ * @param origin - `forward_origin` of the message.
+ */
+function describeForwardOrigin(origin: MessageOrigin): string {
+  switch (origin.type) {
+    case 'user':
+      return origin.sender_user.first_name || origin.sender_user.username || 'Anônimo';
+    case 'hidden_user':
+      return origin.sender_user_name;
+    case 'chat':
+      return origin.sender_chat.title ?? 'grupo';
+    case 'channel':
+      return origin.chat.title ?? 'canal';
+  }
+}
+
+/**
+ * Renders buffered messages as a transcript in which each reply sits,
+ * indented, under the message it answers.  Messages are numbered in
+ * chronological order (`#n`) so the order survives the regrouping; a reply
+ * whose parent is outside the window is marked as such.
+ *
+ * @param messages - Buffered messages, oldest first.
+ * @returns One line per message.
+ */
+export function buildTranscript(messages: ChatMessageRecord[]): string {
+  const byMessageId = new Map<number, ChatMessageRecord>();
+  for (const m of messages) if (m.messageId !== undefined) byMessageId.set(m.messageId, m);
+
+  const parentOf = (m: ChatMessageRecord): ChatMessageRecord | undefined =>
+    m.replyToMessageId !== undefined && m.replyToMessageId !== m.messageId
+      ? byMessageId.get(m.replyToMessageId)
+      : undefined;
+
+  const replies = new Map<ChatMessageRecord, ChatMessageRecord[]>();
+  for (const m of messages) {
+    const parent = parentOf(m);
+    if (parent) replies.set(parent, [...(replies.get(parent) || []), m]);
+  }
+
+  const number = new Map(messages.map((m, i) => [m, i + 1]));
+  const lines: string[] = [];
+  const visited = new Set<ChatMessageRecord>();
+
+  const render = (m: ChatMessageRecord, depth: number): void => {
+    if (visited.has(m)) return;
+    visited.add(m);
+
+    const notes = [
+      m.forwardOrigin ? `encaminhada de ${m.forwardOrigin}` : '',
+      m.replyToMessageId !== undefined && !parentOf(m) ? 'respondendo a uma mensagem anterior' : '',
+      m.editedAt ? 'editada' : '',
+    ].filter(Boolean);
+    const media = m.mediaType ? `[${MEDIA_LABELS[m.mediaType]}] ` : '';
+
+    lines.push(
+      `${'  '.repeat(Math.min(depth, MAX_THREAD_DEPTH))}${depth > 0 ? '↳ ' : ''}` +
+        `#${number.get(m)} [${new Date(m.createdAt).toLocaleTimeString('pt-BR')}] ` +
+        `${m.username}${notes.length ? ` (${notes.join(', ')})` : ''}: ${media}${m.text}`.trimEnd(),
+    );
+    for (const reply of replies.get(m) || []) render(reply, depth + 1);
+  };
+
+  for (const m of messages) if (!parentOf(m)) render(m, 0);
+  // Reply cycles cannot come from Telegram, but never drop a message.
+  for (const m of messages) render(m, 0);
+
+  return lines.join('\n');
+}
+
 // --- System prompt ---
 
 const SUMMARY_SYSTEM_PROMPT = `Você é um assistente de sumarização de conversas de grupo no Telegram.
@@ -108,7 +228,12 @@ Você DEVE:
 Formato do resumo:
 - Liste os principais tópicos discutidos
 - Para cada tópico, mencione brevemente o que foi dito e por quem
-- Se houve decisões ou conclusões, destaque-as`;
+- Se houve decisões ou conclusões, destaque-as
+
+Sobre a transcrição:
+- Cada mensagem é numerada (#n) na ordem em que foi enviada
+- Respostas aparecem recuadas, com ↳, logo abaixo da mensagem que respondem
+- [foto], [vídeo] etc. indicam mídia; o texto seguinte é a legenda`;
 
 // --- Command implementation ---
 
@@ -218,13 +343,7 @@ class SummaryCommand extends BaseGeminiCommand<SummaryParsed> {
    * @returns The (possibly compacted) ChatMessage array.
    */
   protected async buildPrompt(parsed: SummaryParsed): Promise<ChatMessage[]> {
-    const transcript = parsed.messages
-      .map(
-        (m) =>
-          `[${new Date(m.createdAt).toLocaleTimeString('pt-BR')}] ` +
-          `${m.username}: ${m.text}`,
-      )
-      .join('\n');
+    const transcript = buildTranscript(parsed.messages);
 
     const raw: ChatMessage[] = [
       { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
@@ -305,25 +424,57 @@ class SummaryCommand extends BaseGeminiCommand<SummaryParsed> {
    * Buffers an incoming message into the persistent database so the
    * `/summary` command can query it even after a bot restart.
    * Skips bot commands and empty texts.
-   * The database enforces the per-chat cap (`conversationMaxMessages`).
+   * The database applies the per-chat caps (see {@link Database.getChatMessages}).
    *
    * @param ctx - Grammy context for the incoming message.
    */
   collectMessage(ctx: Context): void {
     if (!ctx.message || !ctx.chat) return;
 
-    const text = ctx.message.text || ctx.message.caption || '';
-    if (!text || text.startsWith('/')) return;
+    const message   = ctx.message;
+    const text      = message.text || message.caption || '';
+    const mediaType = detectMediaType(message);
+    if ((!text && !mediaType) || text.startsWith('/')) return;
+
+    const chatId    = ctx.chat.id;
+    const userId    = ctx.from?.id ?? 0;
+    const username  = ctx.from?.first_name || ctx.from?.username || 'Anônimo';
 
-    const chatId   = ctx.chat.id;
-    const userId   = ctx.from?.id ?? 0;
-    const username = ctx.from?.first_name || ctx.from?.username || 'Anônimo';
+    // In forum topics every message "replies" to the topic's first message.
+    const reply = message.reply_to_message;
+    const replyToMessageId =
+      reply && !(message.is_topic_message && reply.message_id === message.message_thread_id)
+        ? reply.message_id
+        : undefined;
 
-    const [err] = this.db.addChatMessage({ chatId, userId, username, text });
+    const [err] = this.db.addChatMessage({
+      chatId,
+      userId,
+      username,
+      text,
+      messageId: message.message_id,
+      replyToMessageId,
+      mediaType,
+      forwardOrigin: message.forward_origin ? describeForwardOrigin(message.forward_origin) : undefined,
+    });
     if (err) {
       auditLog.record(err.code, { chatId, error: err.message });
     }
   }
+
+  /**
+   * Replaces the buffered text of an edited message.  Edits of messages
+   * that were never buffered (commands, or older than the buffer) are
+   * ignored.
+   *
+   * @param ctx - Grammy context for the `edited_message` update.
+   */
+  collectEdit(ctx: Context): void {
+    if (!ctx.editedMessage || !ctx.chat) return;
+
+    const text = ctx.editedMessage.text || ctx.editedMessage.caption || '';
+    this.db.editChatMessage(ctx.chat.id, ctx.editedMessage.message_id, text);
+  }
 }
 
 // --- Factory ---
@@ -332,7 +483,7 @@ class SummaryCommand extends BaseGeminiCommand<SummaryParsed> {
  * Creates a summary handler backed by the persistent database.
  *
  * @param config - Must include `geminiService` and `database`.
- * @returns Handler with `handleCommand` and `collectMessage`.
+ * @returns Handler with `handleCommand`, `collectMessage` and `collectEdit`.
  */
 export function createSummaryHandler(
   config: SummaryHandlerConfig,
@@ -342,5 +493,6 @@ export function createSummaryHandler(
   return {
     handleCommand: (ctx) => command.handle(ctx),
     collectMessage: (ctx) => command.collectMessage(ctx),
+    collectEdit: (ctx) => command.collectEdit(ctx),
   };
 }
@@ -3,7 +3,8 @@
  *
  * Shared text-processing helpers used by multiple command handlers.
  * Kept in one place so that identical logic (URL extraction,
- * MarkdownV2 escaping) is never copy-pasted into a second file.
+ * MarkdownV2 escaping, message links) is never copy-pasted into a second
+ * file.
  */
 
 // ---------------------------------------------------------------------------
@@ -38,3 +39,34 @@ export const extractUrl = (text: string): string | null => {
  */
 export const escapeMarkdownV2 = (text: string): string =>
   text.replace(/([_*\[\]()~`>#+=|{}.!\\-])/g, '\\$1');
+
+
+// ---------------------------------------------------------------------------
+// Message links
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds a `t.me` deep link to a message.
+ *
+ * Public chats use `t.me/<username>/<id>`; supergroups and channels (IDs
+ * of the form `-100…`) use the private `t.me/c/<internal id>/<id>` form,
+ * which opens for any member.  Basic groups and private chats have no
+ * linkable form.
+ *
+ * @param chatId    - Telegram chat ID.
+ * @param messageId - Message ID inside that chat.
+ * @param username  - The chat's public username, when it has one.
+ * @returns The link, or `null` when the chat type cannot be linked.
+ */
+export const buildMessageLink = (
+  chatId: number,
+  messageId: number,
+  username?: string,
+): string | null => {
+  if (username) return `https://t.me/${username}/${messageId}`;
+
+  const raw = String(chatId);
+  if (raw.startsWith('-100')) return `https://t.me/c/${raw.slice(4)}/${messageId}`;
+
+  return null;
+};
@@ -0,0 +1,133 @@
+/**
+ * =============================================================================
+ * URL Rules Handler — admin command to test URL normalisation
+ *
+ * /testurl <url>   – shows which rule matches the URL and its normalised
+ *                    form (after short-link expansion when a resolver is
+ *                    configured), exactly as the Duylhou check would see it.
+ * /testurl reload  – reloads the rules file now instead of waiting for the
+ *                    file watcher.
+ * /testurl         – shows where the active rules came from.
+ * =============================================================================
+ */
+
+import { Context } from 'grammy';
+import {
+  UrlRulesLoader,
+  explainNormalization,
+  extractUrls,
+  getActiveUrlRules,
+  isShortLink,
+} from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { escapeMarkdownV2 } from './telegram-formatting';
+import type { LinkResolver } from './link-resolver';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the URL rules handler.
+ */
+export interface UrlRulesHandlerConfig {
+  /** Loader of the rules file (for status and manual reload). */
+  loader: UrlRulesLoader;
+  /** Telegram user ID allowed to run the command. */
+  adminId: number;
+  /** Expands short links in the test, like the Duylhou handler does. */
+  linkResolver?: LinkResolver;
+}
+
+/** Public surface of the handler. */
+export interface UrlRulesHandler {
+  handleCommand: (ctx: Context) => Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the URL rules handler.
+ *
+ * @param config - See {@link UrlRulesHandlerConfig}.
+ */
+export function createUrlRulesHandler(config: UrlRulesHandlerConfig): UrlRulesHandler {
+  const { loader, adminId, linkResolver } = config;
+
+  /**
+   * One-line MarkdownV2 description of the active rule set.
+   */
+  function describeRules(): string {
+    const rules = getActiveUrlRules();
+    const source = rules.source === 'default'
+      ? 'padrão \\(embutidas\\)'
+      : `\`${escapeMarkdownV2(rules.source)}\``;
+    const loadedAt = new Date(rules.loadedAt).toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+
+    const lines = [
+      `📜 Regras: ${source}, carregadas em ${escapeMarkdownV2(loadedAt)}`,
+      `${rules.contentPatterns.length} padrões · ${rules.trackingParams.size} parâmetros de rastreio · ` +
+      `${rules.shortLinkPatterns.length} links curtos`,
+    ];
+
+    const lastError = loader.getLastError();
+    if (lastError) {
+      lines.push(`⚠️ Último arquivo rejeitado: ${escapeMarkdownV2(lastError.message)}`);
+    }
+    return lines.join('\n');
+  }
+
+  async function handleCommand(ctx: Context): Promise<void> {
+    if (ctx.from?.id !== adminId) {
+      await ctx.reply('🚫 Somente o administrador pode usar este comando\\.', { parse_mode: 'MarkdownV2' })
+        .catch(() => {});
+      return;
+    }
+
+    const arg = (typeof ctx.match === 'string' ? ctx.match : '').trim();
+
+    if (arg.toLowerCase() === 'reload') {
+      const err = loader.load();
+      const header = err
+        ? `❌ Arquivo rejeitado, regras anteriores mantidas\\.`
+        : '✅ Regras recarregadas\\.';
+      await ctx.reply(`${header}\n\n${describeRules()}`, { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    const [url] = extractUrls(arg);
+    if (!url) {
+      await ctx.reply(
+        `🔎 Use: /testurl \\<url\\> ou /testurl reload\n\n${describeRules()}`,
+        { parse_mode: 'MarkdownV2' },
+      ).catch(() => {});
+      return;
+    }
+
+    auditLog.trace(`/testurl invoked by user ${ctx.from?.id}`);
+
+    const lines = ['🔎 *Teste de URL*', '', `Original: \`${escapeMarkdownV2(url)}\``];
+
+    let target = url;
+    if (isShortLink(url)) {
+      target = linkResolver ? await linkResolver.resolve(url) : url;
+      lines.push(target === url
+        ? 'Link curto: sim \\(não expandido\\)'
+        : `Link curto → \`${escapeMarkdownV2(target)}\``);
+    }
+
+    const { normalized, rule } = explainNormalization(target);
+    lines.push(`Regra: ${rule ? `\`${escapeMarkdownV2(rule)}\`` : 'genérica \\(host \\+ caminho \\+ query limpa\\)'}`);
+    lines.push(`Normalizado: \`${escapeMarkdownV2(normalized)}\``);
+    lines.push('', describeRules());
+
+    await ctx.reply(lines.join('\n'), {
+      parse_mode: 'MarkdownV2',
+      link_preview_options: { is_disabled: true },
+    }).catch(() => {});
+  }
+
+  return { handleCommand };
+}
@@ -0,0 +1,183 @@
+/**
+ * =============================================================================
+ * User Data Handler — data access and erasure requests (LGPD)
+ *
+ * /meusdados        – sends the user a JSON file with everything the bot
+ *                     stores about them.  Always delivered in private: from
+ *                     a group the file goes to the user's DM (they must have
+ *                     started the bot once).
+ * /apagarmeusdados  – asks for confirmation, then erases the user's records
+ *                     (see {@link Database.eraseUserData}) and reports what
+ *                     was deleted or anonymised per collection.
+ *
+ * Any user may run both commands; they only ever act on the caller's own ID.
+ * =============================================================================
+ */
+
+import { Context, InlineKeyboard, InputFile } from 'grammy';
+import { Database, UserDataCollection, UserErasureReport } from '../../database';
+import { auditLog } from '../../assistant/audit-log';
+import { escapeMarkdownV2 } from './telegram-formatting';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Callback-data prefix for the confirmation buttons. */
+const CALLBACK_PREFIX = 'meusdados:';
+
+/** A confirmation button stops working after this long. */
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+/** Portuguese labels, in report order. */
+const COLLECTION_LABELS: Record<UserDataCollection, string> = {
+  conversations: 'Conversas',
+  chatMessages: 'Mensagens guardadas para /summary',
+  userMemories: 'Memórias',
+  rateLimits: 'Limites de uso',
+  links: 'Links enviados',
+  mediaFingerprints: 'Fotos e vídeos enviados',
+  duylhouIncidents: 'Duylhous',
+  duylhouLeaderboard: 'Ranking',
+  duylhouAppeals: 'Contestações',
+  duylhouAwards: 'Prêmios',
+};
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the user data handler.
+ */
+export interface UserDataHandlerConfig {
+  /** The central database instance. */
+  database: Database;
+}
+
+/** Public surface of the handler. */
+export interface UserDataHandler {
+  /** Handles `/meusdados`. */
+  handleExportCommand: (ctx: Context) => Promise<void>;
+  /** Handles `/apagarmeusdados`. */
+  handleEraseCommand: (ctx: Context) => Promise<void>;
+  /** Handles the confirm / cancel buttons. */
+  handleCallback: (ctx: Context) => Promise<void>;
+  /** Regex that matches this handler's callback data. */
+  callbackPattern: RegExp;
+}
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+function formatReport(report: UserErasureReport): string {
+  const lines = (Object.keys(COLLECTION_LABELS) as UserDataCollection[])
+    .filter((collection) => report[collection].deleted > 0 || report[collection].anonymised > 0)
+    .map((collection) => {
+      const { deleted, anonymised } = report[collection];
+      const parts = [
+        deleted > 0 ? `${deleted} apagados` : '',
+        anonymised > 0 ? `${anonymised} anonimizados` : '',
+      ].filter(Boolean).join(', ');
+      return `• ${escapeMarkdownV2(`${COLLECTION_LABELS[collection]}: ${parts}`)}`;
+    });
+
+  return lines.length > 0
+    ? `✅ *Seus dados foram apagados*\n\n${lines.join('\n')}`
+    : '✅ Não havia dados seus guardados\\.';
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the user data handler.
+ *
+ * @param config - See {@link UserDataHandlerConfig}.
+ */
+export function createUserDataHandler(config: UserDataHandlerConfig): UserDataHandler {
+  const { database } = config;
+
+  async function handleExportCommand(ctx: Context): Promise<void> {
+    if (!ctx.from || !ctx.chat) return;
+    const userId = ctx.from.id;
+    auditLog.trace(`/meusdados invoked by user ${userId}`);
+
+    const data = database.getUserData(userId);
+    const file = new InputFile(Buffer.from(JSON.stringify(data, null, 2), 'utf-8'), `meus-dados-${userId}.json`);
+    const caption = '📄 Tudo o que o bot guarda sobre você. Para apagar: /apagarmeusdados';
+
+    const sent = await ctx.api.sendDocument(userId, file, { caption })
+      .then(() => true)
+      .catch(() => false);
+
+    if (ctx.chat.type === 'private') {
+      if (!sent) await ctx.reply('❌ Não consegui enviar o arquivo\\. Tente novamente\\.', { parse_mode: 'MarkdownV2' }).catch(() => {});
+      return;
+    }
+
+    const text = sent
+      ? '📬 Enviei seus dados no privado\\.'
+      : '📭 Não consegui te enviar no privado\\. Abra uma conversa comigo, envie /start e repita o comando\\.';
+    await ctx.reply(text, { parse_mode: 'MarkdownV2' }).catch(() => {});
+  }
+
+  async function handleEraseCommand(ctx: Context): Promise<void> {
+    if (!ctx.from) return;
+    const userId = ctx.from.id;
+    auditLog.trace(`/apagarmeusdados invoked by user ${userId}`);
+
+    const suffix = `${userId}:${database.now()}`;
+    const keyboard = new InlineKeyboard()
+      .text('🗑️ Sim, apagar tudo', `${CALLBACK_PREFIX}apagar:${suffix}`)
+      .text('Cancelar', `${CALLBACK_PREFIX}cancelar:${suffix}`);
+
+    await ctx.reply(
+      '⚠️ *Apagar seus dados?*\n\n' +
+      'Suas mensagens guardadas, memórias, links e posições no ranking serão apagados\\. ' +
+      'Duylhous e contestações em que você aparece ficam anônimos\\. Não dá para desfazer\\.',
+      { parse_mode: 'MarkdownV2', reply_markup: keyboard },
+    ).catch(() => {});
+  }
+
+  async function handleCallback(ctx: Context): Promise<void> {
+    const data = ctx.callbackQuery?.data;
+    if (!data || !ctx.from) return;
+
+    const [action, owner, issuedAt] = data.slice(CALLBACK_PREFIX.length).split(':');
+    if (Number(owner) !== ctx.from.id) {
+      await ctx.answerCallbackQuery({ text: 'Este botão não é para você.' }).catch(() => {});
+      return;
+    }
+
+    if (action === 'cancelar') {
+      await ctx.editMessageText('Nada foi apagado\\.', { parse_mode: 'MarkdownV2' }).catch(() => {});
+      await ctx.answerCallbackQuery().catch(() => {});
+      return;
+    }
+
+    if (action !== 'apagar' || database.now() - Number(issuedAt) > CONFIRMATION_TTL_MS) {
+      await ctx.editMessageText('⌛ Confirmação expirada\\. Envie /apagarmeusdados de novo\\.', { parse_mode: 'MarkdownV2' })
+        .catch(() => {});
+      await ctx.answerCallbackQuery().catch(() => {});
+      return;
+    }
+
+    const report = database.eraseUserData(ctx.from.id);
+    // Write now so the journal and data file stop holding the erased records.
+    const flushError = await database.flush();
+    if (flushError) auditLog.record(flushError.code, { message: flushError.message, userId: ctx.from.id });
+
+    await ctx.editMessageText(formatReport(report), { parse_mode: 'MarkdownV2' }).catch(() => {});
+    await ctx.answerCallbackQuery().catch(() => {});
+  }
+
+  return {
+    handleExportCommand,
+    handleEraseCommand,
+    handleCallback,
+    callbackPattern: new RegExp(`^${CALLBACK_PREFIX}`),
+  };
+}
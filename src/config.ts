@@ -5,14 +5,21 @@
  * All environment variable access happens here. Configuration is passed
  * to factories/services rather than reading globals deep inside functions.
  *
+ * Numeric and boolean variables are validated at start-up: a value that is
+ * not a number, or lies outside its allowed range, stops the bot with one
+ * error listing every offending variable instead of silently falling back
+ * to the default.
+ *
  * Refactored: Removed conversational AI persona (SYSTEM_PROMPT).
  * AI is now command-based only. The summary prompt lives in the handler.
  * =============================================================================
  */
 
 import 'dotenv/config';
+import * as path from 'path';
 import { AppError } from './assistant/types';
 import { auditLog } from './assistant/audit-log';
+import { parseRetentionSpec, RetentionOverrides } from './database/retention';
 
 export interface BotConfig {
   token: string;
@@ -20,10 +27,12 @@ export interface BotConfig {
   adminId: number;
   /**
    * Telegram sticker `file_id` sent by the bot on a Duylhou hit.
-   * Empty string = fall back to plain-text reply.
+   * Empty string = send only the text callout.
    * See .env.example for how to obtain a sticker file_id.
    */
   duylhouStickerFileId: string;
+  /** Pin the end-of-month "Duylhou do Mês" award post. */
+  duylhouAwardsPin: boolean;
 }
 
 export interface ServerConfig {
@@ -34,17 +43,56 @@ export interface ServerConfig {
 export interface AssistantConfig {
   geminiApiKey: string;
   geminiModel: string;
-  maxHistoryMessages: number;
 }
 
 export interface DatabaseConfigOptions {
+  /** Absolute path of the data directory. */
   dataDir: string;
   persistIntervalMs: number;
   linkExpiryMs: number;
+  /** Per user/chat cap on conversation history and the /summary buffer. */
   conversationMaxMessages: number;
   leaderboardRetentionDays: number;
+  /** Conversation history older than this is dropped on cleanup. */
   sessionMaxAgeDays: number;
   cleanupIntervalMs: number;
+  /** How long messages stay in the /summary buffer. */
+  chatBufferMaxAgeMs: number;
+  /** How long messages stay searchable with /buscar. */
+  searchHistoryDays: number;
+  /** Per chat cap on the messages /buscar can find. */
+  searchHistoryMaxMessages: number;
+  shortLinkRetentionDays: number;
+  /** `json` (database.json, default) or `sqlite` (database.sqlite, Node >= 22.13). */
+  backend: 'json' | 'sqlite';
+  /** Unset = the backend's default (1 s for sqlite, off for json). */
+  writeDelayMs: number | undefined;
+  journal: boolean;
+  /** 0 = no periodic snapshots. */
+  backupIntervalMs: number;
+  backupMaxCount: number;
+  backupMaxAgeDays: number;
+  /** Per-collection retention changes, from `DB_RETENTION` (see database/retention.ts). */
+  retention: RetentionOverrides;
+}
+
+export interface RateLimitConfig {
+  /** AI commands a user may run per window. */
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface MemoryConfig {
+  maxMemoriesPerUser: number;
+  /** Characters of memory context added to a prompt. */
+  tokenBudget: number;
+  /** Memories not used for this long are evicted. */
+  decayDays: number;
+}
+
+export interface MediaConfig {
+  /** Downloads processed simultaneously. */
+  maxConcurrency: number;
 }
 
 export interface AppConfig {
@@ -52,6 +100,9 @@ export interface AppConfig {
   server: ServerConfig;
   assistant: AssistantConfig;
   database: DatabaseConfigOptions;
+  rateLimit: RateLimitConfig;
+  memory: MemoryConfig;
+  media: MediaConfig;
   nodeEnv: string;
 }
 
@@ -59,8 +110,15 @@ export const CONFIG_ERROR_CODES = {
   MISSING_BOT_TOKEN: 'CONFIG_001',
   MISSING_GEMINI_KEY: 'CONFIG_002',
   INVALID_PORT: 'CONFIG_003',
+  INVALID_RETENTION: 'CONFIG_004',
+  INVALID_VALUE: 'CONFIG_005',
 } as const;
 
+/** Shown instead of secrets by {@link redactConfig}. */
+const REDACTED = '[redacted]';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 function createConfigError(code: string, message: string): AppError {
   return { code, category: 'CONFIGURATION', message };
 }
@@ -79,11 +137,36 @@ function optionalEnv(name: string, defaultValue: string): string {
   return process.env[name] || defaultValue;
 }
 
-function optionalEnvNumber(name: string, defaultValue: number): number {
-  const value = process.env[name];
+/**
+ * Reads an integer variable.  A value that is not an integer or lies
+ * outside `[min, max]` is added to `problems` and the default returned.
+ */
+function optionalEnvNumber(
+  name: string,
+  defaultValue: number,
+  problems: string[],
+  min: number = -Infinity,
+  max: number = Infinity,
+): number {
+  const value = process.env[name]?.trim();
+  if (!value) return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    const bounds = max === Infinity ? `>= ${min}` : `${min}–${max}`;
+    problems.push(`${name}=${value} (expected an integer ${bounds})`);
+    return defaultValue;
+  }
+  return parsed;
+}
+
+function optionalEnvBoolean(name: string, defaultValue: boolean, problems: string[]): boolean {
+  const value = process.env[name]?.trim().toLowerCase();
   if (!value) return defaultValue;
-  const parsed = parseInt(value, 10);
-  return isNaN(parsed) ? defaultValue : parsed;
+  if (['1', 'true', 'yes', 'on'].includes(value)) return true;
+  if (['0', 'false', 'no', 'off'].includes(value)) return false;
+  problems.push(`${name}=${value} (expected true or false)`);
+  return defaultValue;
 }
 
 /**
@@ -96,22 +179,77 @@ export function loadConfig(): [AppError | null, AppConfig | null] {
   const [geminiError, geminiApiKey] = requireEnv('GEMINI_API_KEY', CONFIG_ERROR_CODES.MISSING_GEMINI_KEY);
   if (geminiError) return [geminiError, null];
 
-  const port = optionalEnvNumber('PORT', 3000);
+  const portProblems: string[] = [];
+  const port = optionalEnvNumber('PORT', 3000, portProblems, 1, 65535);
+  if (portProblems.length > 0) {
+    const error = createConfigError(CONFIG_ERROR_CODES.INVALID_PORT, `Invalid ${portProblems[0]}`);
+    auditLog.record(error.code, { message: error.message, variable: 'PORT' });
+    return [error, null];
+  }
+
+  const problems: string[] = [];
+
   const serverUrl = optionalEnv('SERVER_URL', `http://localhost:${port}`);
-  const targetGroupId = optionalEnvNumber('TARGET_GROUP_ID', -1000000000000);
-  const adminId = optionalEnvNumber('ADMIN_ID', 0);
+  const targetGroupId = optionalEnvNumber('TARGET_GROUP_ID', -1000000000000, problems);
+  const adminId = optionalEnvNumber('ADMIN_ID', 0, problems, 0);
   const duylhouStickerFileId = optionalEnv('DUYLHOU_STICKER_FILE_ID', '');
+  const duylhouAwardsPin = optionalEnvBoolean('DUYLHOU_AWARDS_PIN', false, problems);
   const geminiModel = optionalEnv('GEMINI_MODEL', 'gemini-2.5-flash');
-  const maxHistoryMessages = optionalEnvNumber('MAX_HISTORY_MESSAGES', 20);
   const nodeEnv = optionalEnv('NODE_ENV', 'development');
 
-  const dataDir = optionalEnv('DATA_DIR', './data');
-  const persistIntervalMs = optionalEnvNumber('DB_PERSIST_INTERVAL_MS', 30000);
-  const linkExpiryMs = optionalEnvNumber('LINK_EXPIRY_MS', 24 * 60 * 60 * 1000);
-  const conversationMaxMessages = optionalEnvNumber('CONVERSATION_MAX_MESSAGES', 10);
-  const leaderboardRetentionDays = optionalEnvNumber('LEADERBOARD_RETENTION_DAYS', 30);
-  const sessionMaxAgeDays = optionalEnvNumber('SESSION_MAX_AGE_DAYS', 90);
-  const cleanupIntervalMs = optionalEnvNumber('CLEANUP_INTERVAL_MS', 24 * 60 * 60 * 1000);
+  // Relative DATA_DIR values are resolved against the working directory.
+  const dataDir = path.resolve(optionalEnv('DATA_DIR', path.join(__dirname, '../data')));
+  const persistIntervalMs = optionalEnvNumber('DB_PERSIST_INTERVAL_MS', 5 * 60 * 1000, problems, 1000);
+  const linkExpiryMs = optionalEnvNumber('LINK_EXPIRY_MS', DAY_MS, problems, 60 * 1000);
+  // MAX_HISTORY_MESSAGES is the older name of the same limit.
+  const conversationMaxMessages = optionalEnvNumber(
+    'CONVERSATION_MAX_MESSAGES',
+    optionalEnvNumber('MAX_HISTORY_MESSAGES', 20, problems, 1, 10_000),
+    problems, 1, 10_000,
+  );
+  const leaderboardRetentionDays = optionalEnvNumber('LEADERBOARD_RETENTION_DAYS', 30, problems, 1);
+  const sessionMaxAgeDays = optionalEnvNumber('SESSION_MAX_AGE_DAYS', 90, problems, 1);
+  const cleanupIntervalMs = optionalEnvNumber('CLEANUP_INTERVAL_MS', 60 * 60 * 1000, problems, 60 * 1000);
+  const chatBufferMaxAgeMs = optionalEnvNumber('CHAT_BUFFER_MAX_AGE_MS', DAY_MS, problems, 60 * 1000);
+  const searchHistoryDays = optionalEnvNumber('SEARCH_HISTORY_DAYS', 7, problems, 1, 365);
+  const searchHistoryMaxMessages = optionalEnvNumber('SEARCH_HISTORY_MAX_MESSAGES', 2000, problems, 1, 100_000);
+  const shortLinkRetentionDays = optionalEnvNumber('SHORT_LINK_RETENTION_DAYS', 30, problems, 1);
+  const writeDelayMs = process.env.DB_WRITE_DELAY_MS
+    ? optionalEnvNumber('DB_WRITE_DELAY_MS', 0, problems, 0, 60 * 1000)
+    : undefined;
+  const journal = optionalEnvBoolean('DB_JOURNAL', true, problems);
+  const backupIntervalMs = optionalEnvNumber('DB_BACKUP_INTERVAL_MS', DAY_MS, problems, 0);
+  const backupMaxCount = optionalEnvNumber('DB_BACKUP_MAX_COUNT', 14, problems, 1);
+  const backupMaxAgeDays = optionalEnvNumber('DB_BACKUP_MAX_AGE_DAYS', 30, problems, 1);
+
+  const backendName = optionalEnv('DB_BACKEND', 'json').trim().toLowerCase();
+  if (backendName !== 'json' && backendName !== 'sqlite') {
+    problems.push(`DB_BACKEND=${backendName} (expected json or sqlite)`);
+  }
+  const backend = backendName === 'sqlite' ? 'sqlite' : 'json';
+
+  const rateLimitMaxRequests = optionalEnvNumber('RATE_LIMIT_MAX_REQUESTS', 5, problems, 1);
+  const rateLimitWindowMs = optionalEnvNumber('RATE_LIMIT_WINDOW_MS', 60 * 1000, problems, 1000);
+  const maxMemoriesPerUser = optionalEnvNumber('MEMORY_MAX_PER_USER', 50, problems, 1, 1000);
+  const memoryTokenBudget = optionalEnvNumber('MEMORY_TOKEN_BUDGET', 1000, problems, 100);
+  const memoryDecayDays = optionalEnvNumber('MEMORY_DECAY_DAYS', 30, problems, 1);
+  const mediaMaxConcurrency = optionalEnvNumber('MEDIA_MAX_CONCURRENCY', 2, problems, 1, 10);
+
+  if (problems.length > 0) {
+    const error = createConfigError(CONFIG_ERROR_CODES.INVALID_VALUE, `Invalid configuration: ${problems.join('; ')}`);
+    auditLog.record(error.code, { message: error.message });
+    return [error, null];
+  }
+
+  const [retentionError, retention] = parseRetentionSpec(optionalEnv('DB_RETENTION', ''));
+  if (retentionError || !retention) {
+    const error = createConfigError(
+      CONFIG_ERROR_CODES.INVALID_RETENTION,
+      `Invalid DB_RETENTION: ${retentionError?.details ?? ''}`,
+    );
+    auditLog.record(error.code, { message: error.message, variable: 'DB_RETENTION' });
+    return [error, null];
+  }
 
   const config: AppConfig = {
     bot: {
@@ -119,12 +257,12 @@ export function loadConfig(): [AppError | null, AppConfig | null] {
       targetGroupId,
       adminId,
       duylhouStickerFileId,
+      duylhouAwardsPin,
     },
     server: { port, url: serverUrl },
     assistant: {
       geminiApiKey: geminiApiKey!,
       geminiModel,
-      maxHistoryMessages,
     },
     database: {
       dataDir,
@@ -134,10 +272,46 @@ export function loadConfig(): [AppError | null, AppConfig | null] {
       leaderboardRetentionDays,
       sessionMaxAgeDays,
       cleanupIntervalMs,
+      chatBufferMaxAgeMs,
+      searchHistoryDays,
+      searchHistoryMaxMessages,
+      shortLinkRetentionDays,
+      backend,
+      writeDelayMs,
+      journal,
+      backupIntervalMs,
+      backupMaxCount,
+      backupMaxAgeDays,
+      retention,
+    },
+    rateLimit: {
+      maxRequests: rateLimitMaxRequests,
+      windowMs: rateLimitWindowMs,
+    },
+    memory: {
+      maxMemoriesPerUser,
+      tokenBudget: memoryTokenBudget,
+      decayDays: memoryDecayDays,
+    },
+    media: {
+      maxConcurrency: mediaMaxConcurrency,
     },
     nodeEnv,
   };
 
   auditLog.trace('Configuration loaded successfully');
   return [null, config];
-}
\ No newline at end of file
+}
+
+/**
+ * Copy of the configuration that is safe to show (the `/config` command):
+ * the bot token and API keys are replaced by a placeholder.
+ *
+ * @param config - Loaded configuration.
+ */
+export function redactConfig(config: AppConfig): AppConfig {
+  const copy = structuredClone(config);
+  copy.bot.token = REDACTED;
+  copy.assistant.geminiApiKey = REDACTED;
+  return copy;
+}
@@ -0,0 +1,192 @@
+/**
+ * @module database/backups
+ *
+ * Timestamped, gzip-compressed snapshots of the whole {@link DatabaseSchema}
+ * in `<dataDir>/backups`, independent of the storage backend:
+ *
+ *   database-2026-01-31T03-00-00-000Z.json.gz
+ *   database-2026-01-31T03-00-00-000Z-pre-restore.json.gz
+ *
+ * The timestamp in the name is the snapshot time (colons replaced so the
+ * name is valid on every filesystem); an optional label says why it was
+ * taken.  Used by {@link createDatabase} (periodic backups, restore) and by
+ * the offline `db:backup` tool.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { gzip, gunzip } from 'zlib';
+import { AppError } from '../assistant/types';
+import { auditLog } from '../assistant/audit-log';
+import { DatabaseSchema, DB_ERROR_CODES } from './types';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const BACKUP_NAME_PATTERN = /^database-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)(?:-([a-z0-9-]+))?\.json\.gz$/;
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * One snapshot file.
+ */
+export interface BackupInfo {
+  /** File name inside the backup directory. */
+  name: string;
+  /** Snapshot time (Unix ms), parsed from the name. */
+  createdAt: number;
+  /** Why it was taken (`pre-restore`, `manual`, …), if labelled. */
+  label: string | null;
+  sizeBytes: number;
+}
+
+/**
+ * Pruning policy.  The newest snapshot is always kept.
+ */
+export interface BackupRetention {
+  /** Keep at most this many snapshots. */
+  maxCount: number;
+  /** Delete snapshots older than this. */
+  maxAgeDays: number;
+}
+
+function createBackupError(code: string, message: string, details?: string): AppError {
+  return { code, category: 'CONFIGURATION', message, details };
+}
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+/**
+ * Directory the snapshots of `dataDir` live in.
+ */
+export function getBackupDir(dataDir: string): string {
+  return path.join(dataDir, 'backups');
+}
+
+/**
+ * Parses a snapshot file name.
+ *
+ * @returns `null` for files that are not snapshots.
+ */
+function parseBackupName(name: string): Omit<BackupInfo, 'sizeBytes'> | null {
+  const match = name.match(BACKUP_NAME_PATTERN);
+  if (!match) return null;
+
+  // 2026-01-31T03-00-00-000Z → 2026-01-31T03:00:00.000Z
+  const [date, time] = match[1].split('T');
+  const [h, m, s, ms] = time.replace('Z', '').split('-');
+  const createdAt = Date.parse(`${date}T${h}:${m}:${s}.${ms}Z`);
+  if (isNaN(createdAt)) return null;
+
+  return { name, createdAt, label: match[2] ?? null };
+}
+
+/**
+ * Lists the snapshots in `backupDir`, newest first.
+ */
+export async function listBackups(backupDir: string): Promise<BackupInfo[]> {
+  const names = await fs.readdir(backupDir).catch(() => [] as string[]);
+  const backups: BackupInfo[] = [];
+
+  for (const name of names) {
+    const parsed = parseBackupName(name);
+    if (!parsed) continue;
+    const stat = await fs.stat(path.join(backupDir, name)).catch(() => null);
+    if (stat) backups.push({ ...parsed, sizeBytes: stat.size });
+  }
+
+  return backups.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Writes a snapshot of `schema`.  Like the JSON storage, the file is
+ * written under a temporary name and renamed, so a listed snapshot is
+ * always complete.
+ *
+ * @param label - Optional reason, lowercase letters/digits/dashes.
+ */
+export async function writeBackup(
+  backupDir: string,
+  schema: DatabaseSchema,
+  label?: string,
+): Promise<[AppError | null, BackupInfo | null]> {
+  const createdAt = Date.now();
+  const stamp = new Date(createdAt).toISOString().replace(/[:.]/g, '-');
+  const name = `database-${stamp}${label ? `-${label}` : ''}.json.gz`;
+  const filePath = path.join(backupDir, name);
+
+  try {
+    // Serialised before the first await: the snapshot is the state at call time.
+    const json = JSON.stringify(schema);
+    await fs.mkdir(backupDir, { recursive: true });
+    const compressed = await gzipAsync(json);
+    await fs.writeFile(filePath + '.tmp', compressed);
+    await fs.rename(filePath + '.tmp', filePath);
+
+    auditLog.trace(`Backup written: ${name} (${compressed.length} bytes)`);
+    return [null, { name, createdAt, label: label ?? null, sizeBytes: compressed.length }];
+  } catch (e) {
+    fs.unlink(filePath + '.tmp').catch(() => { });
+    const error = createBackupError(DB_ERROR_CODES.BACKUP_FAILED, 'Failed to write backup', (e as Error).message);
+    auditLog.record(error.code, { error: error.details, name });
+    return [error, null];
+  }
+}
+
+/**
+ * Reads and decompresses a snapshot.
+ *
+ * @param name - File name as returned by {@link listBackups}.
+ */
+export async function readBackup(
+  backupDir: string,
+  name: string,
+): Promise<[AppError | null, DatabaseSchema | null]> {
+  // Only plain snapshot names — never a path out of the backup directory.
+  if (!parseBackupName(name)) {
+    return [createBackupError(DB_ERROR_CODES.BACKUP_FAILED, `Not a backup file: ${name}`), null];
+  }
+
+  try {
+    const compressed = await fs.readFile(path.join(backupDir, name));
+    const schema = JSON.parse((await gunzipAsync(compressed)).toString('utf-8')) as DatabaseSchema;
+    if (!schema || !schema.meta) throw new Error('snapshot has no meta section');
+    return [null, schema];
+  } catch (e) {
+    const error = createBackupError(DB_ERROR_CODES.BACKUP_FAILED, `Failed to read backup ${name}`, (e as Error).message);
+    auditLog.record(error.code, { error: error.details, name });
+    return [error, null];
+  }
+}
+
+/**
+ * Deletes snapshots beyond the retention policy.
+ *
+ * @returns Number of snapshots removed.
+ */
+export async function pruneBackups(backupDir: string, retention: BackupRetention): Promise<number> {
+  const cutoff = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+  const backups = await listBackups(backupDir);
+  let removed = 0;
+
+  for (const [i, backup] of backups.entries()) {
+    if (i === 0) continue;  // newest
+    if (i < retention.maxCount && backup.createdAt >= cutoff) continue;
+
+    await fs.unlink(path.join(backupDir, backup.name))
+      .then(() => { removed++; })
+      .catch((e: Error) => auditLog.record(DB_ERROR_CODES.BACKUP_FAILED, { error: e.message, name: backup.name }));
+  }
+
+  if (removed > 0) auditLog.trace(`Pruned ${removed} old backups`);
+  return removed;
+}
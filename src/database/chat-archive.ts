@@ -0,0 +1,314 @@
+/**
+ * @module database/chat-archive
+ *
+ * Portable export of one chat's data, for moving the bot to a new host or
+ * handing a group its history.  The archive is JSON lines: a header, then
+ * one line per record.
+ *
+ *   {"kind":"header","format":"chat-archive","formatVersion":1,"schemaVersion":12,"chatId":-100123,…}
+ *   {"kind":"record","collection":"links","record":{…}}
+ *
+ * Exported per chat: links, Duylhou incidents and leaderboard, summaries and
+ * the /summary message buffer.  Todos have no chat and belong to the bot
+ * admin, so they are only included on request (`includeTodos`): by the
+ * offline tool and by an admin's /exportar, never in a group's own export.
+ *
+ * Importing never overwrites: records the target already holds are skipped,
+ * so importing the same archive twice changes nothing.  Imported records
+ * get fresh IDs from the target's `meta` counters (IDs are only unique per
+ * database); a leaderboard entry that exists on both sides keeps the larger
+ * count.  Archives written by a schema this build cannot read are refused.
+ */
+
+import { AppError } from '../assistant/types';
+import { DatabaseSchema, DB_ERROR_CODES } from './types';
+import { CURRENT_SCHEMA_VERSION } from './schema-migrator';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const ARCHIVE_FORMAT = 'chat-archive';
+
+/** Version of the line format itself. */
+export const CHAT_ARCHIVE_FORMAT_VERSION = 1;
+
+/**
+ * Oldest schema whose exported records this build imports as-is.  Raise it
+ * when a migration changes the shape of an exported collection.
+ */
+export const CHAT_ARCHIVE_MIN_SCHEMA_VERSION = 12;
+
+/** Exported collections, in file order. */
+export const CHAT_ARCHIVE_COLLECTIONS = [
+  'links',
+  'duylhouIncidents',
+  'duylhouLeaderboard',
+  'summaries',
+  'chatMessages',
+  'todos',
+] as const;
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export type ChatArchiveCollection = typeof CHAT_ARCHIVE_COLLECTIONS[number];
+
+/**
+ * First line of an archive.
+ */
+export interface ChatArchiveHeader {
+  kind: 'header';
+  format: typeof ARCHIVE_FORMAT;
+  formatVersion: number;
+  /** Schema version of the exporting database. */
+  schemaVersion: number;
+  chatId: number;
+  /** ISO timestamp of the export. */
+  exportedAt: string;
+  /** Records per collection, checked on parse. */
+  counts: Record<ChatArchiveCollection, number>;
+}
+
+/**
+ * A parsed (or freshly exported) archive.
+ */
+export interface ChatArchive {
+  header: ChatArchiveHeader;
+  records: { [K in ChatArchiveCollection]: DatabaseSchema[K] };
+}
+
+export interface ChatExportOptions {
+  /** Add the bot-wide todo list.  Default: false. */
+  includeTodos?: boolean;
+}
+
+export interface ChatImportOptions {
+  /** Import under a different chat ID (the group moved). Default: the archive's. */
+  targetChatId?: number;
+}
+
+/**
+ * What an import added and skipped, per collection.
+ */
+export interface ChatImportReport {
+  chatId: number;
+  added: Record<ChatArchiveCollection, number>;
+  skipped: Record<ChatArchiveCollection, number>;
+}
+
+function createArchiveError(message: string, details?: string): AppError {
+  return { code: DB_ERROR_CODES.INVALID_DATA, category: 'CONFIGURATION', message, details };
+}
+
+function emptyCounts(): Record<ChatArchiveCollection, number> {
+  return { links: 0, duylhouIncidents: 0, duylhouLeaderboard: 0, summaries: 0, chatMessages: 0, todos: 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Copies one chat's records out of a schema.
+ *
+ * @param schema - Source data (not modified).
+ * @param chatId  - Chat to export.
+ * @param now     - Export time (Unix ms).
+ * @param options - See {@link ChatExportOptions}.
+ */
+export function exportChatArchive(
+  schema: DatabaseSchema,
+  chatId: number,
+  now: number,
+  options: ChatExportOptions = {},
+): ChatArchive {
+  const ofChat = <T extends { chatId: number }>(records: T[]): T[] =>
+    structuredClone(records.filter((record) => record.chatId === chatId));
+
+  const records: ChatArchive['records'] = {
+    links: ofChat(schema.links),
+    duylhouIncidents: ofChat(schema.duylhouIncidents),
+    duylhouLeaderboard: ofChat(schema.duylhouLeaderboard),
+    summaries: ofChat(schema.summaries),
+    chatMessages: ofChat(schema.chatMessages),
+    todos: options.includeTodos ? structuredClone(schema.todos) : [],
+  };
+
+  const counts = emptyCounts();
+  for (const collection of CHAT_ARCHIVE_COLLECTIONS) counts[collection] = records[collection].length;
+
+  return {
+    header: {
+      kind: 'header',
+      format: ARCHIVE_FORMAT,
+      formatVersion: CHAT_ARCHIVE_FORMAT_VERSION,
+      schemaVersion: schema.meta.version,
+      chatId,
+      exportedAt: new Date(now).toISOString(),
+      counts,
+    },
+    records,
+  };
+}
+
+/**
+ * Renders an archive as JSON lines (trailing newline included).
+ */
+export function serializeChatArchive(archive: ChatArchive): string {
+  const lines = [JSON.stringify(archive.header)];
+  for (const collection of CHAT_ARCHIVE_COLLECTIONS) {
+    for (const record of archive.records[collection]) {
+      lines.push(JSON.stringify({ kind: 'record', collection, record }));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parses and validates an archive.
+ *
+ * @returns `DB_005` for a foreign or truncated file, or one written by an
+ *          incompatible schema version.
+ */
+export function parseChatArchive(text: string): [AppError | null, ChatArchive | null] {
+  const lines = text.split('\n').filter((line) => line.trim());
+
+  let header: ChatArchiveHeader;
+  try {
+    header = JSON.parse(lines[0] ?? '');
+  } catch {
+    return [createArchiveError('Not a chat archive', 'first line is not JSON'), null];
+  }
+
+  if (header?.kind !== 'header' || header.format !== ARCHIVE_FORMAT || typeof header.chatId !== 'number') {
+    return [createArchiveError('Not a chat archive', 'missing header'), null];
+  }
+  if (header.formatVersion !== CHAT_ARCHIVE_FORMAT_VERSION) {
+    return [createArchiveError('Unsupported chat archive format', `format v${header.formatVersion}`), null];
+  }
+  if (header.schemaVersion < CHAT_ARCHIVE_MIN_SCHEMA_VERSION || header.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return [
+      createArchiveError(
+        'Incompatible chat archive',
+        `written by schema v${header.schemaVersion}; this build reads ` +
+        `v${CHAT_ARCHIVE_MIN_SCHEMA_VERSION}–v${CURRENT_SCHEMA_VERSION}`,
+      ),
+      null,
+    ];
+  }
+
+  const records: ChatArchive['records'] = {
+    links: [], duylhouIncidents: [], duylhouLeaderboard: [], summaries: [], chatMessages: [], todos: [],
+  };
+  for (let i = 1; i < lines.length; i++) {
+    let line: { kind?: string; collection?: ChatArchiveCollection; record?: unknown };
+    try {
+      line = JSON.parse(lines[i]);
+    } catch {
+      return [createArchiveError('Corrupt chat archive', `line ${i + 1} is not JSON`), null];
+    }
+    if (line.kind !== 'record' || !line.collection || !CHAT_ARCHIVE_COLLECTIONS.includes(line.collection)
+      || typeof line.record !== 'object' || line.record === null) {
+      return [createArchiveError('Corrupt chat archive', `unexpected line ${i + 1}`), null];
+    }
+    (records[line.collection] as unknown[]).push(line.record);
+  }
+
+  for (const collection of CHAT_ARCHIVE_COLLECTIONS) {
+    const expected = header.counts?.[collection];
+    if (records[collection].length !== expected) {
+      return [createArchiveError('Truncated chat archive', `${collection}: ${records[collection].length} of ${expected}`), null];
+    }
+  }
+
+  return [null, { header, records }];
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Merges an archive into a schema (in place).  See the module comment for
+ * the merge rules.
+ *
+ * @param schema  - Target data, at {@link CURRENT_SCHEMA_VERSION}.
+ * @param archive - Parsed archive.
+ * @param options - See {@link ChatImportOptions}.
+ */
+export function importChatArchive(
+  schema: DatabaseSchema,
+  archive: ChatArchive,
+  options: ChatImportOptions = {},
+): ChatImportReport {
+  const chatId = options.targetChatId ?? archive.header.chatId;
+  const report: ChatImportReport = { chatId, added: emptyCounts(), skipped: emptyCounts() };
+  const { meta } = schema;
+
+  // Records are moved to `chatId` before the duplicate check; an ID is only
+  // drawn from the counter for a record that is actually added.
+  const merge = <T extends { id: number }>(
+    collection: ChatArchiveCollection,
+    target: T[],
+    incoming: T[],
+    identity: (record: T) => string,
+    nextId: () => number,
+  ): void => {
+    const existing = new Set(target.map(identity));
+    for (const original of incoming) {
+      const record: T = 'chatId' in original ? { ...structuredClone(original), chatId } : structuredClone(original);
+      const key = identity(record);
+      if (existing.has(key)) {
+        report.skipped[collection]++;
+        continue;
+      }
+      existing.add(key);
+      record.id = nextId();
+      target.push(record);
+      report.added[collection]++;
+    }
+  };
+
+  merge('links', schema.links, archive.records.links,
+    (link) => `${link.normalizedUrl}:${link.chatId}`,
+    () => meta.linkNextId++);
+
+  merge('duylhouIncidents', schema.duylhouIncidents, archive.records.duylhouIncidents,
+    (incident) => `${incident.chatId}:${incident.offenderId}:${incident.normalizedUrl}:${incident.createdAt}`,
+    () => meta.duylhouIncidentNextId++);
+
+  for (const incoming of archive.records.duylhouLeaderboard) {
+    const entry = { ...incoming, chatId };
+    const current = schema.duylhouLeaderboard.find(
+      (e) => e.chatId === chatId && e.userId === entry.userId && e.month === entry.month,
+    );
+    if (!current) {
+      schema.duylhouLeaderboard.push(entry);
+      report.added.duylhouLeaderboard++;
+    } else if (entry.count > current.count) {
+      current.count = entry.count;
+      current.lastIncidentAt = Math.max(current.lastIncidentAt, entry.lastIncidentAt);
+      report.added.duylhouLeaderboard++;
+    } else {
+      report.skipped.duylhouLeaderboard++;
+    }
+  }
+
+  merge('summaries', schema.summaries, archive.records.summaries,
+    (summary) => `${summary.chatId}:${summary.createdAt}`,
+    () => meta.summaryNextId++);
+
+  // An edit changes the text, so the Telegram message ID identifies better.
+  merge('chatMessages', schema.chatMessages, archive.records.chatMessages,
+    (message) => `${message.chatId}:${message.userId}:${message.createdAt}:${message.messageId ?? message.text}`,
+    () => meta.chatMessageNextId++);
+  schema.chatMessages.sort((a, b) => a.createdAt - b.createdAt);
+
+  merge('todos', schema.todos, archive.records.todos,
+    (todo) => `${todo.createdAt}:${todo.user}:${todo.text}`,
+    () => meta.todoNextId++);
+
+  return report;
+}
@@ -4,7 +4,8 @@
  * 
  * Features:
  * - In-memory cache for fast reads
- * - Batched writes to disk (configurable interval)
+ * - Batched writes to disk (configurable interval), as `database.json` or
+ *   SQLite (see storage.ts / sqlite-storage.ts)
  * - Automatic cleanup of expired data
  * - Thread-safe operations with locks
  * =============================================================================
@@ -19,16 +20,47 @@ import {
   DatabaseConfig,
   ConversationRecord,
   LinkRecord,
+  MediaFingerprintRecord,
+  ShortLinkRecord,
   DuylhouIncident,
   DuylhouLeaderboardEntry,
+  DuylhouAwardRecord,
+  DuylhouAppealRecord,
+  DuylhouChatSettings,
+  DEFAULT_DUYLHOU_SETTINGS,
   TodoRecord,
   SummaryRecord,
   ChatMessageRecord,
   UserMemoryRecord,
+  RateLimitRecord,
   DB_ERROR_CODES,
 } from './types';
-import { createEmptySchema, applyMigrations } from './schema-migrator';
-import { createIndexManager, rebuildAllIndexes, rebuildFromIndexes, IndexManager } from './index-manager';
+import { createEmptySchema, migrateSchema, needsMigration } from './schema-migrator';
+import {
+  createIndexManager,
+  indexChatMessageTerms,
+  rebuildAllIndexes,
+  rebuildFromIndexes,
+  unindexChatMessageTerms,
+  IndexManager,
+} from './index-manager';
+import { hammingDistance, isDistinctiveHash } from './fingerprint-utils';
+import { DatabaseStorage, createJsonStorage } from './storage';
+import { createSqliteStorage } from './sqlite-storage';
+import { createJournal } from './journal';
+import { BackupInfo, getBackupDir, listBackups as listBackupFiles, pruneBackups, readBackup, writeBackup } from './backups';
+import {
+  RetentionCollection,
+  RetentionOutcome,
+  RetentionPolicy,
+  RetentionSubject,
+  appendToArchive,
+  getArchiveDir,
+  resolveRetentionPolicies,
+  selectForEviction,
+} from './retention';
+import { ChatArchive, ChatExportOptions, exportChatArchive } from './chat-archive';
+import { tokenizeForSearch } from './text-search';
 
 /**
  * Leaderboard entry with rank
@@ -40,6 +72,90 @@ export interface LeaderboardRanking {
   lastIncidentAt: number;
 }
 
+/**
+ * A normalised URL and how many Duylhou incidents it caused.
+ */
+export interface DuplicatedUrlStat {
+  normalizedUrl: string;
+  count: number;
+}
+
+/**
+ * A user whose posts were duplicated, and how often.
+ */
+export interface DuylhouVictimStat {
+  userId: number;
+  count: number;
+}
+
+/**
+ * An offender → original-poster pair and how often it occurred.
+ */
+export interface DuylhouPairStat {
+  offenderId: number;
+  originalUserId: number;
+  count: number;
+}
+
+/**
+ * Median delay between an original post and its duplicate.
+ */
+export interface RepostDelayStat {
+  /** `null` when no incident in the period has `originalPostedAt`. */
+  medianMs: number | null;
+  /** Number of incidents the median was computed from. */
+  samples: number;
+}
+
+/**
+ * Filters for {@link Database.searchChatMessages}.
+ */
+export interface ChatMessageSearchOptions {
+  /** Only messages received at or after this time (Unix ms). */
+  since?: number;
+  /** Only messages from this user. */
+  userId?: number;
+  /** Maximum results, newest first (default 20). */
+  limit?: number;
+}
+
+/**
+ * User ID written in place of an erased user where a record is kept for
+ * the other people in it (incidents, appeals, awards).
+ */
+export const ANONYMOUS_USER_ID = 0;
+
+/**
+ * Everything stored about one user — the `/meusdados` download.
+ */
+export interface UserDataExport {
+  userId: number;
+  /** ISO timestamp of the export. */
+  exportedAt: string;
+  conversations: ConversationRecord[];
+  chatMessages: ChatMessageRecord[];
+  userMemories: UserMemoryRecord[];
+  rateLimits: RateLimitRecord[];
+  links: LinkRecord[];
+  mediaFingerprints: MediaFingerprintRecord[];
+  /** As offender or as original poster. */
+  duylhouIncidents: DuylhouIncident[];
+  duylhouLeaderboard: DuylhouLeaderboardEntry[];
+  /** About the user, requested by them, or with their vote. */
+  duylhouAppeals: DuylhouAppealRecord[];
+  /** Months the user won. */
+  duylhouAwards: DuylhouAwardRecord[];
+}
+
+export type UserDataCollection = Exclude<keyof UserDataExport, 'userId' | 'exportedAt'>;
+
+/**
+ * Per-collection outcome of {@link Database.eraseUserData}: records only
+ * about the user are deleted; shared ones keep going with the user's ID
+ * replaced by {@link ANONYMOUS_USER_ID}.
+ */
+export type UserErasureReport = Record<UserDataCollection, { deleted: number; anonymised: number }>;
+
 /**
  * Database interface
  */
@@ -54,11 +170,51 @@ export interface Database {
   addLink: (record: Omit<LinkRecord, 'id' | 'createdAt' | 'expiresAt'>) => LinkRecord;
   cleanupExpiredLinks: () => number;
 
+  // Short link cache (Duylhou feature)
+  getShortLink: (shortUrl: string) => ShortLinkRecord | null;
+  setShortLink: (shortUrl: string, resolvedUrl: string) => ShortLinkRecord;
+
+  // Media fingerprints (Duylhou feature)
+  findMediaFingerprint: (chatId: number, fileUniqueId: string, perceptualHash?: string | null, maxDistance?: number) => MediaFingerprintRecord | null;
+  addMediaFingerprint: (record: Omit<MediaFingerprintRecord, 'id' | 'createdAt' | 'expiresAt'>) => MediaFingerprintRecord;
+  cleanupExpiredMediaFingerprints: () => number;
+
   // Duylhou incidents & leaderboard
-  recordDuylhouIncident: (offenderId: number, originalUserId: number, chatId: number, normalizedUrl: string) => DuylhouIncident;
-  getDuylhouLeaderboard: (month?: string, limit?: number) => LeaderboardRanking[];
+  recordDuylhouIncident: (offenderId: number, originalUserId: number, chatId: number, normalizedUrl: string, originalPostedAt?: number) => DuylhouIncident;
+  getDuylhouIncident: (id: number) => DuylhouIncident | null;
+  removeDuylhouIncident: (id: number) => boolean;
+  getDuylhouLeaderboard: (month?: string, limit?: number, chatId?: number) => LeaderboardRanking[];
+  getDuylhouAllTimeLeaderboard: (limit?: number, chatId?: number) => LeaderboardRanking[];
   getCurrentMonth: () => string;
-  cleanupOldIncidents: (monthsToKeep?: number) => number;
+  cleanupOldIncidents: (monthsToKeep?: number, chatId?: number) => number;
+
+  // Duylhou statistics (month defaults to current; omit chatId for all chats)
+  getDuylhouIncidentCount: (month?: string, chatId?: number) => number;
+  getTopDuplicatedUrls: (month?: string, limit?: number, chatId?: number) => DuplicatedUrlStat[];
+  getTopDuylhouVictims: (month?: string, limit?: number, chatId?: number) => DuylhouVictimStat[];
+  getTopDuylhouPairs: (month?: string, limit?: number, chatId?: number) => DuylhouPairStat[];
+  getMedianRepostDelay: (month?: string, chatId?: number) => RepostDelayStat;
+
+  // Duylhou end-of-month awards
+  getDuylhouAward: (month: string, chatId: number) => DuylhouAwardRecord | null;
+  recordDuylhouAward: (record: Omit<DuylhouAwardRecord, 'sentAt'>) => DuylhouAwardRecord;
+
+  // Duylhou per-chat settings
+  getDuylhouSettings: (chatId: number) => DuylhouChatSettings;
+  updateDuylhouSettings: (
+    chatId: number,
+    updates: Partial<Pick<DuylhouChatSettings, 'enabled' | 'expiryMs' | 'exemptDomains' | 'exemptUserIds' | 'stickerSetName'>>,
+    updatedBy: number,
+  ) => DuylhouChatSettings;
+
+  // Duylhou appeals
+  createDuylhouAppeal: (record: Pick<DuylhouAppealRecord, 'incidentId' | 'requestedBy' | 'closesAt'>) => [AppError | null, DuylhouAppealRecord | null];
+  getDuylhouAppeal: (id: number) => DuylhouAppealRecord | null;
+  getDuylhouAppealByIncident: (incidentId: number) => DuylhouAppealRecord | null;
+  getOpenDuylhouAppeals: () => DuylhouAppealRecord[];
+  updateDuylhouAppeal: (id: number, updates: Partial<Pick<DuylhouAppealRecord, 'messageId' | 'votes' | 'status' | 'resolvedAt'>>) => void;
+  /** Withdraws an appeal that never reached the chat, so it can be filed again. */
+  deleteDuylhouAppeal: (id: number) => boolean;
 
   // Rate limits
   getRateLimitTimestamps: (userId: number) => number[];
@@ -73,9 +229,18 @@ export interface Database {
   addSummary: (record: { chatId: number; rangeLabel: string; messageCount: number; summary: string }) => SummaryRecord;
   getLatestSummary: (chatId: number) => SummaryRecord | null;
 
-  // Chat message buffer (persistent backing store for /summary)
+  // Chat messages (search history; the newest form the /summary buffer)
   addChatMessage: (record: Omit<ChatMessageRecord, 'id' | 'createdAt'>) => [AppError | null, ChatMessageRecord | null];
+  /** The /summary buffer: newest messages within the buffer's age and count caps. */
   getChatMessages: (chatId: number, since?: number) => [AppError | null, ChatMessageRecord[] | null];
+  /** Replaces the text of a buffered message after a Telegram edit. */
+  editChatMessage: (chatId: number, messageId: number, text: string) => ChatMessageRecord | null;
+  /** Stored messages containing every term of `query`, accent- and case-insensitive. */
+  searchChatMessages: (
+    chatId: number,
+    query: string,
+    options?: ChatMessageSearchOptions,
+  ) => [AppError | null, ChatMessageRecord[] | null];
 
   // User memories (long-term knowledge per user - strictly isolated)
   getUserMemories: (userId: number) => UserMemoryRecord[];
@@ -85,12 +250,32 @@ export interface Database {
   markMemoryAccessed: (id: number) => void;
   clearUserMemories: (userId: number) => number;
 
+  // Data subject requests (/meusdados, /apagarmeusdados)
+  getUserData: (userId: number) => UserDataExport;
+  eraseUserData: (userId: number) => UserErasureReport;
+
   // Cleanup & maintenance
   runCleanup: () => CleanupResult;
+  /** Policies applied by {@link runCleanup}, in order. */
+  getRetentionPolicies: () => RetentionPolicy[];
+  getLastCleanupResult: () => CleanupResult | null;
   getStats: () => DatabaseStats;
 
+  // Backups
+  createBackup: (label?: string) => Promise<[AppError | null, BackupInfo | null]>;
+  listBackups: () => Promise<BackupInfo[]>;
+  /** Replaces all data with a snapshot; the current state is backed up first. */
+  restoreBackup: (name: string) => Promise<AppError | null>;
+  /** True while {@link restoreBackup} runs — mutating methods throw meanwhile. */
+  isRestoring: () => boolean;
+
+  // Portable per-chat archive (see chat-archive.ts)
+  exportChat: (chatId: number, options?: ChatExportOptions) => ChatArchive;
+
   // Utilities
   now: () => number;
+  /** Resolves when the initial load and journal replay are done. */
+  ready: () => Promise<AppError | null>;
   flush: () => Promise<AppError | null>;
   shutdown: () => Promise<void>;
 }
@@ -101,11 +286,15 @@ export interface Database {
 export interface CleanupResult {
   conversationsRemoved: number;
   linksRemoved: number;
+  shortLinksRemoved: number;
+  mediaFingerprintsRemoved: number;
   incidentsRemoved: number;
   leaderboardEntriesRemoved: number;
   rateLimitsRemoved: number;
   chatMessagesRemoved: number;
   memoriesRemoved: number;
+  /** One entry per retention policy, in policy order. */
+  policies: RetentionOutcome[];
 }
 
 /**
@@ -114,6 +303,8 @@ export interface CleanupResult {
 export interface DatabaseStats {
   conversations: number;
   links: number;
+  shortLinks: number;
+  mediaFingerprints: number;
   incidents: number;
   leaderboardEntries: number;
   rateLimits: number;
@@ -124,14 +315,125 @@ export interface DatabaseStats {
 }
 
 /**
- * Gets the current month in YYYY-MM format
+ * Timezone whose calendar assigns incidents to months — the same one the
+ * awards scheduler uses to decide when a month rolls over.
+ */
+const MONTH_TIMEZONE = 'America/Sao_Paulo';
+
+/**
+ * Gets the YYYY-MM month of `date` in São Paulo, whatever the host's timezone.
  */
 function formatMonth(date: Date): string {
-  const year = date.getFullYear();
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  return `${year}-${month}`;
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: MONTH_TIMEZONE,
+    year: 'numeric', month: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}`;
+}
+
+/**
+ * The YYYY-MM month `count` months before `month`.
+ */
+function monthsBefore(month: string, count: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, monthNumber - 1 - count, 1));
+  return `${shifted.getUTCFullYear()}-${(shifted.getUTCMonth() + 1).toString().padStart(2, '0')}`;
 }
 
+/**
+ * Start of the month after a YYYY-MM month — the age reference of
+ * month-bucketed records, so a month is only evicted once all of it is
+ * older than the retention window.
+ */
+function monthEnd(month: string): number {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber, 1).getTime();
+}
+
+/**
+ * A collection as seen by the retention engine: how to read its records
+ * and how to drop the evicted ones from the index.
+ */
+interface RetentionStore<R> extends RetentionSubject<R> {
+  records: () => R[];
+  remove: (evicted: ReadonlySet<R>) => void;
+}
+
+/** Store over an index that maps each key to one record. */
+function mapStore<K, R>(map: Map<K, R>, subject: RetentionSubject<R>): RetentionStore<R> {
+  return {
+    ...subject,
+    records: () => Array.from(map.values()),
+    remove: (evicted) => {
+      for (const [key, record] of map.entries()) {
+        if (evicted.has(record)) map.delete(key);
+      }
+    },
+  };
+}
+
+/**
+ * Store over an index that maps each key to a list of records.
+ * `onRemove` sees each evicted record, to update indexes derived from it.
+ */
+function listMapStore<K, R>(
+  map: Map<K, R[]>,
+  subject: RetentionSubject<R>,
+  onRemove?: (record: R) => void,
+): RetentionStore<R> {
+  return {
+    ...subject,
+    records: () => Array.from(map.values()).flat(),
+    remove: (evicted) => {
+      for (const [key, records] of map.entries()) {
+        const kept = records.filter((record) => !evicted.has(record));
+        if (kept.length === 0) map.delete(key);
+        else if (kept.length !== records.length) map.set(key, kept);
+      }
+      if (onRemove) evicted.forEach(onRemove);
+    },
+  };
+}
+
+/**
+ * Methods that change state.  Each call is appended to the write-ahead
+ * journal (journal.ts) before it runs and replayed after a crash — a new
+ * mutating method must be listed here.  `findLink` is left out: the only
+ * change it makes is dropping an expired link, which replay re-derives.
+ */
+const JOURNALED_OPERATIONS = [
+  'addConversation',
+  'clearConversations',
+  'addLink',
+  'cleanupExpiredLinks',
+  'setShortLink',
+  'addMediaFingerprint',
+  'cleanupExpiredMediaFingerprints',
+  'recordDuylhouIncident',
+  'removeDuylhouIncident',
+  'cleanupOldIncidents',
+  'recordDuylhouAward',
+  'updateDuylhouSettings',
+  'createDuylhouAppeal',
+  'updateDuylhouAppeal',
+  'deleteDuylhouAppeal',
+  'setRateLimitTimestamps',
+  'cleanupRateLimits',
+  'addTodo',
+  'addSummary',
+  'addChatMessage',
+  'editChatMessage',
+  'addUserMemory',
+  'updateUserMemory',
+  'deleteUserMemory',
+  'markMemoryAccessed',
+  'clearUserMemories',
+  'eraseUserData',
+  'runCleanup',
+] as const satisfies ReadonlyArray<keyof Database>;
+
 /**
  * Creates a database error
  */
@@ -160,28 +462,128 @@ export function createDatabase(
     persistIntervalMs,
     linkExpiryMs,
     conversationMaxMessages = 10,
+    conversationMaxAgeDays,
     leaderboardRetentionDays = 30,
     cleanupIntervalMs = 24 * 60 * 60 * 1000, // 24 hours
     chatBufferMaxAgeMs = 24 * 60 * 60 * 1000, // 24 hours — matches MAX_HOURS in summary handler
+    searchHistoryDays = 7,
+    searchHistoryMaxMessages = 2000,
     maxMemoriesPerUser = 50,
     memoryDecayDays = 30,
+    shortLinkRetentionDays = 30,
+    backend = 'json',
+    backupIntervalMs = 24 * 60 * 60 * 1000, // 24 hours
+    backupMaxCount = 14,
+    backupMaxAgeDays = 30,
   } = config;
-
-  const filePath = path.join(dataDir, 'database.json');
+  const backupDir = getBackupDir(dataDir);
+  const archiveDir = getArchiveDir(dataDir);
+  const writeDelayMs = config.writeDelayMs ?? (backend === 'sqlite' ? 1000 : 0);
+
+  // Retention defaults reproduce the limits the fields above always set.
+  const day = 24 * 60 * 60 * 1000;
+  // Chat messages are kept for /buscar; /summary reads only the newest of
+  // them (see getChatMessages), so neither limit can shrink the other.
+  const chatMessageMaxAgeMs = Math.max(chatBufferMaxAgeMs, searchHistoryDays * day);
+  const chatMessageMaxPerChat = Math.max(conversationMaxMessages, searchHistoryMaxMessages);
+  const [retentionError, resolvedPolicies] = resolveRetentionPolicies([
+    {
+      collection: 'conversations',
+      maxAgeMs: conversationMaxAgeDays === undefined ? null : conversationMaxAgeDays * day,
+      maxCountPerKey: conversationMaxMessages,
+      action: 'delete',
+    },
+    { collection: 'links', maxAgeMs: null, maxCountPerKey: null, action: 'delete' },
+    { collection: 'shortLinks', maxAgeMs: shortLinkRetentionDays * day, maxCountPerKey: null, action: 'delete' },
+    { collection: 'mediaFingerprints', maxAgeMs: null, maxCountPerKey: null, action: 'delete' },
+    { collection: 'duylhouIncidents', maxAgeMs: leaderboardRetentionDays * day, maxCountPerKey: null, action: 'delete' },
+    { collection: 'duylhouLeaderboard', maxAgeMs: leaderboardRetentionDays * day, maxCountPerKey: null, action: 'delete' },
+    { collection: 'rateLimits', maxAgeMs: null, maxCountPerKey: null, action: 'delete' },
+    { collection: 'chatMessages', maxAgeMs: chatMessageMaxAgeMs, maxCountPerKey: chatMessageMaxPerChat, action: 'delete' },
+    { collection: 'userMemories', maxAgeMs: memoryDecayDays * day, maxCountPerKey: maxMemoriesPerUser, action: 'delete' },
+    { collection: 'summaries', maxAgeMs: null, maxCountPerKey: null, action: 'delete' },
+  ], config.retention);
+  if (retentionError || !resolvedPolicies) return [retentionError, null];
+  const retentionPolicies: RetentionPolicy[] = resolvedPolicies;
+
+  let storage: DatabaseStorage;
+  if (backend === 'sqlite') {
+    const [storageError, sqlite] = createSqliteStorage(path.join(dataDir, 'database.sqlite'));
+    if (storageError || !sqlite) return [storageError, null];
+    storage = sqlite;
+  } else {
+    storage = createJsonStorage(dataDir);
+  }
+  const journal = config.journal === false ? null : createJournal(path.join(dataDir, 'database.journal'));
 
   // In-memory state
   let schema: DatabaseSchema = createEmptySchema();
   let initialized = false;
   let dirty = false;  // Track if we need to persist
   let persistTimer: NodeJS.Timeout | null = null;
+  let writeTimer: NodeJS.Timeout | null = null;
+  let initError: AppError | null = null;
+  let replayAt: number | null = null;
+  let operationAt: number | null = null;
+  let backupTimer: NodeJS.Timeout | null = null;
+  let restoring = false;
   let cleanupTimer: NodeJS.Timeout | null = null;
   let locked = false;
   let initPromise: Promise<void> | null = null;
   let lastCleanup: number | null = null;
+  let lastCleanupResult: CleanupResult | null = null;
 
   // Indexes for fast lookups (built from schema)
   const indexes: IndexManager = createIndexManager();
 
+  // What each retention policy operates on.  Expiry stored on the record
+  // itself (links, fingerprints, emptied rate-limit windows) always applies.
+  const retentionStores: { [K in RetentionCollection]: RetentionStore<DatabaseSchema[K][number]> } = {
+    conversations: listMapStore(indexes.conversations, {
+      timestamp: (record) => record.createdAt,
+      groupKey: (record) => `${record.userId}:${record.chatId}`,
+    }),
+    links: mapStore(indexes.links, {
+      timestamp: (record) => record.createdAt,
+      groupKey: (record) => record.chatId,
+      isExpired: (record, now) => record.expiresAt <= now,
+    }),
+    shortLinks: mapStore(indexes.shortLinks, {
+      timestamp: (record) => record.resolvedAt,
+      groupKey: (record) => record.shortUrl,
+    }),
+    mediaFingerprints: mapStore(indexes.mediaFingerprints, {
+      timestamp: (record) => record.createdAt,
+      groupKey: (record) => record.chatId,
+      isExpired: (record, now) => record.expiresAt <= now,
+    }),
+    duylhouIncidents: mapStore(indexes.duylhouIncidents, {
+      timestamp: (record) => monthEnd(record.month),
+      groupKey: (record) => record.chatId,
+    }),
+    duylhouLeaderboard: mapStore(indexes.duylhouLeaderboard, {
+      timestamp: (record) => monthEnd(record.month),
+      groupKey: (record) => `${record.chatId}:${record.userId}`,
+    }),
+    rateLimits: mapStore(indexes.rateLimits, {
+      timestamp: (record) => record.timestamps[record.timestamps.length - 1] ?? 0,
+      groupKey: (record) => record.userId,
+      isExpired: (record) => record.timestamps.length === 0,
+    }),
+    chatMessages: listMapStore(indexes.chatMessages, {
+      timestamp: (record) => record.createdAt,
+      groupKey: (record) => record.chatId,
+    }, (record) => unindexChatMessageTerms(indexes, record)),
+    userMemories: listMapStore(indexes.userMemories, {
+      timestamp: (record) => record.lastAccessedAt,
+      groupKey: (record) => record.userId,
+    }),
+    summaries: mapStore(indexes.summaries, {
+      timestamp: (record) => record.createdAt,
+      groupKey: (record) => record.chatId,
+    }),
+  };
+
   /**
    * Acquires lock for write operations
    */
@@ -206,7 +608,7 @@ export function createDatabase(
     if (initialized) return null;
     if (initPromise) {
       await initPromise;
-      return null;
+      return initError;
     }
 
     initPromise = (async () => {
@@ -215,34 +617,43 @@ export function createDatabase(
         auditLog.record(DB_ERROR_CODES.INIT_FAILED, { error: e.message, dataDir });
       });
 
-      // Try to load existing data
-      const loadResult = await fs.readFile(filePath, 'utf-8')
-        .then((data): [null, string] => [null, data])
-        .catch((): [null, null] => [null, null]);
-
-      if (loadResult[1]) {
-        const parseResult = await Promise.resolve()
-          .then(() => JSON.parse(loadResult[1]!) as DatabaseSchema)
-          .catch(() => null);
+      // Try to load existing data.  A storage that exists but cannot be read
+      // leaves the database uninitialised rather than starting fresh, so the
+      // next flush cannot overwrite the data we failed to read.
+      const [loadError, stored] = await storage.load();
+      if (loadError) {
+        initError = loadError;
+        return;
+      }
 
-        if (parseResult && parseResult.meta) {
-          schema = parseResult;
+      if (stored) {
+        // Keep the pre-migration state around in case a migration goes wrong.
+        const fromVersion = stored.meta.version ?? 1;
+        if (needsMigration(stored)) {
+          await writeBackup(backupDir, stored, `pre-migration-v${fromVersion}`);
+        }
 
-          // Forward-migration: seed any fields that did not exist at v1.
-          applyMigrations(schema);
+        const [migrationError, report] = migrateSchema(stored);
+        if (migrationError || !report) {
+          auditLog.record(migrationError!.code, { error: migrationError!.message, filePath: storage.filePath });
+          initError = migrationError;
+          return;
+        }
+        schema = stored;
 
-          auditLog.trace(`Database loaded: ${schema.conversations.length} conversations, ${schema.links.length} links, ${schema.userMemories?.length || 0} memories`);
-        } else {
-          auditLog.trace('Database file invalid, starting fresh');
-          schema = createEmptySchema();
+        if (report.steps.length > 0) {
+          auditLog.trace(`Database migrated from v${report.fromVersion} to v${report.toVersion}`);
+          dirty = true;  // persist the new version
         }
+
+        auditLog.trace(`Database loaded (${storage.kind}): ${schema.conversations.length} conversations, ${schema.links.length} links, ${schema.userMemories?.length || 0} memories`);
       } else {
-        auditLog.trace('No database file found, starting fresh');
         schema = createEmptySchema();
       }
 
       rebuildAllIndexes(indexes, schema);
       initialized = true;
+      replayJournal();
 
       // Start periodic persist timer
       persistTimer = setInterval(() => {
@@ -254,36 +665,95 @@ export function createDatabase(
 
       // Start periodic cleanup timer (daily by default)
       cleanupTimer = setInterval(() => {
-        runCleanup();
+        if (!restoring) database.runCleanup();
       }, cleanupIntervalMs);
       cleanupTimer.unref();
 
       // Run initial cleanup on startup
-      runCleanup();
+      database.runCleanup();
+
+      // Periodic snapshots in <dataDir>/backups
+      if (backupIntervalMs > 0) {
+        backupTimer = setInterval(() => {
+          if (!restoring) createBackup().catch(() => { });
+        }, backupIntervalMs);
+        backupTimer.unref();
+      }
 
     })();
 
     await initPromise;
-    return null;
+    return initError;
   }
 
   /**
-   * Marks data as dirty (needs persist)
+   * Marks data as dirty (needs persist).  With a write delay configured,
+   * also schedules a flush shortly after the first change of a burst.
    */
   function markDirty(): void {
     dirty = true;
+
+    if (writeDelayMs > 0 && !writeTimer) {
+      writeTimer = setTimeout(() => {
+        writeTimer = null;
+        flush().catch(() => { });
+      }, writeDelayMs);
+      writeTimer.unref();
+    }
   }
 
   /**
-   * Persists current state to disk using an atomic write pattern:
-   *   1. Serialise into a temporary file next to the real one.
-   *   2. `rename` it over the real file.
-   *
-   * `rename` within the same filesystem is atomic on every major OS, so a
-   * crash between step 1 and step 2 leaves the previous valid file intact.
+   * Re-applies the journaled operations the loaded snapshot does not contain
+   * yet, with the clock pinned to each entry's original time so IDs,
+   * timestamps and expiries come out exactly as they did before the crash.
+   * Opens the journal for appending as a side effect.
+   */
+  function replayJournal(): void {
+    if (!journal) return;
+
+    // On an open error the entries read so far are still replayed; new
+    // operations just are not journaled until the next start.
+    const [, entries] = journal.open(schema.meta.journalSeq);
+    let replayed = 0;
+
+    for (const entry of entries) {
+      if (entry.seq <= schema.meta.journalSeq) continue;
+
+      const operation = operations.get(entry.op);
+      if (!operation) {
+        auditLog.record(DB_ERROR_CODES.JOURNAL_FAILED, { error: `Unknown journal operation: ${entry.op}`, seq: entry.seq });
+        continue;
+      }
+
+      replayAt = entry.at;
+      try {
+        // JSON turns an `undefined` argument into `null`; no journaled
+        // method takes `null` positionally, so map it back and optional
+        // parameters get their defaults again.
+        operation(...entry.args.map((arg) => arg ?? undefined));
+        replayed++;
+      } catch (e) {
+        auditLog.record(DB_ERROR_CODES.JOURNAL_FAILED, { error: (e as Error).message, op: entry.op, seq: entry.seq });
+      } finally {
+        replayAt = null;
+      }
+    }
+
+    if (replayed > 0) {
+      markDirty();
+      auditLog.trace(`Journal replayed: ${replayed} operations since the last flush`);
+    }
+  }
+
+  /**
+   * Persists current state through the storage backend.
    */
   async function flush(): Promise<AppError | null> {
-    if (!initialized || !dirty) return null;
+    if (!initialized) return null;
+    if (!dirty) {
+      await truncateCleanJournal();
+      return null;
+    }
 
     await acquireLock();
 
@@ -291,37 +761,49 @@ export function createDatabase(
     rebuildFromIndexes(indexes, schema);
     // todos lives directly on schema (no separate index) — already up to date.
     schema.meta.lastSaved = Date.now();
+    const mark = journal?.checkpoint();
+    if (mark) schema.meta.journalSeq = mark.seq;
 
-    const tmpPath = filePath + '.tmp';
-
-    const result = await fs.writeFile(tmpPath, JSON.stringify(schema, null, 2), 'utf-8')
-      .then(() => fs.rename(tmpPath, filePath))   // atomic swap
-      .then(() => {
-        dirty = false;
-        return null;
-      })
-      .catch((e: Error) => {
-        // Best-effort cleanup of the tmp file so it does not linger.
-        fs.unlink(tmpPath).catch(() => { });
-
-        const error = createDbError(
-          DB_ERROR_CODES.PERSIST_FAILED,
-          'Failed to persist database',
-          e.message
-        );
-        auditLog.record(error.code, { error: e.message });
-        return error;
-      });
+    // Cleared before saving: changes made while the save is in flight mark
+    // the database dirty again and are picked up by the next flush.
+    dirty = false;
+    const error = await storage.save(schema);
+    if (error) dirty = true;
+    else if (mark) journal!.truncate(mark);
 
     releaseLock();
-    return result;
+    return error;
+  }
+
+  /**
+   * Drops journal entries when nothing is dirty.  Every journaled
+   * operation marks the database dirty when it changes something, so the
+   * entries left are no-ops (mostly the periodic cleanup) that the
+   * snapshot on disk already reflects.  Taken under the save lock: a save
+   * in flight that fails still needs its entries.
+   */
+  async function truncateCleanJournal(): Promise<void> {
+    if (!journal || journal.checkpoint().offset === 0) return;
+
+    await acquireLock();
+    if (!dirty) journal.truncate(journal.checkpoint());
+    releaseLock();
+  }
+
+  /**
+   * Current time for every read of the clock in this module.  While the
+   * journal is replayed it returns the replayed operation's original time;
+   * during a live journaled operation, the time written to its entry.
+   */
+  function clock(): number {
+    return replayAt ?? operationAt ?? Date.now();
   }
 
   /**
    * Returns current timestamp
    */
   function now(): number {
-    return Date.now();
+    return clock();
   }
 
   // =========================================================================
@@ -373,7 +855,7 @@ export function createDatabase(
     const fullRecord: ConversationRecord = {
       ...record,
       id: schema.meta.conversationNextId++,
-      createdAt: Date.now(),
+      createdAt: clock(),
     };
 
     const key = `${record.userId}:${record.chatId}`;
@@ -423,6 +905,21 @@ export function createDatabase(
   // Links (Duylhou feature)
   // =========================================================================
 
+  /**
+   * Duylhou window of a chat: its configured `expiryMs`, else {@link linkExpiryMs}.
+   */
+  function expiryFor(chatId: number): number {
+    return indexes.duylhouSettings.get(chatId)?.expiryMs ?? linkExpiryMs;
+  }
+
+  /**
+   * A link/media record is live while both its stored expiry and the chat's
+   * *current* window allow it — so shortening the window applies at once.
+   */
+  function isLive(record: { chatId: number; createdAt: number; expiresAt: number }, now: number): boolean {
+    return record.expiresAt > now && record.createdAt + expiryFor(record.chatId) > now;
+  }
+
   /**
    * Looks up a non-expired link by its normalised URL within a chat.
    * Lazily evicts the record from the index when it has expired.
@@ -437,7 +934,7 @@ export function createDatabase(
     const key = `${normalizedUrl}:${chatId}`;
     const record = indexes.links.get(key);
 
-    if (record && record.expiresAt > Date.now()) {
+    if (record && isLive(record, clock())) {
       return record;
     }
 
@@ -452,7 +949,7 @@ export function createDatabase(
 
   /**
    * Registers a new link in the index.  The expiry timestamp is set
-   * automatically from the configured {@link linkExpiryMs}.
+   * automatically from the chat's window (default {@link linkExpiryMs}).
    *
    * @param record - All fields except auto-generated `id`, `createdAt`, `expiresAt`.
    * @returns The fully-populated record.
@@ -460,12 +957,12 @@ export function createDatabase(
   function addLink(
     record: Omit<LinkRecord, 'id' | 'createdAt' | 'expiresAt'>
   ): LinkRecord {
-    const now = Date.now();
+    const now = clock();
     const fullRecord: LinkRecord = {
       ...record,
       id: schema.meta.linkNextId++,
       createdAt: now,
-      expiresAt: now + linkExpiryMs,
+      expiresAt: now + expiryFor(record.chatId),
     };
 
     indexes.links.set(`${record.normalizedUrl}:${record.chatId}`, fullRecord);
@@ -481,7 +978,7 @@ export function createDatabase(
    * @returns Number of links evicted.
    */
   function cleanupExpiredLinks(): number {
-    const now = Date.now();
+    const now = clock();
     let count = 0;
 
     for (const [key, record] of indexes.links.entries()) {
@@ -499,15 +996,138 @@ export function createDatabase(
     return count;
   }
 
+  // =========================================================================
+  // Short link cache (Duylhou feature)
+  // =========================================================================
+
+  /**
+   * Returns the cached expansion of a short link.
+   *
+   * @param shortUrl - Key produced by {@link shortLinkKey}.
+   */
+  function getShortLink(shortUrl: string): ShortLinkRecord | null {
+    if (!initialized) return null;
+    return indexes.shortLinks.get(shortUrl) ?? null;
+  }
+
+  /**
+   * Caches a short link's expansion (overwriting any previous entry).
+   *
+   * @param shortUrl    - Key produced by {@link shortLinkKey}.
+   * @param resolvedUrl - Final URL after following redirects.
+   */
+  function setShortLink(shortUrl: string, resolvedUrl: string): ShortLinkRecord {
+    const record: ShortLinkRecord = { shortUrl, resolvedUrl, resolvedAt: clock() };
+    indexes.shortLinks.set(shortUrl, record);
+    markDirty();
+    return record;
+  }
+
+  // =========================================================================
+  // Media fingerprints (Duylhou feature)
+  // =========================================================================
+
+  /**
+   * Looks up a previously posted photo/video in a chat.  An exact
+   * `file_unique_id` match wins; otherwise, when a perceptual hash is given,
+   * the closest non-expired fingerprint within `maxDistance` bits is returned.
+   * Near-blank hashes on either side never match perceptually: every flat
+   * frame hashes alike.
+   *
+   * @param chatId         - Telegram chat ID.
+   * @param fileUniqueId   - Telegram `file_unique_id` of the new media.
+   * @param perceptualHash - dHash of the new media (optional).
+   * @param maxDistance    - Maximum Hamming distance for a perceptual match.  Default 5.
+   * @returns The matching record, or `null` when nothing similar is stored.
+   */
+  function findMediaFingerprint(
+    chatId: number,
+    fileUniqueId: string,
+    perceptualHash?: string | null,
+    maxDistance: number = 5,
+  ): MediaFingerprintRecord | null {
+    if (!initialized) return null;
+
+    const now = clock();
+    const exact = indexes.mediaFingerprints.get(`${fileUniqueId}:${chatId}`);
+    if (exact && isLive(exact, now)) return exact;
+
+    if (!perceptualHash || !isDistinctiveHash(perceptualHash)) return null;
+
+    let best: MediaFingerprintRecord | null = null;
+    let bestDistance = maxDistance + 1;
+
+    for (const record of indexes.mediaFingerprints.values()) {
+      if (record.chatId !== chatId || !record.perceptualHash || !isLive(record, now)) continue;
+      if (!isDistinctiveHash(record.perceptualHash)) continue;
+
+      const distance = hammingDistance(record.perceptualHash, perceptualHash);
+      if (distance < bestDistance) {
+        best = record;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Stores a media fingerprint.  Expiry follows the chat's window so media
+   * and links share the same Duylhou window.
+   *
+   * @param record - All fields except auto-generated `id`, `createdAt`, `expiresAt`.
+   * @returns The fully-populated record.
+   */
+  function addMediaFingerprint(
+    record: Omit<MediaFingerprintRecord, 'id' | 'createdAt' | 'expiresAt'>
+  ): MediaFingerprintRecord {
+    const now = clock();
+    const fullRecord: MediaFingerprintRecord = {
+      ...record,
+      id: schema.meta.mediaFingerprintNextId++,
+      createdAt: now,
+      expiresAt: now + expiryFor(record.chatId),
+    };
+
+    indexes.mediaFingerprints.set(`${record.fileUniqueId}:${record.chatId}`, fullRecord);
+
+    markDirty();
+    return fullRecord;
+  }
+
+  /**
+   * Removes every media fingerprint whose `expiresAt` is in the past.
+   *
+   * @returns Number of fingerprints evicted.
+   */
+  function cleanupExpiredMediaFingerprints(): number {
+    const now = clock();
+    let count = 0;
+
+    for (const [key, record] of indexes.mediaFingerprints.entries()) {
+      if (record.expiresAt <= now) {
+        indexes.mediaFingerprints.delete(key);
+        count++;
+      }
+    }
+
+    if (count > 0) {
+      markDirty();
+      auditLog.trace(`Cleaned up ${count} expired media fingerprints`);
+    }
+
+    return count;
+  }
+
   // =========================================================================
   // Duylhou Incidents & Leaderboard
   // =========================================================================
 
   /**
-   * Gets the current month in YYYY-MM format
+   * Gets the current month in YYYY-MM format, in São Paulo time
    */
   function getCurrentMonth(): string {
-    return formatMonth(new Date());
+    return formatMonth(new Date(clock()));
   }
 
   /**
@@ -520,9 +1140,10 @@ export function createDatabase(
     offenderId: number,
     originalUserId: number,
     chatId: number,
-    normalizedUrl: string
+    normalizedUrl: string,
+    originalPostedAt?: number,
   ): DuylhouIncident {
-    const now = Date.now();
+    const now = clock();
     const month = getCurrentMonth();
 
     const incident: DuylhouIncident = {
@@ -534,12 +1155,13 @@ export function createDatabase(
       createdAt: now,
       month,
     };
+    if (originalPostedAt !== undefined) incident.originalPostedAt = originalPostedAt;
 
     // Write to index (source of truth for flush)
     indexes.duylhouIncidents.set(incident.id, incident);
 
-    // Update leaderboard
-    const leaderboardKey = `${offenderId}:${month}`;
+    // Update the per-chat leaderboard
+    const leaderboardKey = `${chatId}:${offenderId}:${month}`;
     let entry = indexes.duylhouLeaderboard.get(leaderboardKey);
 
     if (entry) {
@@ -548,6 +1170,7 @@ export function createDatabase(
     } else {
       entry = {
         userId: offenderId,
+        chatId,
         month,
         count: 1,
         lastIncidentAt: now,
@@ -556,11 +1179,62 @@ export function createDatabase(
     }
 
     markDirty();
-    auditLog.trace(`Duylhou incident recorded: user ${offenderId} now has ${entry.count} incidents in ${month}`);
+    auditLog.trace(`Duylhou incident recorded: user ${offenderId} now has ${entry.count} incidents in ${month} (chat ${chatId})`);
 
     return incident;
   }
 
+  /**
+   * Returns a stored incident by ID, or `null` when it does not exist
+   * (never recorded, removed by an appeal, or cleaned up).
+   *
+   * @param id - Incident ID.
+   */
+  function getDuylhouIncident(id: number): DuylhouIncident | null {
+    return indexes.duylhouIncidents.get(id) ?? null;
+  }
+
+  /**
+   * Removes an incident (e.g. forgiven by an appeal) and decrements the
+   * matching per-chat leaderboard entry.  The entry is dropped when its
+   * count reaches zero; otherwise `lastIncidentAt` is recomputed from the
+   * remaining incidents when any are still stored.
+   *
+   * @param id - Incident ID.
+   * @returns `true` when the incident existed and was removed.
+   */
+  function removeDuylhouIncident(id: number): boolean {
+    const incident = indexes.duylhouIncidents.get(id);
+    if (!incident) return false;
+
+    indexes.duylhouIncidents.delete(id);
+
+    const leaderboardKey = `${incident.chatId}:${incident.offenderId}:${incident.month}`;
+    const entry = indexes.duylhouLeaderboard.get(leaderboardKey);
+    if (entry) {
+      entry.count--;
+      if (entry.count <= 0) {
+        indexes.duylhouLeaderboard.delete(leaderboardKey);
+      } else {
+        let latest = 0;
+        for (const other of indexes.duylhouIncidents.values()) {
+          if (
+            other.chatId === incident.chatId &&
+            other.offenderId === incident.offenderId &&
+            other.month === incident.month
+          ) {
+            latest = Math.max(latest, other.createdAt);
+          }
+        }
+        if (latest > 0) entry.lastIncidentAt = latest;
+      }
+    }
+
+    markDirty();
+    auditLog.trace(`Duylhou incident #${id} removed (user ${incident.offenderId}, ${incident.month})`);
+    return true;
+  }
+
   /**
    * Assigns dense ranks to a sorted array of leaderboard entries.
    * Entries with the same `count` receive the same rank; the next
@@ -591,45 +1265,99 @@ export function createDatabase(
     return rankings;
   }
 
+  /**
+   * Merges per-chat leaderboard entries into one entry per user by summing
+   * counts and keeping the most recent `lastIncidentAt`.  Used for the
+   * global (cross-chat) and all-time views.
+   *
+   * @param entries - Entries to merge (any mix of chats and months).
+   * @returns One entry per user, unsorted.
+   */
+  function aggregateByUser(entries: DuylhouLeaderboardEntry[]): DuylhouLeaderboardEntry[] {
+    const totals = new Map<number, DuylhouLeaderboardEntry>();
+
+    for (const entry of entries) {
+      const total = totals.get(entry.userId);
+      if (total) {
+        total.count += entry.count;
+        total.lastIncidentAt = Math.max(total.lastIncidentAt, entry.lastIncidentAt);
+      } else {
+        totals.set(entry.userId, { ...entry });
+      }
+    }
+
+    return Array.from(totals.values());
+  }
+
+  /**
+   * Sorts leaderboard entries by incident count descending; ties are broken
+   * by earliest last-incident timestamp (earlier = higher rank).
+   */
+  function sortLeaderboard(entries: DuylhouLeaderboardEntry[]): DuylhouLeaderboardEntry[] {
+    return entries.sort((a, b) => {
+      if (b.count !== a.count) return b.count - a.count;
+      return a.lastIncidentAt - b.lastIncidentAt;
+    });
+  }
+
   /**
    * Gets the leaderboard for a given month (defaults to current month).
    * Entries are sorted by incident count descending; ties are broken by
    * earliest last-incident timestamp (earlier = higher rank).
    *
-   * @param month - Target month in YYYY-MM format, or undefined for current.
-   * @param limit - Maximum entries to return (default 10).
+   * @param month  - Target month in YYYY-MM format, or undefined for current.
+   * @param limit  - Maximum entries to return (default 10).
+   * @param chatId - Restrict to one chat.  Omit for the global view, which
+   *                 sums each user's incidents across every chat.
    * @returns Ranked leaderboard slice.
    */
-  function getDuylhouLeaderboard(month?: string, limit: number = 10): LeaderboardRanking[] {
+  function getDuylhouLeaderboard(month?: string, limit: number = 10, chatId?: number): LeaderboardRanking[] {
     const targetMonth = month || getCurrentMonth();
 
     const entries: DuylhouLeaderboardEntry[] = [];
     for (const entry of indexes.duylhouLeaderboard.values()) {
-      if (entry.month === targetMonth) {
-        entries.push(entry);
-      }
+      if (entry.month !== targetMonth) continue;
+      if (chatId !== undefined && entry.chatId !== chatId) continue;
+      entries.push(entry);
     }
 
-    entries.sort((a, b) => {
-      if (b.count !== a.count) return b.count - a.count;
-      return a.lastIncidentAt - b.lastIncidentAt;
-    });
+    return assignRanks(sortLeaderboard(aggregateByUser(entries)), limit);
+  }
 
-    return assignRanks(entries, limit);
+  /**
+   * Gets the all-time leaderboard by summing every retained month per user.
+   * `lastIncidentAt` is the most recent incident across all months.
+   * Only months still inside the retention window contribute.
+   *
+   * @param limit  - Maximum entries to return (default 10).
+   * @param chatId - Restrict to one chat.  Omit for the global view.
+   * @returns Ranked leaderboard slice.
+   */
+  function getDuylhouAllTimeLeaderboard(limit: number = 10, chatId?: number): LeaderboardRanking[] {
+    const entries: DuylhouLeaderboardEntry[] = [];
+    for (const entry of indexes.duylhouLeaderboard.values()) {
+      if (chatId !== undefined && entry.chatId !== chatId) continue;
+      entries.push(entry);
+    }
+
+    return assignRanks(sortLeaderboard(aggregateByUser(entries)), limit);
   }
 
   /**
    * Cleans up old incidents (keeps only specified months).
    * Operates on {@link duylhouIncidentIndex} — the single source of truth.
+   *
+   * @param monthsToKeep - Number of past months to retain besides the current one.
+   * @param chatId       - Only clean this chat.  Omit to clean every chat.
+   * @returns Number of incidents removed.
    */
-  function cleanupOldIncidents(monthsToKeep: number = 2): number {
-    const now = new Date();
-    const cutoffDate = new Date(now.getFullYear(), now.getMonth() - monthsToKeep, 1);
-    const cutoffMonth = formatMonth(cutoffDate);
+  function cleanupOldIncidents(monthsToKeep: number = 2, chatId?: number): number {
+    const cutoffMonth = monthsBefore(getCurrentMonth(), monthsToKeep);
 
     // Remove old incidents from the index
     let incidentsRemoved = 0;
     for (const [id, incident] of indexes.duylhouIncidents.entries()) {
+      if (chatId !== undefined && incident.chatId !== chatId) continue;
       if (incident.month < cutoffMonth) {
         indexes.duylhouIncidents.delete(id);
         incidentsRemoved++;
@@ -639,6 +1367,7 @@ export function createDatabase(
     // Remove old leaderboard entries
     let leaderboardRemoved = 0;
     for (const [key, entry] of indexes.duylhouLeaderboard.entries()) {
+      if (chatId !== undefined && entry.chatId !== chatId) continue;
       if (entry.month < cutoffMonth) {
         indexes.duylhouLeaderboard.delete(key);
         leaderboardRemoved++;
@@ -647,12 +1376,294 @@ export function createDatabase(
 
     if (incidentsRemoved > 0 || leaderboardRemoved > 0) {
       markDirty();
-      auditLog.trace(`Cleaned up ${incidentsRemoved} old incidents and ${leaderboardRemoved} leaderboard entries`);
+      const scope = chatId !== undefined ? ` in chat ${chatId}` : '';
+      auditLog.trace(`Cleaned up ${incidentsRemoved} old incidents and ${leaderboardRemoved} leaderboard entries${scope}`);
     }
 
     return incidentsRemoved;
   }
 
+  // =========================================================================
+  // Duylhou Statistics
+  // =========================================================================
+
+  /**
+   * Incidents of one month, optionally restricted to a chat.
+   */
+  function incidentsFor(month?: string, chatId?: number): DuylhouIncident[] {
+    const targetMonth = month || getCurrentMonth();
+    const result: DuylhouIncident[] = [];
+    for (const incident of indexes.duylhouIncidents.values()) {
+      if (incident.month !== targetMonth) continue;
+      if (chatId !== undefined && incident.chatId !== chatId) continue;
+      result.push(incident);
+    }
+    return result;
+  }
+
+  /**
+   * Groups incidents by a key and returns the `limit` largest groups.
+   * Ties go to the group whose latest incident is older (it got there first).
+   */
+  function topGroups(
+    incidents: DuylhouIncident[],
+    keyOf: (incident: DuylhouIncident) => string,
+    limit: number,
+  ): Array<{ sample: DuylhouIncident; count: number }> {
+    const groups = new Map<string, { sample: DuylhouIncident; count: number; lastAt: number }>();
+    for (const incident of incidents) {
+      const key = keyOf(incident);
+      const group = groups.get(key);
+      if (group) {
+        group.count++;
+        group.lastAt = Math.max(group.lastAt, incident.createdAt);
+      } else {
+        groups.set(key, { sample: incident, count: 1, lastAt: incident.createdAt });
+      }
+    }
+
+    return Array.from(groups.values())
+      .sort((a, b) => b.count - a.count || a.lastAt - b.lastAt)
+      .slice(0, limit);
+  }
+
+  /**
+   * Number of incidents in the month.
+   */
+  function getDuylhouIncidentCount(month?: string, chatId?: number): number {
+    return incidentsFor(month, chatId).length;
+  }
+
+  /**
+   * URLs duplicated most often in the month.
+   *
+   * @param month  - YYYY-MM, default current month.
+   * @param limit  - Maximum entries (default 5).
+   * @param chatId - Restrict to one chat.  Omit for every chat.
+   */
+  function getTopDuplicatedUrls(month?: string, limit: number = 5, chatId?: number): DuplicatedUrlStat[] {
+    return topGroups(incidentsFor(month, chatId), (i) => i.normalizedUrl, limit)
+      .map(({ sample, count }) => ({ normalizedUrl: sample.normalizedUrl, count }));
+  }
+
+  /**
+   * Users whose posts were duplicated most often in the month.
+   */
+  function getTopDuylhouVictims(month?: string, limit: number = 5, chatId?: number): DuylhouVictimStat[] {
+    return topGroups(incidentsFor(month, chatId), (i) => String(i.originalUserId), limit)
+      .map(({ sample, count }) => ({ userId: sample.originalUserId, count }));
+  }
+
+  /**
+   * Offender → original-poster pairs that repeated most often in the month.
+   */
+  function getTopDuylhouPairs(month?: string, limit: number = 5, chatId?: number): DuylhouPairStat[] {
+    return topGroups(incidentsFor(month, chatId), (i) => `${i.offenderId}:${i.originalUserId}`, limit)
+      .map(({ sample, count }) => ({ offenderId: sample.offenderId, originalUserId: sample.originalUserId, count }));
+  }
+
+  /**
+   * Median time between the original post and the duplicate.  Incidents
+   * recorded before `originalPostedAt` existed are skipped.
+   */
+  function getMedianRepostDelay(month?: string, chatId?: number): RepostDelayStat {
+    const delays = incidentsFor(month, chatId)
+      .filter((i) => i.originalPostedAt !== undefined)
+      .map((i) => Math.max(0, i.createdAt - i.originalPostedAt!))
+      .sort((a, b) => a - b);
+
+    if (delays.length === 0) return { medianMs: null, samples: 0 };
+
+    const mid = Math.floor(delays.length / 2);
+    const medianMs = delays.length % 2 === 1
+      ? delays[mid]
+      : Math.round((delays[mid - 1] + delays[mid]) / 2);
+
+    return { medianMs, samples: delays.length };
+  }
+
+  // =========================================================================
+  // Duylhou Awards
+  // =========================================================================
+
+  /**
+   * Returns the award post already sent for a month in a chat, or `null`
+   * when the award has not been posted yet.
+   *
+   * @param month  - Awarded month in YYYY-MM format.
+   * @param chatId - Telegram chat ID.
+   */
+  function getDuylhouAward(month: string, chatId: number): DuylhouAwardRecord | null {
+    return indexes.duylhouAwards.get(`${month}:${chatId}`) ?? null;
+  }
+
+  /**
+   * Records that the award for a month was posted to a chat.
+   * Award records are tiny and kept indefinitely as a hall of fame.
+   *
+   * @param record - All fields except the auto-generated `sentAt`.
+   * @returns The persisted record.
+   */
+  function recordDuylhouAward(record: Omit<DuylhouAwardRecord, 'sentAt'>): DuylhouAwardRecord {
+    const full: DuylhouAwardRecord = { ...record, sentAt: clock() };
+    indexes.duylhouAwards.set(`${record.month}:${record.chatId}`, full);
+    markDirty();
+    auditLog.trace(`Duylhou award for ${record.month} recorded in chat ${record.chatId}`);
+    return full;
+  }
+
+  // =========================================================================
+  // Duylhou Settings (per chat)
+  // =========================================================================
+
+  /**
+   * Returns a chat's settings, or the defaults when it was never configured.
+   * The returned object is a copy — change settings via {@link updateDuylhouSettings}.
+   */
+  function getDuylhouSettings(chatId: number): DuylhouChatSettings {
+    const stored = indexes.duylhouSettings.get(chatId);
+    if (stored) {
+      return { ...stored, exemptDomains: [...stored.exemptDomains], exemptUserIds: [...stored.exemptUserIds] };
+    }
+    return { ...DEFAULT_DUYLHOU_SETTINGS, chatId, exemptDomains: [], exemptUserIds: [], updatedAt: 0, updatedBy: 0 };
+  }
+
+  /**
+   * Applies a partial update to a chat's settings (creating the record on
+   * first change).
+   *
+   * @param chatId    - Telegram chat ID.
+   * @param updates   - Fields to change.
+   * @param updatedBy - Admin making the change.
+   * @returns The stored settings.
+   */
+  function updateDuylhouSettings(
+    chatId: number,
+    updates: Partial<Pick<DuylhouChatSettings, 'enabled' | 'expiryMs' | 'exemptDomains' | 'exemptUserIds' | 'stickerSetName'>>,
+    updatedBy: number,
+  ): DuylhouChatSettings {
+    const settings: DuylhouChatSettings = {
+      ...getDuylhouSettings(chatId),
+      ...updates,
+      updatedAt: clock(),
+      updatedBy,
+    };
+
+    indexes.duylhouSettings.set(chatId, settings);
+    markDirty();
+    auditLog.trace(`Duylhou settings for chat ${chatId} updated by ${updatedBy}: ${Object.keys(updates).join(', ')}`);
+    return getDuylhouSettings(chatId);
+  }
+
+  // =========================================================================
+  // Duylhou Appeals
+  // =========================================================================
+
+  /**
+   * Opens an appeal against an incident.  The incident's offender, original
+   * poster and URL are copied onto the record so the appeal stays readable
+   * after the incident is removed.
+   *
+   * @param record - Incident ID, the requesting user and the closing time.
+   * @returns `[null, appeal]`, or `[AppError, null]` when the incident does
+   *          not exist or already has an appeal.
+   */
+  function createDuylhouAppeal(
+    record: Pick<DuylhouAppealRecord, 'incidentId' | 'requestedBy' | 'closesAt'>,
+  ): [AppError | null, DuylhouAppealRecord | null] {
+    const incident = indexes.duylhouIncidents.get(record.incidentId);
+    if (!incident) {
+      return [createDbError(DB_ERROR_CODES.QUERY_FAILED, 'Incident not found'), null];
+    }
+    if (getDuylhouAppealByIncident(record.incidentId)) {
+      return [createDbError(DB_ERROR_CODES.INVALID_DATA, 'Incident already appealed'), null];
+    }
+
+    const appeal: DuylhouAppealRecord = {
+      id: schema.meta.duylhouAppealNextId++,
+      incidentId: incident.id,
+      chatId: incident.chatId,
+      offenderId: incident.offenderId,
+      originalUserId: incident.originalUserId,
+      normalizedUrl: incident.normalizedUrl,
+      requestedBy: record.requestedBy,
+      messageId: 0,
+      votes: [],
+      status: 'open',
+      createdAt: clock(),
+      closesAt: record.closesAt,
+      resolvedAt: null,
+    };
+
+    indexes.duylhouAppeals.set(appeal.id, appeal);
+    markDirty();
+    auditLog.trace(`Duylhou appeal #${appeal.id} opened for incident #${incident.id}`);
+    return [null, appeal];
+  }
+
+  /**
+   * Returns an appeal by ID, or `null` when absent.
+   *
+   * @param id - Appeal ID.
+   */
+  function getDuylhouAppeal(id: number): DuylhouAppealRecord | null {
+    return indexes.duylhouAppeals.get(id) ?? null;
+  }
+
+  /**
+   * Returns the appeal filed against an incident, or `null` when none.
+   * An incident can be appealed only once.
+   *
+   * @param incidentId - Incident ID.
+   */
+  function getDuylhouAppealByIncident(incidentId: number): DuylhouAppealRecord | null {
+    for (const appeal of indexes.duylhouAppeals.values()) {
+      if (appeal.incidentId === incidentId) return appeal;
+    }
+    return null;
+  }
+
+  /**
+   * Returns every appeal still open for voting, oldest first.
+   */
+  function getOpenDuylhouAppeals(): DuylhouAppealRecord[] {
+    return Array.from(indexes.duylhouAppeals.values())
+      .filter((a) => a.status === 'open')
+      .sort((a, b) => a.closesAt - b.closesAt);
+  }
+
+  /**
+   * Applies updates to an appeal (vote message, votes, outcome).
+   *
+   * @param id      - Appeal ID.
+   * @param updates - Fields to overwrite.
+   */
+  function updateDuylhouAppeal(
+    id: number,
+    updates: Partial<Pick<DuylhouAppealRecord, 'messageId' | 'votes' | 'status' | 'resolvedAt'>>,
+  ): void {
+    const appeal = indexes.duylhouAppeals.get(id);
+    if (!appeal) return;
+
+    Object.assign(appeal, updates);
+    markDirty();
+  }
+
+  /**
+   * Deletes an appeal outright — only for one whose vote message could not
+   * be posted.  Decided appeals are kept as the record of the outcome.
+   *
+   * @param id - Appeal ID.
+   * @returns `true` when the appeal existed.
+   */
+  function deleteDuylhouAppeal(id: number): boolean {
+    if (!indexes.duylhouAppeals.delete(id)) return false;
+
+    markDirty();
+    auditLog.trace(`Duylhou appeal #${id} withdrawn`);
+    return true;
+  }
+
   // =========================================================================
   // Rate Limits
   // =========================================================================
@@ -672,7 +1683,7 @@ export function createDatabase(
   }
 
   function cleanupRateLimits(windowMs: number): number {
-    const now = Date.now();
+    const now = clock();
     const cutoff = now - windowMs;
     let count = 0;
 
@@ -705,7 +1716,7 @@ export function createDatabase(
       id: schema.meta.todoNextId++,
       text: record.text,
       user: record.user,
-      createdAt: new Date().toLocaleString('pt-BR', {
+      createdAt: new Date(clock()).toLocaleString('pt-BR', {
         timeZone: 'America/Sao_Paulo',
         day: '2-digit', month: '2-digit', year: 'numeric',
         hour: '2-digit', minute: '2-digit',
@@ -745,7 +1756,7 @@ export function createDatabase(
       rangeLabel: record.rangeLabel,
       messageCount: record.messageCount,
       summary: record.summary,
-      createdAt: Date.now(),
+      createdAt: clock(),
     };
 
     indexes.summaries.set(full.chatId, full);
@@ -769,8 +1780,8 @@ export function createDatabase(
   // =========================================================================
 
   /**
-   * Appends a raw group-chat message to the per-chat buffer and trims the
-   * list to {@link conversationMaxMessages}, removing the oldest entries.
+   * Appends a raw group-chat message to the per-chat history and trims the
+   * list to {@link searchHistoryMaxMessages}, removing the oldest entries.
    * Marks the database dirty so the next flush cycle writes it to disk.
    *
    * Returns a Result tuple so callers can handle the "not yet initialised"
@@ -793,16 +1804,18 @@ export function createDatabase(
     const fullRecord: ChatMessageRecord = {
       ...record,
       id: schema.meta.chatMessageNextId++,
-      createdAt: Date.now(),
+      createdAt: clock(),
     };
 
     const existing = indexes.chatMessages.get(record.chatId) || [];
     existing.push(fullRecord);
     indexes.chatMessages.set(record.chatId, existing);
+    indexChatMessageTerms(indexes, fullRecord);
 
     // Enforce cap — remove oldest entries that exceed the limit.
-    if (existing.length > conversationMaxMessages) {
-      existing.splice(0, existing.length - conversationMaxMessages);
+    if (existing.length > chatMessageMaxPerChat) {
+      const trimmed = existing.splice(0, existing.length - chatMessageMaxPerChat);
+      for (const old of trimmed) unindexChatMessageTerms(indexes, old);
     }
 
     markDirty();
@@ -810,9 +1823,11 @@ export function createDatabase(
   }
 
   /**
-   * Returns all buffered messages for a chat, optionally filtered to those
-   * received at or after `since` (Unix ms timestamp).  The result is always
-   * sorted oldest-first.
+   * Returns the /summary buffer of a chat: its newest
+   * {@link conversationMaxMessages} messages younger than
+   * {@link chatBufferMaxAgeMs}, optionally filtered to those received at
+   * or after `since` (Unix ms timestamp).  Older messages are kept for
+   * search only.  The result is always sorted oldest-first.
    *
    * @param chatId - The Telegram chat ID to query.
    * @param since  - Optional lower-bound timestamp (inclusive).
@@ -829,11 +1844,74 @@ export function createDatabase(
       ];
     }
 
+    const cutoff = Math.max(since ?? 0, clock() - chatBufferMaxAgeMs);
     const all = indexes.chatMessages.get(chatId) || [];
-    const filtered =
-      since !== undefined ? all.filter((m) => m.createdAt >= since) : [...all];
+    const filtered = all.filter((m) => m.createdAt >= cutoff);
 
-    return [null, filtered];
+    return [null, filtered.slice(-conversationMaxMessages)];
+  }
+
+  /**
+   * Applies an edit to a buffered message and re-indexes its terms.
+   *
+   * @param chatId    - Chat the message belongs to.
+   * @param messageId - Telegram message ID.
+   * @param text      - New text (or caption).
+   * @returns The updated record, or `null` when the message is not
+   *          buffered (never stored, trimmed, or stored without an ID).
+   */
+  function editChatMessage(chatId: number, messageId: number, text: string): ChatMessageRecord | null {
+    const record = (indexes.chatMessages.get(chatId) || []).find((m) => m.messageId === messageId);
+    if (!record) return null;
+
+    unindexChatMessageTerms(indexes, record);
+    record.text = text;
+    record.editedAt = clock();
+    indexChatMessageTerms(indexes, record);
+
+    markDirty();
+    return record;
+  }
+
+  /**
+   * Finds stored messages containing every term of `query`, using the
+   * term index (see text-search.ts for how text is tokenised).  Searches
+   * the whole history ({@link searchHistoryDays}), not just the /summary
+   * buffer.  A query with no indexable term ("a", "?") matches nothing.
+   *
+   * @param chatId  - The Telegram chat ID to search.
+   * @param query   - Free text; "acao" finds "Ação".
+   * @param options - See {@link ChatMessageSearchOptions}.
+   * @returns `[null, records]` newest-first, `[AppError, null]` when not ready.
+   */
+  function searchChatMessages(
+    chatId: number,
+    query: string,
+    options: ChatMessageSearchOptions = {},
+  ): [AppError | null, ChatMessageRecord[] | null] {
+    if (!initialized) {
+      return [
+        createDbError(DB_ERROR_CODES.QUERY_FAILED, 'Database not yet initialized'),
+        null,
+      ];
+    }
+
+    const { since, userId, limit = 20 } = options;
+    const terms = tokenizeForSearch(query);
+    if (terms.length === 0) return [null, []];
+
+    // Intersect starting from the rarest term.
+    const postings = terms.map((term) => indexes.chatMessageTerms.get(`${chatId}:${term}`));
+    if (postings.some((records) => !records)) return [null, []];
+    const [rarest, ...rest] = (postings as Set<ChatMessageRecord>[]).sort((a, b) => a.size - b.size);
+
+    const matches = Array.from(rarest)
+      .filter((record) => rest.every((records) => records.has(record)))
+      .filter((record) => since === undefined || record.createdAt >= since)
+      .filter((record) => userId === undefined || record.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt || b.id - a.id);
+
+    return [null, matches.slice(0, limit)];
   }
 
   // =========================================================================
@@ -863,7 +1941,7 @@ export function createDatabase(
   function addUserMemory(
     record: Omit<UserMemoryRecord, 'id' | 'createdAt' | 'lastAccessedAt' | 'accessCount'>,
   ): UserMemoryRecord {
-    const now = Date.now();
+    const now = clock();
     const fullRecord: UserMemoryRecord = {
       ...record,
       id: schema.meta.userMemoryNextId++,
@@ -930,7 +2008,7 @@ export function createDatabase(
     for (const memories of indexes.userMemories.values()) {
       const memory = memories.find((m) => m.id === id);
       if (memory) {
-        memory.lastAccessedAt = Date.now();
+        memory.lastAccessedAt = clock();
         memory.accessCount++;
         markDirty();
         return;
@@ -957,188 +2035,184 @@ export function createDatabase(
   }
 
   // =========================================================================
-  // Cleanup & Maintenance
+  // Data subject requests
   // =========================================================================
 
   /**
-   * Trims each per-user/chat conversation list down to
-   * {@link conversationMaxMessages}, removing the oldest entries first.
+   * Collects every record that holds the user's ID.
    *
-   * @returns Total number of records removed across all keys.
-   */
-  function cleanupConversations(): number {
-    let removed = 0;
-    for (const [, records] of indexes.conversations.entries()) {
-      if (records.length > conversationMaxMessages) {
-        const toRemove = records.length - conversationMaxMessages;
-        records.splice(0, toRemove);
-        removed += toRemove;
-      }
-    }
-    return removed;
+   * @param userId - Telegram user ID.
+   * @returns Deep copies, safe to serialise.
+   */
+  function getUserData(userId: number): UserDataExport {
+    const involves = (appeal: DuylhouAppealRecord): boolean =>
+      appeal.offenderId === userId || appeal.originalUserId === userId || appeal.requestedBy === userId
+      || appeal.votes.some((vote) => vote.userId === userId);
+
+    return structuredClone({
+      userId,
+      exportedAt: new Date(clock()).toISOString(),
+      conversations: retentionStores.conversations.records().filter((r) => r.userId === userId),
+      chatMessages: retentionStores.chatMessages.records().filter((r) => r.userId === userId),
+      userMemories: indexes.userMemories.get(userId) ?? [],
+      rateLimits: retentionStores.rateLimits.records().filter((r) => r.userId === userId),
+      links: retentionStores.links.records().filter((r) => r.userId === userId),
+      mediaFingerprints: retentionStores.mediaFingerprints.records().filter((r) => r.userId === userId),
+      duylhouIncidents: Array.from(indexes.duylhouIncidents.values())
+        .filter((r) => r.offenderId === userId || r.originalUserId === userId),
+      duylhouLeaderboard: retentionStores.duylhouLeaderboard.records().filter((r) => r.userId === userId),
+      duylhouAppeals: Array.from(indexes.duylhouAppeals.values()).filter(involves),
+      duylhouAwards: Array.from(indexes.duylhouAwards.values()).filter((r) => r.winnerUserIds.includes(userId)),
+    });
   }
 
   /**
-   * Removes buffered chat messages older than {@link chatBufferMaxAgeMs} and
-   * then re-enforces the per-chat {@link conversationMaxMessages} cap.
-   * Both conditions are checked so that a chat which suddenly goes quiet
-   * still has its old entries evicted on the next cleanup cycle.
+   * Erases a user.  Their own records are deleted; incidents, appeals and
+   * awards also concern other people and are kept with the user's ID
+   * replaced by {@link ANONYMOUS_USER_ID}.  Backups taken earlier still hold
+   * the data until they age out.
    *
-   * @returns Total number of records removed.
-   */
-  function cleanupChatMessages(): number {
-    const cutoff = Date.now() - chatBufferMaxAgeMs;
-    let removed = 0;
-
-    for (const [chatId, records] of indexes.chatMessages.entries()) {
-      // 1. Evict time-expired messages.
-      const afterExpiry = records.filter((m) => m.createdAt > cutoff);
-      removed += records.length - afterExpiry.length;
-
-      // 2. Enforce the per-chat cap on whatever is left.
-      const capped =
-        afterExpiry.length > conversationMaxMessages
-          ? afterExpiry.slice(afterExpiry.length - conversationMaxMessages)
-          : afterExpiry;
-      removed += afterExpiry.length - capped.length;
-
-      if (capped.length === 0) {
-        indexes.chatMessages.delete(chatId);
-      } else {
-        indexes.chatMessages.set(chatId, capped);
-      }
-    }
+   * @param userId - Telegram user ID.
+   */
+  function eraseUserData(userId: number): UserErasureReport {
+    const report = {} as UserErasureReport;
+    const drop = <R extends { userId: number }>(collection: UserDataCollection, store: RetentionStore<R>): void => {
+      const owned = store.records().filter((record) => record.userId === userId);
+      store.remove(new Set(owned));
+      report[collection] = { deleted: owned.length, anonymised: 0 };
+    };
 
-    return removed;
-  }
+    drop('conversations', retentionStores.conversations);
+    drop('chatMessages', retentionStores.chatMessages);
+    drop('userMemories', retentionStores.userMemories);
+    drop('rateLimits', retentionStores.rateLimits);
+    drop('links', retentionStores.links);
+    drop('mediaFingerprints', retentionStores.mediaFingerprints);
+    drop('duylhouLeaderboard', retentionStores.duylhouLeaderboard);
+
+    const anonymise = (id: number): number => (id === userId ? ANONYMOUS_USER_ID : id);
 
-  /**
-   * Removes Duylhou incidents and leaderboard entries whose month
-   * predates the retention window derived from
-   * {@link leaderboardRetentionDays}.
-   *
-   * @param cutoffMonth - YYYY-MM string; anything strictly below this is evicted.
-   * @returns Object with counts of incidents and leaderboard entries removed.
-   */
-  function cleanupIncidentsAndLeaderboard(cutoffMonth: string): { incidents: number; leaderboard: number } {
     let incidents = 0;
-    for (const [id, incident] of indexes.duylhouIncidents.entries()) {
-      if (incident.month < cutoffMonth) {
-        indexes.duylhouIncidents.delete(id);
-        incidents++;
-      }
+    for (const incident of indexes.duylhouIncidents.values()) {
+      if (incident.offenderId !== userId && incident.originalUserId !== userId) continue;
+      incident.offenderId = anonymise(incident.offenderId);
+      incident.originalUserId = anonymise(incident.originalUserId);
+      incidents++;
+    }
+    report.duylhouIncidents = { deleted: 0, anonymised: incidents };
+
+    let appeals = 0;
+    for (const appeal of indexes.duylhouAppeals.values()) {
+      const before = JSON.stringify(appeal);
+      appeal.offenderId = anonymise(appeal.offenderId);
+      appeal.originalUserId = anonymise(appeal.originalUserId);
+      appeal.requestedBy = anonymise(appeal.requestedBy);
+      appeal.votes = appeal.votes.map((vote) => ({ ...vote, userId: anonymise(vote.userId) }));
+      if (JSON.stringify(appeal) !== before) appeals++;
     }
+    report.duylhouAppeals = { deleted: 0, anonymised: appeals };
 
-    let leaderboard = 0;
-    for (const [key, entry] of indexes.duylhouLeaderboard.entries()) {
-      if (entry.month < cutoffMonth) {
-        indexes.duylhouLeaderboard.delete(key);
-        leaderboard++;
-      }
+    let awards = 0;
+    for (const award of indexes.duylhouAwards.values()) {
+      if (!award.winnerUserIds.includes(userId)) continue;
+      award.winnerUserIds = award.winnerUserIds.map(anonymise);
+      awards++;
     }
+    report.duylhouAwards = { deleted: 0, anonymised: awards };
 
-    return { incidents, leaderboard };
+    markDirty();
+    auditLog.trace(`Erased data of user ${userId}`);
+    return report;
   }
 
-  /**
-   * Removes rate-limit entries that have zero remaining timestamps
-   * (i.e. the user's window has fully expired).
-   *
-   * @returns Number of user entries removed.
-   */
-  function cleanupEmptyRateLimits(): number {
-    let count = 0;
-    for (const [userId, record] of indexes.rateLimits.entries()) {
-      if (record.timestamps.length === 0) {
-        indexes.rateLimits.delete(userId);
-        count++;
-      }
-    }
-    return count;
-  }
+  // =========================================================================
+  // Cleanup & Maintenance
+  // =========================================================================
 
   /**
-   * Cleans up old, unused user memories.
-   * Evicts memories that haven't been accessed in memoryDecayDays
-   * and enforces the per-user limit.
+   * Evicts what one retention policy selects.  With `archive` the records
+   * are written out first and kept when that fails.  A replayed cleanup
+   * does not archive again: the original run already did.
    *
-   * @returns Number of memories removed.
+   * @param policy - Policy to apply.
+   * @param now    - Cleanup time.
    */
-  function cleanupUserMemories(): number {
-    const cutoff = Date.now() - memoryDecayDays * 24 * 60 * 60 * 1000;
-    let removed = 0;
+  function applyRetentionPolicy(policy: RetentionPolicy, now: number): RetentionOutcome {
+    const store = retentionStores[policy.collection] as unknown as RetentionStore<unknown>;
+    const { evicted, expired, aged, capped } = selectForEviction(store.records(), policy, store, now);
+    const outcome: RetentionOutcome = {
+      collection: policy.collection,
+      action: policy.action,
+      removed: 0,
+      expired,
+      aged,
+      capped,
+      archived: 0,
+      error: null,
+    };
+    if (evicted.length === 0) return outcome;
 
-    for (const [userId, memories] of indexes.userMemories.entries()) {
-      // Remove memories not accessed since cutoff
-      const active = memories.filter((m) => m.lastAccessedAt > cutoff);
-      removed += memories.length - active.length;
-
-      // Enforce per-user limit (keep most recently accessed)
-      if (active.length > maxMemoriesPerUser) {
-        active.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
-        const toKeep = active.slice(0, maxMemoriesPerUser);
-        removed += active.length - toKeep.length;
-        indexes.userMemories.set(userId, toKeep);
-      } else if (active.length === 0) {
-        indexes.userMemories.delete(userId);
-      } else {
-        indexes.userMemories.set(userId, active);
-      }
+    if (policy.action === 'archive' && replayAt === null) {
+      const archiveError = appendToArchive(archiveDir, policy.collection, evicted, now);
+      if (archiveError) return { ...outcome, error: archiveError.details ?? archiveError.message };
+      outcome.archived = evicted.length;
     }
 
-    return removed;
+    store.remove(new Set(evicted));
+    outcome.removed = evicted.length;
+    return outcome;
   }
 
   /**
-   * Runs comprehensive cleanup of all database collections.
+   * Applies every retention policy.
    * Called periodically (daily by default) and on startup.
    *
-   * @returns Aggregated counts of every item that was removed.
+   * @returns Removed counts per collection plus each policy's outcome.
    */
   function runCleanup(): CleanupResult {
     auditLog.trace('Starting database cleanup...');
 
+    const now = clock();
+    const policies = retentionPolicies.map((policy) => applyRetentionPolicy(policy, now));
+    const removed = (collection: RetentionCollection): number =>
+      policies.find((outcome) => outcome.collection === collection)?.removed ?? 0;
+
     const result: CleanupResult = {
-      conversationsRemoved: cleanupConversations(),
-      linksRemoved: cleanupExpiredLinks(),
-      incidentsRemoved: 0,
-      leaderboardEntriesRemoved: 0,
-      rateLimitsRemoved: cleanupEmptyRateLimits(),
-      chatMessagesRemoved: cleanupChatMessages(),
-      memoriesRemoved: cleanupUserMemories(),
+      conversationsRemoved: removed('conversations'),
+      linksRemoved: removed('links'),
+      shortLinksRemoved: removed('shortLinks'),
+      mediaFingerprintsRemoved: removed('mediaFingerprints'),
+      incidentsRemoved: removed('duylhouIncidents'),
+      leaderboardEntriesRemoved: removed('duylhouLeaderboard'),
+      rateLimitsRemoved: removed('rateLimits'),
+      chatMessagesRemoved: removed('chatMessages'),
+      memoriesRemoved: removed('userMemories'),
+      policies,
     };
 
-    // Leaderboard / incidents cutoff derived from retention config.
-    const cutoffDate = new Date(Date.now());
-    cutoffDate.setDate(cutoffDate.getDate() - leaderboardRetentionDays);
-    const { incidents, leaderboard } = cleanupIncidentsAndLeaderboard(formatMonth(cutoffDate));
-    result.incidentsRemoved = incidents;
-    result.leaderboardEntriesRemoved = leaderboard;
-
-    const totalRemoved =
-      result.conversationsRemoved +
-      result.linksRemoved +
-      result.incidentsRemoved +
-      result.leaderboardEntriesRemoved +
-      result.rateLimitsRemoved +
-      result.memoriesRemoved;
-
-    if (totalRemoved > 0) markDirty();
-
-    lastCleanup = Date.now();
-
-    auditLog.trace(
-      `Cleanup complete: ${result.conversationsRemoved} conversations, ` +
-      `${result.linksRemoved} links, ${result.incidentsRemoved} incidents, ` +
-      `${result.leaderboardEntriesRemoved} leaderboard entries, ` +
-      `${result.rateLimitsRemoved} rate limits, ` +
-      `${result.chatMessagesRemoved} chat messages, ` +
-      `${result.memoriesRemoved} memories removed`
-    );
+    if (policies.some((outcome) => outcome.removed > 0)) markDirty();
+
+    lastCleanup = now;
+    lastCleanupResult = result;
+
+    const summary = policies
+      .filter((outcome) => outcome.removed > 0 || outcome.error)
+      .map((outcome) => outcome.error
+        ? `${outcome.collection} failed (${outcome.error})`
+        : `${outcome.removed} ${outcome.collection}${outcome.archived > 0 ? ' (archived)' : ''}`);
+    auditLog.trace(`Cleanup complete: ${summary.length > 0 ? summary.join(', ') : 'nothing removed'}`);
 
     return result;
   }
 
+  function getRetentionPolicies(): RetentionPolicy[] {
+    return retentionPolicies.map((policy) => ({ ...policy }));
+  }
+
+  function getLastCleanupResult(): CleanupResult | null {
+    return lastCleanupResult;
+  }
+
   /**
    * Returns a snapshot of current collection sizes and housekeeping timestamps.
    */
@@ -1161,6 +2235,8 @@ export function createDatabase(
     return {
       conversations: conversationCount,
       links: indexes.links.size,
+      shortLinks: indexes.shortLinks.size,
+      mediaFingerprints: indexes.mediaFingerprints.size,
       incidents: indexes.duylhouIncidents.size,
       leaderboardEntries: indexes.duylhouLeaderboard.size,
       rateLimits: indexes.rateLimits.size,
@@ -1171,6 +2247,99 @@ export function createDatabase(
     };
   }
 
+  // =========================================================================
+  // Backups
+  // =========================================================================
+
+  /**
+   * Writes a snapshot of the current state to `<dataDir>/backups` and
+   * prunes old snapshots per the retention settings.
+   *
+   * @param label - Optional reason recorded in the file name.
+   */
+  async function createBackup(label?: string): Promise<[AppError | null, BackupInfo | null]> {
+    if (!initialized) {
+      return [createDbError(DB_ERROR_CODES.QUERY_FAILED, 'Database not yet initialized'), null];
+    }
+
+    await acquireLock();
+    rebuildFromIndexes(indexes, schema);
+    const result = await writeBackup(backupDir, schema, label);
+    releaseLock();
+
+    if (!result[0]) {
+      await pruneBackups(backupDir, { maxCount: backupMaxCount, maxAgeDays: backupMaxAgeDays });
+    }
+    return result;
+  }
+
+  async function listBackups(): Promise<BackupInfo[]> {
+    return listBackupFiles(backupDir);
+  }
+
+  /**
+   * Replaces every collection with the snapshot `name` and persists it.
+   *
+   * The current state is saved as a `pre-restore` snapshot first, so a
+   * restore can itself be undone.  While {@link isRestoring} is true every
+   * mutating method throws and the cleanup and backup timers skip their
+   * ticks, so nothing is written into the state that is being replaced.
+   */
+  async function restoreBackup(name: string): Promise<AppError | null> {
+    if (!initialized) {
+      return createDbError(DB_ERROR_CODES.QUERY_FAILED, 'Database not yet initialized');
+    }
+    if (restoring) {
+      return createDbError(DB_ERROR_CODES.RESTORE_IN_PROGRESS, 'A restore is already in progress');
+    }
+
+    restoring = true;
+    try {
+      const [readError, restored] = await readBackup(backupDir, name);
+      if (readError || !restored) return readError;
+
+      const [migrationError] = migrateSchema(restored);
+      if (migrationError) return migrationError;
+
+      const [safetyError] = await createBackup('pre-restore');
+      if (safetyError) return safetyError;
+
+      await acquireLock();
+      schema = restored;
+      rebuildAllIndexes(indexes, schema);
+      // Journal entries so far belong to the replaced state; never replay them.
+      if (journal) schema.meta.journalSeq = journal.checkpoint().seq;
+      dirty = true;
+      releaseLock();
+
+      const flushError = await flush();
+      auditLog.trace(`Database restored from backup ${name}`);
+      return flushError;
+    } finally {
+      restoring = false;
+    }
+  }
+
+  function isRestoring(): boolean {
+    return restoring;
+  }
+
+  // =========================================================================
+  // Chat archive
+  // =========================================================================
+
+  /**
+   * Exports one chat's data as a portable archive.  Importing happens
+   * offline (`npm run db:chat-archive -- import`), with the bot stopped.
+   *
+   * @param chatId  - Chat to export.
+   * @param options - See {@link ChatExportOptions}.
+   */
+  function exportChat(chatId: number, options?: ChatExportOptions): ChatArchive {
+    rebuildFromIndexes(indexes, schema);
+    return exportChatArchive(schema, chatId, clock(), options);
+  }
+
   // =========================================================================
   // Shutdown
   // =========================================================================
@@ -1180,19 +2349,24 @@ export function createDatabase(
       clearInterval(persistTimer);
       persistTimer = null;
     }
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writeTimer = null;
+    }
+    if (backupTimer) {
+      clearInterval(backupTimer);
+      backupTimer = null;
+    }
     if (cleanupTimer) {
       clearInterval(cleanupTimer);
       cleanupTimer = null;
     }
     await flush();
+    journal?.close();
+    await storage.close();
     auditLog.trace('Database shutdown complete');
   }
 
-  // Initialize on creation
-  init().catch((e) => {
-    auditLog.record(DB_ERROR_CODES.INIT_FAILED, { error: String(e) });
-  });
-
   const database: Database = {
     getConversations,
     addConversation,
@@ -1200,10 +2374,33 @@ export function createDatabase(
     findLink,
     addLink,
     cleanupExpiredLinks,
+    getShortLink,
+    setShortLink,
+    findMediaFingerprint,
+    addMediaFingerprint,
+    cleanupExpiredMediaFingerprints,
     recordDuylhouIncident,
+    getDuylhouIncident,
+    removeDuylhouIncident,
     getDuylhouLeaderboard,
+    getDuylhouAllTimeLeaderboard,
     getCurrentMonth,
     cleanupOldIncidents,
+    getDuylhouIncidentCount,
+    getTopDuplicatedUrls,
+    getTopDuylhouVictims,
+    getTopDuylhouPairs,
+    getMedianRepostDelay,
+    getDuylhouAward,
+    recordDuylhouAward,
+    getDuylhouSettings,
+    updateDuylhouSettings,
+    createDuylhouAppeal,
+    getDuylhouAppeal,
+    getDuylhouAppealByIncident,
+    getOpenDuylhouAppeals,
+    updateDuylhouAppeal,
+    deleteDuylhouAppeal,
     getRateLimitTimestamps,
     setRateLimitTimestamps,
     cleanupRateLimits,
@@ -1213,18 +2410,66 @@ export function createDatabase(
     getLatestSummary,
     addChatMessage,
     getChatMessages,
+    editChatMessage,
+    searchChatMessages,
     getUserMemories,
     addUserMemory,
     updateUserMemory,
     deleteUserMemory,
     markMemoryAccessed,
     clearUserMemories,
+    getUserData,
+    eraseUserData,
     runCleanup,
+    getRetentionPolicies,
+    getLastCleanupResult,
     getStats,
+    createBackup,
+    listBackups,
+    restoreBackup,
+    isRestoring,
+    exportChat,
     now,
+    ready: init,
     flush,
     shutdown,
   };
 
+  // Route every mutating method through the journal.  `operations` keeps
+  // the unwrapped implementations for replay.  The clock is pinned to the
+  // journaled time for the whole (synchronous) call, so a replay computes
+  // the same timestamps even when the millisecond ticks over mid-call.
+  // During a restore the write is refused instead, since it would land in
+  // the state that is being replaced.
+  const operations = new Map<string, (...args: unknown[]) => unknown>();
+  for (const op of JOURNALED_OPERATIONS) {
+    const impl = database[op] as (...args: unknown[]) => unknown;
+    operations.set(op, impl);
+    (database as unknown as Record<string, unknown>)[op] = (...args: unknown[]) => {
+      if (restoring) {
+        auditLog.record(DB_ERROR_CODES.RESTORE_IN_PROGRESS, { operation: op });
+        throw new Error(`${op} refused: a backup restore is in progress`);
+      }
+      if (!initialized || !journal) return impl(...args);
+
+      const at = clock();
+      let count = args.length;
+      while (count > 0 && args[count - 1] === undefined) count--;
+      journal.append(op, args.slice(0, count), at);
+      const outer = operationAt;
+      operationAt = at;
+      try {
+        return impl(...args);
+      } finally {
+        operationAt = outer;
+      }
+    };
+  }
+
+  // Initialize on creation
+  init().catch((e) => {
+    auditLog.record(DB_ERROR_CODES.INIT_FAILED, { error: String(e) });
+  });
+
   return [null, database];
 }
@@ -0,0 +1,92 @@
+/**
+ * =============================================================================
+ * Fingerprint Utilities - perceptual hashing for media duplicate detection
+ * =============================================================================
+ */
+
+/**
+ * Width and height of the grayscale thumbnail a difference hash is built
+ * from.  One extra column gives 8 comparisons per row → 64 bits.
+ */
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+/**
+ * Frames whose pixels spread less than this (standard deviation, 0–255)
+ * are flat — black or uniform thumbnails.  Their bits come from encoder
+ * noise, so they are not hashed at all.
+ */
+export const MIN_PIXEL_STDDEV = 6;
+
+/**
+ * Hashes with fewer set bits than this describe an almost featureless
+ * frame (a flat frame hashes to all zeros) and are never matched
+ * perceptually.
+ */
+export const MIN_HASH_BITS = 8;
+
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+
+/**
+ * Builds a 64-bit difference hash ("dHash") from a 9×8 grayscale image.
+ * Each bit is set when a pixel is brighter than its right neighbour, so the
+ * hash survives re-encoding, resizing and small colour shifts.
+ *
+ * @param pixels - 72 bytes of 8-bit grayscale, row-major.
+ * @returns 16 lowercase hex characters, or `null` when the buffer is too
+ *          short or the frame is flat (see {@link MIN_PIXEL_STDDEV}).
+ */
+export function computeDifferenceHash(pixels: Uint8Array): string | null {
+  const count = DHASH_WIDTH * DHASH_HEIGHT;
+  if (pixels.length < count) return null;
+
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < count; i++) {
+    sum += pixels[i];
+    sumOfSquares += pixels[i] * pixels[i];
+  }
+  const mean = sum / count;
+  if (Math.sqrt(sumOfSquares / count - mean * mean) < MIN_PIXEL_STDDEV) return null;
+
+  let hex = '';
+  for (let row = 0; row < DHASH_HEIGHT; row++) {
+    let byte = 0;
+    for (let col = 0; col < DHASH_WIDTH - 1; col++) {
+      const left = pixels[row * DHASH_WIDTH + col];
+      const right = pixels[row * DHASH_WIDTH + col + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+
+  return hex;
+}
+
+/**
+ * True when a hash has enough set bits to be matched perceptually — see
+ * {@link MIN_HASH_BITS}.
+ */
+export function isDistinctiveHash(hash: string): boolean {
+  return HEX_PATTERN.test(hash) && hammingDistance(hash, '0'.repeat(hash.length)) >= MIN_HASH_BITS;
+}
+
+/**
+ * Counts differing bits between two hex hashes of equal length.
+ *
+ * @returns The Hamming distance, or `Infinity` when the hashes are not comparable.
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length || !HEX_PATTERN.test(a) || !HEX_PATTERN.test(b)) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
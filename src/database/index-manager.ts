@@ -10,20 +10,28 @@
  *     back into the schema arrays so the object is ready to serialise.
  *
  * The manager is intentionally stateless beyond the Maps it holds.
- * Business logic (add / find / cleanup) stays in `database.ts`.
+ * Business logic (add / find / cleanup) stays in `database.ts`.  The one
+ * derived index, `chatMessageTerms`, is kept in step with `chatMessages`
+ * through {@link indexChatMessageTerms} / {@link unindexChatMessageTerms}.
  */
 
 import {
   DatabaseSchema,
   ConversationRecord,
   LinkRecord,
+  MediaFingerprintRecord,
+  ShortLinkRecord,
   RateLimitRecord,
   DuylhouIncident,
   DuylhouLeaderboardEntry,
+  DuylhouAwardRecord,
+  DuylhouAppealRecord,
+  DuylhouChatSettings,
   SummaryRecord,
   ChatMessageRecord,
   UserMemoryRecord,
 } from './types';
+import { tokenizeForSearch } from './text-search';
 
 // ---------------------------------------------------------------------------
 // Public shape
@@ -38,16 +46,31 @@ export interface IndexManager {
   conversations: Map<string, ConversationRecord[]>;
   /** `"normalizedUrl:chatId"` → link record (only non-expired). */
   links: Map<string, LinkRecord>;
+  /** `shortUrl` → resolved short link. */
+  shortLinks: Map<string, ShortLinkRecord>;
+  /** `"fileUniqueId:chatId"` → media fingerprint (only non-expired). */
+  mediaFingerprints: Map<string, MediaFingerprintRecord>;
   /** `userId` → rate-limit timestamps. */
   rateLimits: Map<number, RateLimitRecord>;
-  /** `"userId:month"` → leaderboard entry. */
+  /** `"chatId:userId:month"` → leaderboard entry. */
   duylhouLeaderboard: Map<string, DuylhouLeaderboardEntry>;
+  /** `"month:chatId"` → award post record. */
+  duylhouAwards: Map<string, DuylhouAwardRecord>;
+  /** `appeal.id` → appeal record. */
+  duylhouAppeals: Map<number, DuylhouAppealRecord>;
+  /** `chatId` → Duylhou settings of that chat. */
+  duylhouSettings: Map<number, DuylhouChatSettings>;
   /** `incident.id` → incident record. */
   duylhouIncidents: Map<number, DuylhouIncident>;
   /** `chatId` → latest summary for that chat. */
   summaries: Map<number, SummaryRecord>;
   /** `chatId` → buffered raw group-chat messages, sorted oldest-first. */
   chatMessages: Map<number, ChatMessageRecord[]>;
+  /**
+   * `"chatId:term"` → buffered messages containing the term (see
+   * text-search.ts).  Derived from `chatMessages`; never persisted.
+   */
+  chatMessageTerms: Map<string, Set<ChatMessageRecord>>;
   /** `userId` → user memories, sorted with most recently accessed first. */
   userMemories: Map<number, UserMemoryRecord[]>;
 }
@@ -62,14 +85,55 @@ export interface IndexManager {
 export const createIndexManager = (): IndexManager => ({
   conversations: new Map(),
   links: new Map(),
+  shortLinks: new Map(),
+  mediaFingerprints: new Map(),
   rateLimits: new Map(),
   duylhouLeaderboard: new Map(),
+  duylhouAwards: new Map(),
+  duylhouAppeals: new Map(),
+  duylhouSettings: new Map(),
   duylhouIncidents: new Map(),
   summaries: new Map(),
   chatMessages: new Map(),
+  chatMessageTerms: new Map(),
   userMemories: new Map(),
 });
 
+// ---------------------------------------------------------------------------
+// Chat message terms
+// ---------------------------------------------------------------------------
+
+/**
+ * Adds a buffered message to the term index.
+ *
+ * @param indexes - The index manager to update.
+ * @param record  - A record that was just added to `chatMessages`.
+ */
+export const indexChatMessageTerms = (indexes: IndexManager, record: ChatMessageRecord): void => {
+  for (const term of tokenizeForSearch(record.text)) {
+    const key = `${record.chatId}:${term}`;
+    const records = indexes.chatMessageTerms.get(key) || new Set();
+    records.add(record);
+    indexes.chatMessageTerms.set(key, records);
+  }
+};
+
+/**
+ * Removes a message from the term index.
+ *
+ * @param indexes - The index manager to update.
+ * @param record  - A record that was just removed from `chatMessages`.
+ */
+export const unindexChatMessageTerms = (indexes: IndexManager, record: ChatMessageRecord): void => {
+  for (const term of tokenizeForSearch(record.text)) {
+    const key = `${record.chatId}:${term}`;
+    const records = indexes.chatMessageTerms.get(key);
+    if (!records) continue;
+    records.delete(record);
+    if (records.size === 0) indexes.chatMessageTerms.delete(key);
+  }
+};
+
 // ---------------------------------------------------------------------------
 // Rebuild: schema → indexes
 // ---------------------------------------------------------------------------
@@ -106,6 +170,20 @@ export const rebuildAllIndexes = (indexes: IndexManager, schema: DatabaseSchema)
     }
   }
 
+  // --- short links ---
+  indexes.shortLinks.clear();
+  for (const record of schema.shortLinks) {
+    indexes.shortLinks.set(record.shortUrl, record);
+  }
+
+  // --- media fingerprints (skip expired) ---
+  indexes.mediaFingerprints.clear();
+  for (const record of schema.mediaFingerprints) {
+    if (record.expiresAt > now) {
+      indexes.mediaFingerprints.set(`${record.fileUniqueId}:${record.chatId}`, record);
+    }
+  }
+
   // --- rate limits ---
   indexes.rateLimits.clear();
   for (const record of schema.rateLimits) {
@@ -115,7 +193,25 @@ export const rebuildAllIndexes = (indexes: IndexManager, schema: DatabaseSchema)
   // --- duylhou leaderboard ---
   indexes.duylhouLeaderboard.clear();
   for (const entry of schema.duylhouLeaderboard) {
-    indexes.duylhouLeaderboard.set(`${entry.userId}:${entry.month}`, entry);
+    indexes.duylhouLeaderboard.set(`${entry.chatId}:${entry.userId}:${entry.month}`, entry);
+  }
+
+  // --- duylhou awards ---
+  indexes.duylhouAwards.clear();
+  for (const award of schema.duylhouAwards) {
+    indexes.duylhouAwards.set(`${award.month}:${award.chatId}`, award);
+  }
+
+  // --- duylhou settings ---
+  indexes.duylhouSettings.clear();
+  for (const settings of schema.duylhouSettings) {
+    indexes.duylhouSettings.set(settings.chatId, settings);
+  }
+
+  // --- duylhou appeals ---
+  indexes.duylhouAppeals.clear();
+  for (const appeal of schema.duylhouAppeals) {
+    indexes.duylhouAppeals.set(appeal.id, appeal);
   }
 
   // --- duylhou incidents ---
@@ -145,6 +241,12 @@ export const rebuildAllIndexes = (indexes: IndexManager, schema: DatabaseSchema)
     records.sort((a, b) => a.createdAt - b.createdAt);
   }
 
+  // --- chat message terms (derived from the buffer above) ---
+  indexes.chatMessageTerms.clear();
+  for (const record of schema.chatMessages) {
+    indexChatMessageTerms(indexes, record);
+  }
+
   // --- user memories ---
   indexes.userMemories.clear();
   if (schema.userMemories) {
@@ -181,8 +283,13 @@ export const rebuildFromIndexes = (indexes: IndexManager, schema: DatabaseSchema
   }
 
   schema.links = Array.from(indexes.links.values());
+  schema.shortLinks = Array.from(indexes.shortLinks.values());
+  schema.mediaFingerprints = Array.from(indexes.mediaFingerprints.values());
   schema.rateLimits = Array.from(indexes.rateLimits.values());
   schema.duylhouLeaderboard = Array.from(indexes.duylhouLeaderboard.values());
+  schema.duylhouAwards = Array.from(indexes.duylhouAwards.values());
+  schema.duylhouSettings = Array.from(indexes.duylhouSettings.values());
+  schema.duylhouAppeals = Array.from(indexes.duylhouAppeals.values());
   schema.duylhouIncidents = Array.from(indexes.duylhouIncidents.values());
   schema.summaries = Array.from(indexes.summaries.values());
 
@@ -4,11 +4,70 @@
  * =============================================================================
  */
 
-export { createDatabase } from './database';
-export type { Database, LeaderboardRanking, CleanupResult, DatabaseStats } from './database';
+export { createDatabase, ANONYMOUS_USER_ID } from './database';
+export type {
+  Database,
+  ChatMessageSearchOptions,
+  UserDataExport,
+  UserDataCollection,
+  UserErasureReport,
+  LeaderboardRanking,
+  CleanupResult,
+  DatabaseStats,
+  DuplicatedUrlStat,
+  DuylhouVictimStat,
+  DuylhouPairStat,
+  RepostDelayStat,
+} from './database';
+
+export { createJsonStorage } from './storage';
+export type { DatabaseStorage } from './storage';
+export { createSqliteStorage } from './sqlite-storage';
+export { createJournal } from './journal';
+export type { Journal, JournalEntry, JournalCheckpoint } from './journal';
+export { MIGRATIONS, CURRENT_SCHEMA_VERSION, createEmptySchema, migrateSchema, needsMigration } from './schema-migrator';
+export type { Migration, MigrationStep, MigrationReport, MigrateOptions } from './schema-migrator';
+export { getBackupDir, listBackups, readBackup, writeBackup, pruneBackups } from './backups';
+export type { BackupInfo, BackupRetention } from './backups';
+export {
+  CHAT_ARCHIVE_FORMAT_VERSION,
+  CHAT_ARCHIVE_MIN_SCHEMA_VERSION,
+  CHAT_ARCHIVE_COLLECTIONS,
+  exportChatArchive,
+  serializeChatArchive,
+  parseChatArchive,
+  importChatArchive,
+} from './chat-archive';
+export type {
+  ChatArchive,
+  ChatArchiveHeader,
+  ChatArchiveCollection,
+  ChatExportOptions,
+  ChatImportOptions,
+  ChatImportReport,
+} from './chat-archive';
+export {
+  RETENTION_COLLECTIONS,
+  selectForEviction,
+  resolveRetentionPolicies,
+  getArchiveDir,
+  appendToArchive,
+  parseDuration,
+  parseRetentionSpec,
+} from './retention';
+export type {
+  RetentionCollection,
+  RetentionAction,
+  RetentionPolicy,
+  RetentionOverrides,
+  RetentionOutcome,
+  RetentionSubject,
+  RetentionSelection,
+} from './retention';
 
 export {
   DB_ERROR_CODES,
+  DEFAULT_DUYLHOU_SETTINGS,
 } from './types';
 
 export type {
@@ -16,12 +75,19 @@ export type {
   DatabaseSchema,
   ConversationRecord,
   LinkRecord,
+  MediaFingerprintRecord,
+  ShortLinkRecord,
   RateLimitRecord,
   DuylhouIncident,
   DuylhouLeaderboardEntry,
+  DuylhouAwardRecord,
+  DuylhouAppealRecord,
+  DuylhouAppealVote,
+  DuylhouChatSettings,
   TodoRecord,
   SummaryRecord,
   ChatMessageRecord,
+  ChatMediaType,
   UserMemoryRecord,
 } from './types';
 
@@ -29,4 +95,32 @@ export {
   extractUrls,
   normalizeUrl,
   extractAndNormalizeUrls,
+  isShortLink,
+  shortLinkKey,
+  explainNormalization,
 } from './link-utils';
+
+export {
+  DEFAULT_URL_RULES,
+  URL_RULES_ERROR_CODES,
+  compileUrlRules,
+  getActiveUrlRules,
+  setActiveUrlRules,
+  createUrlRulesLoader,
+} from './url-rules';
+export type {
+  UrlRulesFile,
+  ContentPatternDefinition,
+  CompiledUrlRules,
+  UrlRulesLoader,
+  UrlRulesLoaderConfig,
+} from './url-rules';
+
+export { MIN_SEARCH_TERM_LENGTH, normalizeSearchText, tokenizeForSearch } from './text-search';
+
+export {
+  computeDifferenceHash,
+  hammingDistance,
+  DHASH_WIDTH,
+  DHASH_HEIGHT,
+} from './fingerprint-utils';
@@ -0,0 +1,192 @@
+/**
+ * @module database/journal
+ *
+ * Append-only write-ahead journal for {@link createDatabase}.
+ *
+ * Every mutating database operation is appended as one JSON line
+ * (`{"seq":12,"at":1700000000000,"op":"addLink","args":[…]}`) before it runs,
+ * so the operations performed since the last flush survive a hard kill.  On
+ * start-up the database replays the lines the snapshot does not contain yet
+ * (`seq > meta.journalSeq`); after each successful flush the lines the
+ * snapshot now covers are dropped.
+ *
+ * Writes are synchronous on purpose: the line must be in the OS page cache
+ * before the operation returns, and lines must land in call order.  There is
+ * no fsync — the journal protects against process crashes, not power loss.
+ */
+
+import * as fs from 'fs';
+import { AppError } from '../assistant/types';
+import { auditLog } from '../assistant/audit-log';
+import { DB_ERROR_CODES } from './types';
+
+// ---------------------------------------------------------------------------
+// Public shape
+// ---------------------------------------------------------------------------
+
+/**
+ * One journaled operation.
+ */
+export interface JournalEntry {
+  /** Monotonic sequence number. */
+  seq: number;
+  /** Clock reading when the operation ran — replays use the same time. */
+  at: number;
+  /** Database method name. */
+  op: string;
+  /** Method arguments, as passed. */
+  args: unknown[];
+}
+
+/**
+ * Point in the journal a snapshot was taken at — see {@link Journal.checkpoint}.
+ */
+export interface JournalCheckpoint {
+  /** Last sequence number included in the snapshot. */
+  seq: number;
+  /** Journal size (bytes) at that moment. */
+  offset: number;
+}
+
+export interface Journal {
+  filePath: string;
+  /**
+   * Reads every intact entry and opens the file for appending.  Must be
+   * called once before {@link append}.
+   *
+   * @param afterSeq - Sequence numbers continue from at least this value
+   *                   (the snapshot's `meta.journalSeq`).
+   */
+  open: (afterSeq: number) => [AppError | null, JournalEntry[]];
+  /** Appends one operation. */
+  append: (op: string, args: unknown[], at: number) => void;
+  /** Marks the current end of the journal, taken with the snapshot. */
+  checkpoint: () => JournalCheckpoint;
+  /**
+   * Drops everything up to the checkpoint once its snapshot is saved,
+   * keeping lines appended while the save was in flight.
+   */
+  truncate: (checkpoint: JournalCheckpoint) => void;
+  close: () => void;
+}
+
+function createJournalError(message: string, details?: string): AppError {
+  return { code: DB_ERROR_CODES.JOURNAL_FAILED, category: 'CONFIGURATION', message, details };
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the journal stored at `filePath`.
+ */
+export function createJournal(filePath: string): Journal {
+  let fd: number | null = null;
+  let seq = 0;
+  let size = 0;
+  let failed = false;
+
+  function open(afterSeq: number): [AppError | null, JournalEntry[]] {
+    const entries: JournalEntry[] = [];
+    seq = afterSeq;
+
+    let content = '';
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        const error = createJournalError('Failed to read database journal', (e as Error).message);
+        auditLog.record(error.code, { error: error.details, filePath });
+        return [error, []];
+      }
+    }
+
+    const lines = content.split('\n');
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        if (typeof entry.seq !== 'number' || typeof entry.op !== 'string' || !Array.isArray(entry.args)) {
+          throw new Error('malformed entry');
+        }
+        entries.push(entry);
+        seq = Math.max(seq, entry.seq);
+      } catch (e) {
+        // A crash mid-append leaves a torn last line; anything else is worth a look.
+        auditLog.record(DB_ERROR_CODES.JOURNAL_FAILED, {
+          error: `Skipped unreadable journal line ${i + 1}: ${(e as Error).message}`,
+          torn: i === lines.length - 1,
+        });
+      }
+    });
+
+    try {
+      fd = fs.openSync(filePath, 'a+');
+      size = fs.fstatSync(fd).size;
+    } catch (e) {
+      const error = createJournalError('Failed to open database journal', (e as Error).message);
+      auditLog.record(error.code, { error: error.details, filePath });
+      return [error, entries];
+    }
+
+    return [null, entries];
+  }
+
+  function append(op: string, args: unknown[], at: number): void {
+    if (fd === null) return;
+
+    const line = JSON.stringify({ seq: seq + 1, at, op, args }) + '\n';
+    try {
+      fs.writeSync(fd, line);
+      seq++;
+      size += Buffer.byteLength(line);
+      failed = false;
+    } catch (e) {
+      // Keep running on the in-memory state; the periodic flush still
+      // persists it.  Only log the first failure of a streak.
+      if (!failed) {
+        auditLog.record(DB_ERROR_CODES.JOURNAL_FAILED, { error: (e as Error).message, filePath });
+      }
+      failed = true;
+    }
+  }
+
+  function checkpoint(): JournalCheckpoint {
+    return { seq, offset: size };
+  }
+
+  function truncate(mark: JournalCheckpoint): void {
+    if (fd === null || mark.offset === 0) return;
+
+    try {
+      if (size === mark.offset) {
+        fs.ftruncateSync(fd, 0);
+        size = 0;
+        return;
+      }
+
+      // Lines were appended during the save — keep them.
+      const tail = Buffer.alloc(size - mark.offset);
+      fs.readSync(fd, tail, 0, tail.length, mark.offset);
+
+      const tmpPath = filePath + '.tmp';
+      fs.writeFileSync(tmpPath, tail);
+      fs.renameSync(tmpPath, filePath);
+      fs.closeSync(fd);
+      fd = fs.openSync(filePath, 'a+');
+      size = tail.length;
+    } catch (e) {
+      // Harmless: replay skips entries the snapshot already covers.
+      auditLog.record(DB_ERROR_CODES.JOURNAL_FAILED, { error: (e as Error).message, filePath });
+    }
+  }
+
+  function close(): void {
+    if (fd === null) return;
+    try { fs.closeSync(fd); } catch { /* already closed */ }
+    fd = null;
+  }
+
+  return { filePath, open, append, checkpoint, truncate, close };
+}
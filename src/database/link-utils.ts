@@ -4,72 +4,10 @@
  * =============================================================================
  */
 
-/**
- * Common tracking parameters to remove from URLs
- */
-const TRACKING_PARAMS = new Set([
-  // UTM parameters
-  'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
-  // Social media
-  'fbclid', 'igshid', 'igsh', 's', 't', 'si',
-  // Analytics
-  'ref', 'source', 'mc_cid', 'mc_eid',
-  // Twitter/X
-  'ref_src', 'ref_url',
-  // YouTube
-  'feature', 'ab_channel',
-  // General
-  'share', 'shared', 'from',
-]);
+import { getActiveUrlRules } from './url-rules';
 
-/**
- * Patterns for extracting content IDs from social media URLs
- */
-const CONTENT_PATTERNS: Array<{
-  pattern: RegExp;
-  normalize: (match: RegExpMatchArray) => string;
-}> = [
-  // Instagram posts/reels
-  {
-    pattern: /instagram\.com\/(?:p|reel|reels)\/([A-Za-z0-9_-]+)/i,
-    normalize: (m) => `instagram.com/p/${m[1]}`,
-  },
-  // Twitter/X posts
-  {
-    pattern: /(?:twitter\.com|x\.com)\/([A-Za-z0-9_]+)\/status\/(\d+)/i,
-    normalize: (m) => `x.com/${m[1].toLowerCase()}/status/${m[2]}`,
-  },
-  // YouTube videos
-  {
-    pattern: /(?:youtube\.com\/watch\?v=|youtu\.be\/)([A-Za-z0-9_-]{11})/i,
-    normalize: (m) => `youtube.com/watch?v=${m[1]}`,
-  },
-  // YouTube shorts
-  {
-    pattern: /youtube\.com\/shorts\/([A-Za-z0-9_-]{11})/i,
-    normalize: (m) => `youtube.com/shorts/${m[1]}`,
-  },
-  // TikTok videos
-  {
-    pattern: /tiktok\.com\/@([^\/]+)\/video\/(\d+)/i,
-    normalize: (m) => `tiktok.com/@${m[1].toLowerCase()}/video/${m[2]}`,
-  },
-  // TikTok short links
-  {
-    pattern: /vm\.tiktok\.com\/([A-Za-z0-9]+)/i,
-    normalize: (m) => `vm.tiktok.com/${m[1]}`,
-  },
-  // Reddit posts
-  {
-    pattern: /reddit\.com\/r\/([^\/]+)\/comments\/([A-Za-z0-9]+)/i,
-    normalize: (m) => `reddit.com/r/${m[1].toLowerCase()}/comments/${m[2]}`,
-  },
-  // Threads
-  {
-    pattern: /threads\.net\/@([^\/]+)\/post\/([A-Za-z0-9_-]+)/i,
-    normalize: (m) => `threads.net/@${m[1].toLowerCase()}/post/${m[2]}`,
-  },
-];
+// Tracking parameters, content patterns and short-link shapes live in
+// url-rules.ts so they can be extended from a file without a code change.
 
 /**
  * Extracts all URLs from a text message
@@ -87,19 +25,32 @@ export function extractUrls(text: string): string[] {
  * Normalizes a URL for comparison.
  */
 export function normalizeUrl(url: string): string {
+  return explainNormalization(url).normalized;
+}
+
+/**
+ * Normalizes a URL and reports which rule produced the result — used by
+ * the admin rule-test command.
+ *
+ * @returns The normalised form and the content pattern name (`null` when
+ *          the generic host/path/query cleanup was used).
+ */
+export function explainNormalization(url: string): { normalized: string; rule: string | null } {
+  const rules = getActiveUrlRules();
+
   // Check specific content patterns first (e.g. Reels, YouTube IDs)
-  for (const { pattern, normalize } of CONTENT_PATTERNS) {
+  for (const { name, pattern, normalize } of rules.contentPatterns) {
     const match = url.match(pattern);
-    if (match) return normalize(match);
+    if (match) return { normalized: normalize(match), rule: name };
   }
 
   const parsed = safeParseUrl(url);
-  if (!parsed) return url.toLowerCase();
+  if (!parsed) return { normalized: url.toLowerCase(), rule: null };
 
   // Remove tracking parameters generically
   const cleanParams = new URLSearchParams();
   parsed.searchParams.forEach((value, key) => {
-    if (!TRACKING_PARAMS.has(key.toLowerCase())) {
+    if (!rules.trackingParams.has(key.toLowerCase())) {
       cleanParams.set(key.toLowerCase(), value);
     }
   });
@@ -114,13 +65,42 @@ export function normalizeUrl(url: string): string {
   const paramsString = cleanParams.toString();
   if (paramsString) normalized += '?' + paramsString;
 
-  return normalized;
+  return { normalized, rule: null };
 }
 
 function safeParseUrl(url: string): URL | null {
   try { return new URL(url); } catch { return null; }
 }
 
+/**
+ * Builds the cache key of a short link: lowercased host without `www.`
+ * plus the path without a trailing slash.  Query strings (share tracking)
+ * are dropped; the path is kept case-sensitive because short codes are.
+ *
+ * @returns The key, or `null` when the URL does not parse.
+ */
+export function shortLinkKey(url: string): string | null {
+  const parsed = safeParseUrl(url);
+  if (!parsed) return null;
+
+  let host = parsed.hostname.toLowerCase();
+  if (host.startsWith('www.')) host = host.slice(4);
+
+  let pathname = parsed.pathname;
+  if (pathname.endsWith('/') && pathname.length > 1) pathname = pathname.slice(0, -1);
+
+  return host + pathname;
+}
+
+/**
+ * Returns `true` for URLs that only redirect to the real content
+ * (t.co, bit.ly, vm.tiktok.com, redd.it, Reddit `/s/` share links, …).
+ */
+export function isShortLink(url: string): boolean {
+  const key = shortLinkKey(url);
+  return key !== null && getActiveUrlRules().shortLinkPatterns.some((pattern) => pattern.test(key));
+}
+
 /**
  * Extracts and normalizes ALL links found in a message.
  * No domain restriction.
@@ -0,0 +1,321 @@
+/**
+ * @module database/retention
+ *
+ * Declarative retention for {@link createDatabase}.  Each collection that is
+ * cleaned up has one {@link RetentionPolicy}:
+ *
+ *   - `maxAgeMs`       – records whose age reference is older are evicted
+ *   - `maxCountPerKey` – per group (user, chat, …) only the newest N are kept
+ *   - `action`         – evicted records are deleted, or first appended to
+ *                        `<dataDir>/archive/<collection>-YYYY-MM.jsonl`
+ *
+ * Which timestamp is the "age", what a "key" is, and any expiry built into
+ * the record itself (`expiresAt`, an emptied rate-limit window) are fixed per
+ * collection by the database; the policy only sets the limits.  Defaults come
+ * from the {@link DatabaseConfig} fields that used to drive the hard-coded
+ * cleanup (`searchHistoryDays`, `memoryDecayDays`, …) and can be overridden
+ * per collection via `DatabaseConfig.retention` (env: `DB_RETENTION`, see
+ * {@link parseRetentionSpec}).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AppError } from '../assistant/types';
+import { auditLog } from '../assistant/audit-log';
+import { DB_ERROR_CODES } from './types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Collections that have a retention policy, in cleanup order. */
+export const RETENTION_COLLECTIONS = [
+  'conversations',
+  'links',
+  'shortLinks',
+  'mediaFingerprints',
+  'duylhouIncidents',
+  'duylhouLeaderboard',
+  'rateLimits',
+  'chatMessages',
+  'userMemories',
+  'summaries',
+] as const;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export type RetentionCollection = typeof RETENTION_COLLECTIONS[number];
+
+export type RetentionAction = 'delete' | 'archive';
+
+/**
+ * Limits applied to one collection on every cleanup run.
+ */
+export interface RetentionPolicy {
+  collection: RetentionCollection;
+  /** Evict records older than this (ms); `null` = no age limit. */
+  maxAgeMs: number | null;
+  /** Keep at most this many records per key, newest first; `null` = no cap. */
+  maxCountPerKey: number | null;
+  /** What happens to evicted records. */
+  action: RetentionAction;
+}
+
+/** Per-collection changes to the default policies. */
+export type RetentionOverrides = Partial<Record<RetentionCollection, Partial<Omit<RetentionPolicy, 'collection'>>>>;
+
+/**
+ * What one policy did during a cleanup run.
+ */
+export interface RetentionOutcome {
+  collection: RetentionCollection;
+  action: RetentionAction;
+  /** Records removed from the database (archived ones included). */
+  removed: number;
+  /** Removed because the record itself had expired. */
+  expired: number;
+  /** Removed by `maxAgeMs`. */
+  aged: number;
+  /** Removed by `maxCountPerKey`. */
+  capped: number;
+  /** Records written to the archive. */
+  archived: number;
+  /** Set when archiving failed — nothing was removed then. */
+  error: string | null;
+}
+
+/**
+ * How the policy engine reads one collection's records.
+ */
+export interface RetentionSubject<R> {
+  /** Age reference (Unix ms) — newer records have larger values. */
+  timestamp: (record: R) => number;
+  /** Group for `maxCountPerKey`. */
+  groupKey: (record: R) => string | number;
+  /** Expiry built into the record, applied regardless of the policy. */
+  isExpired?: (record: R, now: number) => boolean;
+}
+
+/**
+ * Records chosen for eviction, split by reason.
+ */
+export interface RetentionSelection<R> {
+  evicted: R[];
+  expired: number;
+  aged: number;
+  capped: number;
+}
+
+function createRetentionError(code: string, message: string, details?: string): AppError {
+  return { code, category: 'CONFIGURATION', message, details };
+}
+
+// ---------------------------------------------------------------------------
+// Policy engine
+// ---------------------------------------------------------------------------
+
+/**
+ * Picks the records a policy evicts: expired ones, then those older than
+ * `maxAgeMs`, then — per key — all but the newest `maxCountPerKey`.  Among
+ * records with the same timestamp the later one in `records` counts as newer.
+ *
+ * @param records - Every record of the collection.
+ * @param policy  - Limits to apply.
+ * @param subject - How to read the records.
+ * @param now     - Reference time (Unix ms).
+ */
+export function selectForEviction<R>(
+  records: readonly R[],
+  policy: RetentionPolicy,
+  subject: RetentionSubject<R>,
+  now: number,
+): RetentionSelection<R> {
+  const selection: RetentionSelection<R> = { evicted: [], expired: 0, aged: 0, capped: 0 };
+  const cutoff = policy.maxAgeMs === null ? null : now - policy.maxAgeMs;
+  const groups = new Map<string | number, R[]>();
+
+  for (const record of records) {
+    if (subject.isExpired?.(record, now)) {
+      selection.evicted.push(record);
+      selection.expired++;
+    } else if (cutoff !== null && subject.timestamp(record) < cutoff) {
+      selection.evicted.push(record);
+      selection.aged++;
+    } else if (policy.maxCountPerKey !== null) {
+      const key = subject.groupKey(record);
+      const group = groups.get(key);
+      if (group) group.push(record);
+      else groups.set(key, [record]);
+    }
+  }
+
+  const maxCount = policy.maxCountPerKey;
+  if (maxCount !== null) {
+    for (const group of groups.values()) {
+      if (group.length <= maxCount) continue;
+      // Stable sort: equal timestamps keep their order, the first ones go.
+      group.sort((a, b) => subject.timestamp(a) - subject.timestamp(b));
+      const excess = group.slice(0, group.length - maxCount);
+      selection.evicted.push(...excess);
+      selection.capped += excess.length;
+    }
+  }
+
+  return selection;
+}
+
+/**
+ * Applies overrides to the default policies and validates the result.
+ *
+ * @param defaults  - One policy per collection.
+ * @param overrides - Per-collection changes (from config).
+ * @returns `DB_010` when an override names an unknown collection or holds an
+ *          invalid limit.
+ */
+export function resolveRetentionPolicies(
+  defaults: readonly RetentionPolicy[],
+  overrides: RetentionOverrides = {},
+): [AppError | null, RetentionPolicy[] | null] {
+  for (const collection of Object.keys(overrides)) {
+    if (!defaults.some((policy) => policy.collection === collection)) {
+      return [createRetentionError(DB_ERROR_CODES.INVALID_RETENTION, 'Unknown retention collection', collection), null];
+    }
+  }
+
+  const policies: RetentionPolicy[] = [];
+  for (const base of defaults) {
+    const policy: RetentionPolicy = { ...base, ...overrides[base.collection], collection: base.collection };
+
+    const invalid =
+      (policy.maxAgeMs !== null && !(Number.isFinite(policy.maxAgeMs) && policy.maxAgeMs > 0)) ||
+      (policy.maxCountPerKey !== null && !(Number.isInteger(policy.maxCountPerKey) && policy.maxCountPerKey > 0)) ||
+      (policy.action !== 'delete' && policy.action !== 'archive');
+    if (invalid) {
+      return [
+        createRetentionError(DB_ERROR_CODES.INVALID_RETENTION, 'Invalid retention policy', JSON.stringify(policy)),
+        null,
+      ];
+    }
+
+    policies.push(policy);
+  }
+
+  return [null, policies];
+}
+
+// ---------------------------------------------------------------------------
+// Archive
+// ---------------------------------------------------------------------------
+
+/**
+ * Directory holding archived records for a data directory.
+ */
+export function getArchiveDir(dataDir: string): string {
+  return path.join(dataDir, 'archive');
+}
+
+/**
+ * Appends evicted records to `<dir>/<collection>-YYYY-MM.jsonl`, one JSON
+ * object per line.  Synchronous so that cleanup stays a single atomic step
+ * of the database — records are only removed once they are on disk.
+ *
+ * @param dir        - See {@link getArchiveDir}.
+ * @param collection - Source collection (file name prefix).
+ * @param records    - Records to archive.
+ * @param now        - Cleanup time; selects the monthly file.
+ */
+export function appendToArchive(
+  dir: string,
+  collection: RetentionCollection,
+  records: readonly unknown[],
+  now: number,
+): AppError | null {
+  if (records.length === 0) return null;
+
+  const month = new Date(now).toISOString().slice(0, 7);
+  const filePath = path.join(dir, `${collection}-${month}.jsonl`);
+
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.appendFileSync(filePath, records.map((record) => JSON.stringify(record)).join('\n') + '\n', 'utf-8');
+    return null;
+  } catch (e) {
+    const error = createRetentionError(DB_ERROR_CODES.ARCHIVE_FAILED, 'Failed to archive records', String(e));
+    auditLog.record(error.code, { filePath, count: records.length, error: String(e) });
+    return error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Configuration parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses `500`, `90s`, `15m`, `24h` or `30d` into milliseconds (a bare
+ * number is milliseconds).
+ *
+ * @returns `null` when the text is not a positive duration.
+ */
+export function parseDuration(text: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/i.exec(text.trim());
+  if (!match) return null;
+  const ms = parseFloat(match[1]) * DURATION_UNITS[(match[2] ?? 'ms').toLowerCase()];
+  return ms > 0 ? Math.round(ms) : null;
+}
+
+/**
+ * Parses a retention override string:
+ *
+ *   duylhouIncidents:maxAge=365d,action=archive;chatMessages:maxPerKey=500
+ *
+ * Entries are separated by `;`, settings by `,`.  `maxAge` takes a
+ * {@link parseDuration} value, `maxPerKey` a count; either may be `none` to
+ * lift the limit.  `action` is `delete` or `archive`.
+ *
+ * @returns `DB_010` with the offending fragment as details.
+ */
+export function parseRetentionSpec(spec: string): [AppError | null, RetentionOverrides | null] {
+  const overrides: RetentionOverrides = {};
+  const invalid = (fragment: string): [AppError, null] => [
+    createRetentionError(DB_ERROR_CODES.INVALID_RETENTION, 'Invalid retention setting', fragment.trim()),
+    null,
+  ];
+
+  for (const entry of spec.split(';').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const collection = (separator === -1 ? '' : entry.slice(0, separator).trim()) as RetentionCollection;
+    if (!RETENTION_COLLECTIONS.includes(collection)) return invalid(entry);
+
+    const override = (overrides[collection] ??= {});
+    for (const setting of entry.slice(separator + 1).split(',').filter((s) => s.trim())) {
+      const [name = '', value = ''] = setting.split('=').map((s) => s.trim());
+      const none = value.toLowerCase() === 'none';
+
+      if (name === 'maxAge') {
+        const ms = none ? null : parseDuration(value);
+        if (ms === null && !none) return invalid(setting);
+        override.maxAgeMs = ms;
+      } else if (name === 'maxPerKey') {
+        const count = none ? null : Number(value);
+        if (count !== null && !(Number.isInteger(count) && count > 0)) return invalid(setting);
+        override.maxCountPerKey = count;
+      } else if (name === 'action' && (value === 'delete' || value === 'archive')) {
+        override.action = value;
+      } else {
+        return invalid(setting);
+      }
+    }
+  }
+
+  return [null, overrides];
+}
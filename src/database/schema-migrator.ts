@@ -4,15 +4,159 @@
  * Owns every piece of logic that touches the raw {@link DatabaseSchema}
  * object at load time:
  *   - The canonical "empty" schema factory.
- *   - Forward-migration guards that seed fields introduced after the
- *     initial schema version so older `database.json` files are
- *     transparently upgraded on first load.
+ *   - The ordered registry of numbered migrations ({@link MIGRATIONS}) that
+ *     upgrade a schema loaded from an older file, one version at a time.
+ *     `meta.version` records the last migration applied.
+ *
+ * Adding a collection or field: append a migration with the next version
+ * number and seed the new field in {@link createEmptySchema}.  Never edit
+ * or reorder a migration that has shipped.
  *
  * Nothing here performs I/O — the migrator receives a parsed object
  * and returns the (possibly mutated) result.
  */
 
-import { DatabaseSchema } from './types';
+import { AppError } from '../assistant/types';
+import { DatabaseSchema, DuylhouLeaderboardEntry, DB_ERROR_CODES } from './types';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * One schema migration.
+ */
+export interface Migration {
+  /** Schema version this migration upgrades to. */
+  version: number;
+  description: string;
+  /**
+   * Upgrades the schema in place.
+   *
+   * @returns Human-readable changes made (empty when there was nothing to do).
+   */
+  up: (schema: DatabaseSchema) => string[];
+}
+
+/** What one migration did (or would do, in a dry run). */
+export interface MigrationStep {
+  version: number;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  steps: MigrationStep[];
+}
+
+export interface MigrateOptions {
+  /** Report what would change without touching the schema passed in. */
+  dryRun?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Seeding helpers
+// ---------------------------------------------------------------------------
+
+type CollectionKey = Exclude<keyof DatabaseSchema, 'meta'>;
+type CounterKey = Exclude<keyof DatabaseSchema['meta'], 'version' | 'lastSaved'>;
+
+/**
+ * Files written before `meta.version` was kept up to date all say version 1
+ * whatever fields they have, so every migration must be idempotent: seed a
+ * field only when it is missing.
+ */
+function seedCollection(schema: DatabaseSchema, key: CollectionKey): string[] {
+  if (Array.isArray(schema[key])) return [];
+  (schema as unknown as Record<string, unknown[]>)[key] = [];
+  return [`${key}: created empty collection`];
+}
+
+function seedCounter(schema: DatabaseSchema, key: CounterKey, initial: number): string[] {
+  if (schema.meta[key] !== undefined && schema.meta[key] !== null) return [];
+  schema.meta[key] = initial;
+  return [`meta.${key}: set to ${initial}`];
+}
+
+// ---------------------------------------------------------------------------
+// Migration registry
+// ---------------------------------------------------------------------------
+
+/**
+ * Every migration, in order.  Version 1 is the original launch schema
+ * (conversations, links, rateLimits, duylhouIncidents, duylhouLeaderboard).
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 2,
+    description: 'todos',
+    up: (schema) => [...seedCollection(schema, 'todos'), ...seedCounter(schema, 'todoNextId', 1)],
+  },
+  {
+    version: 3,
+    description: 'summaries',
+    up: (schema) => [...seedCollection(schema, 'summaries'), ...seedCounter(schema, 'summaryNextId', 1)],
+  },
+  {
+    version: 4,
+    description: 'chatMessages (persistent /summary buffer)',
+    up: (schema) => [...seedCollection(schema, 'chatMessages'), ...seedCounter(schema, 'chatMessageNextId', 1)],
+  },
+  {
+    version: 5,
+    description: 'userMemories (long-term memory)',
+    up: (schema) => [...seedCollection(schema, 'userMemories'), ...seedCounter(schema, 'userMemoryNextId', 1)],
+  },
+  {
+    version: 6,
+    description: 'duylhouAwards (end-of-month award posts)',
+    up: (schema) => seedCollection(schema, 'duylhouAwards'),
+  },
+  {
+    version: 7,
+    description: 'duylhouLeaderboard scoped per chat',
+    up: (schema) => {
+      const legacy = schema.duylhouLeaderboard.filter((e) => e.chatId === undefined || e.chatId === null);
+      if (legacy.length === 0) return [];
+      schema.duylhouLeaderboard = splitLeaderboardByChat(schema);
+      return [`duylhouLeaderboard: split ${legacy.length} legacy entries by chat`];
+    },
+  },
+  {
+    version: 8,
+    description: 'duylhouAppeals (incident appeal votes)',
+    up: (schema) => [...seedCollection(schema, 'duylhouAppeals'), ...seedCounter(schema, 'duylhouAppealNextId', 1)],
+  },
+  {
+    version: 9,
+    description: 'mediaFingerprints (media duplicate detection)',
+    up: (schema) => [
+      ...seedCollection(schema, 'mediaFingerprints'),
+      ...seedCounter(schema, 'mediaFingerprintNextId', 1),
+    ],
+  },
+  {
+    version: 10,
+    description: 'shortLinks (short link resolution cache)',
+    up: (schema) => seedCollection(schema, 'shortLinks'),
+  },
+  {
+    version: 11,
+    description: 'duylhouSettings (per-chat configuration)',
+    up: (schema) => seedCollection(schema, 'duylhouSettings'),
+  },
+  {
+    version: 12,
+    description: 'meta.journalSeq (write-ahead journal)',
+    up: (schema) => seedCounter(schema, 'journalSeq', 0),
+  },
+];
+
+/** Version a schema has once every migration is applied. */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
 
 // ---------------------------------------------------------------------------
 // Empty-schema factory
@@ -26,76 +170,161 @@ import { DatabaseSchema } from './types';
 export const createEmptySchema = (): DatabaseSchema => ({
   conversations: [],
   links: [],
+  shortLinks: [],
+  mediaFingerprints: [],
   rateLimits: [],
   duylhouIncidents: [],
   duylhouLeaderboard: [],
+  duylhouAwards: [],
+  duylhouAppeals: [],
+  duylhouSettings: [],
   todos: [],
   summaries: [],
   chatMessages: [],
   userMemories: [],
   meta: {
-    version: 1,
+    version: CURRENT_SCHEMA_VERSION,
     lastSaved: Date.now(),
     conversationNextId: 1,
     linkNextId: 1,
+    mediaFingerprintNextId: 1,
     duylhouIncidentNextId: 1,
+    duylhouAppealNextId: 1,
     todoNextId: 1,
     summaryNextId: 1,
     chatMessageNextId: 1,
     userMemoryNextId: 1,
+    journalSeq: 0,
   },
 });
 
 // ---------------------------------------------------------------------------
-// Forward-migration guards
+// Runner
 // ---------------------------------------------------------------------------
 
 /**
- * Ensures that every collection and meta-field that the current code
- * expects is present on the schema object.  Fields that were introduced
- * after the initial version may be `undefined` on schemas loaded from
- * older JSON files; this function seeds them with safe defaults so the
- * rest of the codebase can assume they are always arrays / numbers.
+ * True when `schema` is older than {@link CURRENT_SCHEMA_VERSION}.
+ */
+export const needsMigration = (schema: DatabaseSchema): boolean =>
+  (schema.meta.version ?? 1) < CURRENT_SCHEMA_VERSION;
+
+/**
+ * Applies, in order, every migration newer than `schema.meta.version`,
+ * bumping the version after each one.
  *
- * The function mutates `schema` in place and returns it for chaining.
+ * Refuses a schema from a newer version — it was written by a newer build
+ * and this one would silently drop what it does not know about.
+ *
+ * In a dry run the migrations run on a copy: the report says what each
+ * one would change and `schema` is left untouched.
  *
  * @param schema - The parsed schema loaded from disk.
- * @returns The same object, with any missing fields seeded.
+ * @returns Result tuple with the report.
  */
-export const applyMigrations = (schema: DatabaseSchema): DatabaseSchema => {
-  // --- todos (added after initial launch) ---
-  if (!Array.isArray(schema.todos)) {
-    schema.todos = [];
-  }
-  if (schema.meta.todoNextId === undefined || schema.meta.todoNextId === null) {
-    schema.meta.todoNextId = 1;
-  }
+export const migrateSchema = (
+  schema: DatabaseSchema,
+  options: MigrateOptions = {},
+): [AppError | null, MigrationReport | null] => {
+  const fromVersion = schema.meta?.version ?? 1;
 
-  // --- summaries (added after initial launch) ---
-  if (!Array.isArray(schema.summaries)) {
-    schema.summaries = [];
-  }
-  if (schema.meta.summaryNextId === undefined || schema.meta.summaryNextId === null) {
-    schema.meta.summaryNextId = 1;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    return [{
+      code: DB_ERROR_CODES.SCHEMA_TOO_NEW,
+      category: 'CONFIGURATION',
+      message: `Database schema v${fromVersion} is newer than this build supports (v${CURRENT_SCHEMA_VERSION})`,
+      details: 'Upgrade the bot, or restore a backup taken before the upgrade.',
+    }, null];
   }
 
-  // --- chatMessages (persistent /summary buffer, added for restart-survival) ---
-  if (!Array.isArray(schema.chatMessages)) {
-    schema.chatMessages = [];
-  }
-  if (schema.meta.chatMessageNextId === undefined || schema.meta.chatMessageNextId === null) {
-    schema.meta.chatMessageNextId = 1;
+  const target = options.dryRun ? structuredClone(schema) : schema;
+  const steps: MigrationStep[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    const changes = migration.up(target);
+    target.meta.version = migration.version;
+    steps.push({ version: migration.version, description: migration.description, changes });
   }
 
-  // --- userMemories (long-term memory, added in v3) ---
-  if (!Array.isArray(schema.userMemories)) {
-    schema.userMemories = [];
+  return [null, { fromVersion, toVersion: target.meta.version, dryRun: !!options.dryRun, steps }];
+};
+
+// ---------------------------------------------------------------------------
+// Migration helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts legacy `userId:month` leaderboard entries (which merged every
+ * chat) into per-chat entries using the stored incidents, which always
+ * carried a `chatId`.
+ *
+ * For each legacy entry the user's incidents in that month are grouped by
+ * chat.  Any part of the count that can no longer be explained by
+ * incidents (already cleaned up) is attributed to the chat where the user
+ * had the most incidents that month, else to the chat with the most
+ * incidents overall, else to chat `0` — it still shows in the global view.
+ * Entries that already have a `chatId` are kept as they are.
+ *
+ * @param schema - Schema with a possibly mixed leaderboard.
+ * @returns The migrated leaderboard array.
+ */
+function splitLeaderboardByChat(schema: DatabaseSchema): DuylhouLeaderboardEntry[] {
+  const migrated: DuylhouLeaderboardEntry[] = [];
+
+  // Most common chat overall — fallback owner for unexplained counts.
+  const chatTotals = new Map<number, number>();
+  for (const incident of schema.duylhouIncidents) {
+    chatTotals.set(incident.chatId, (chatTotals.get(incident.chatId) || 0) + 1);
   }
-  if (schema.meta.userMemoryNextId === undefined || schema.meta.userMemoryNextId === null) {
-    schema.meta.userMemoryNextId = 1;
+  let defaultChatId = 0;
+  let defaultChatTotal = 0;
+  for (const [chatId, total] of chatTotals) {
+    if (total > defaultChatTotal) {
+      defaultChatId = chatId;
+      defaultChatTotal = total;
+    }
   }
 
-  // duylhouIncidents already existed as an array at schema v1 — nothing to seed.
+  for (const entry of schema.duylhouLeaderboard) {
+    if (entry.chatId !== undefined && entry.chatId !== null) {
+      migrated.push(entry);
+      continue;
+    }
 
-  return schema;
-};
+    const perChat = new Map<number, DuylhouLeaderboardEntry>();
+    for (const incident of schema.duylhouIncidents) {
+      if (incident.offenderId !== entry.userId || incident.month !== entry.month) continue;
+
+      const existing = perChat.get(incident.chatId);
+      if (existing) {
+        existing.count++;
+        existing.lastIncidentAt = Math.max(existing.lastIncidentAt, incident.createdAt);
+      } else {
+        perChat.set(incident.chatId, {
+          userId: entry.userId,
+          chatId: incident.chatId,
+          month: entry.month,
+          count: 1,
+          lastIncidentAt: incident.createdAt,
+        });
+      }
+    }
+
+    const explained = Array.from(perChat.values()).reduce((sum, e) => sum + e.count, 0);
+    const remainder = entry.count - explained;
+
+    if (remainder > 0) {
+      const owner = Array.from(perChat.values()).sort((a, b) => b.count - a.count)[0];
+      if (owner) {
+        owner.count += remainder;
+        owner.lastIncidentAt = Math.max(owner.lastIncidentAt, entry.lastIncidentAt);
+      } else {
+        perChat.set(defaultChatId, { ...entry, chatId: defaultChatId });
+      }
+    }
+
+    migrated.push(...perChat.values());
+  }
+
+  return migrated;
+}
@@ -0,0 +1,316 @@
+/**
+ * @module database/sqlite-storage
+ *
+ * SQLite backend for {@link createDatabase} (`backend: 'sqlite'`).
+ *
+ *   - One table per collection.  Every row holds the record as JSON in
+ *     `data`, keyed by the same key the in-memory {@link IndexManager} uses,
+ *     plus the columns that key's lookups need, with matching indexes — so
+ *     the file stays queryable with any SQLite client.
+ *   - WAL journal mode: readers never block the writer and a crash never
+ *     leaves a half-written file.
+ *   - Saves are incremental: the storage remembers what it last wrote and
+ *     each flush only upserts changed rows and deletes removed ones, in one
+ *     transaction.  That keeps flushes cheap enough to run a second after
+ *     every change instead of every few minutes.
+ *
+ * Uses Node's built-in `node:sqlite`, loaded lazily so the JSON backend
+ * keeps working on older runtimes.  It is available without flags from
+ * Node 22.13 (22.5–22.12 need `--experimental-sqlite`) and is still marked
+ * experimental: Node prints an ExperimentalWarning when it loads.
+ */
+
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AppError } from '../assistant/types';
+import { auditLog } from '../assistant/audit-log';
+import { DatabaseSchema, DB_ERROR_CODES } from './types';
+import { DatabaseStorage } from './storage';
+
+// ---------------------------------------------------------------------------
+// Table layout
+// ---------------------------------------------------------------------------
+
+/** Every schema key except `meta` is an array collection. */
+export type CollectionName = Exclude<keyof DatabaseSchema, 'meta'>;
+
+type RecordOf<K extends CollectionName> = DatabaseSchema[K] extends Array<infer R> ? R : never;
+
+type ColumnValue = number | string | null;
+
+/**
+ * How one collection maps onto its table.
+ */
+interface TableSpec<R> {
+  table: string;
+  /** Primary key — mirrors the IndexManager key (or the record ID). */
+  key: (record: R) => string;
+  /** Extra indexed columns derived from the record. */
+  columns: Record<string, (record: R) => ColumnValue>;
+  /** Column lists to index. */
+  indexes: string[][];
+}
+
+/**
+ * Table layout per collection.  The mapped type makes adding a collection
+ * to {@link DatabaseSchema} without a table a compile error.
+ */
+const TABLES: { [K in CollectionName]: TableSpec<RecordOf<K>> } = {
+  conversations: {
+    table: 'conversations',
+    key: (r) => String(r.id),
+    columns: { user_id: (r) => r.userId, chat_id: (r) => r.chatId, created_at: (r) => r.createdAt },
+    indexes: [['user_id', 'chat_id']],
+  },
+  links: {
+    table: 'links',
+    key: (r) => String(r.id),
+    columns: { normalized_url: (r) => r.normalizedUrl, chat_id: (r) => r.chatId, expires_at: (r) => r.expiresAt },
+    indexes: [['normalized_url', 'chat_id'], ['expires_at']],
+  },
+  shortLinks: {
+    table: 'short_links',
+    key: (r) => r.shortUrl,
+    columns: { resolved_at: (r) => r.resolvedAt },
+    indexes: [['resolved_at']],
+  },
+  mediaFingerprints: {
+    table: 'media_fingerprints',
+    key: (r) => String(r.id),
+    columns: { file_unique_id: (r) => r.fileUniqueId, chat_id: (r) => r.chatId, expires_at: (r) => r.expiresAt },
+    indexes: [['file_unique_id', 'chat_id'], ['chat_id', 'expires_at']],
+  },
+  rateLimits: {
+    table: 'rate_limits',
+    key: (r) => String(r.userId),
+    columns: {},
+    indexes: [],
+  },
+  duylhouIncidents: {
+    table: 'duylhou_incidents',
+    key: (r) => String(r.id),
+    columns: { chat_id: (r) => r.chatId, month: (r) => r.month, offender_id: (r) => r.offenderId },
+    indexes: [['chat_id', 'month'], ['month']],
+  },
+  duylhouLeaderboard: {
+    table: 'duylhou_leaderboard',
+    key: (r) => `${r.chatId}:${r.userId}:${r.month}`,
+    columns: { chat_id: (r) => r.chatId, user_id: (r) => r.userId, month: (r) => r.month },
+    indexes: [['month', 'chat_id']],
+  },
+  duylhouAwards: {
+    table: 'duylhou_awards',
+    key: (r) => `${r.month}:${r.chatId}`,
+    columns: {},
+    indexes: [],
+  },
+  duylhouAppeals: {
+    table: 'duylhou_appeals',
+    key: (r) => String(r.id),
+    columns: { incident_id: (r) => r.incidentId, status: (r) => r.status, closes_at: (r) => r.closesAt },
+    indexes: [['incident_id'], ['status', 'closes_at']],
+  },
+  duylhouSettings: {
+    table: 'duylhou_settings',
+    key: (r) => String(r.chatId),
+    columns: {},
+    indexes: [],
+  },
+  todos: {
+    table: 'todos',
+    key: (r) => String(r.id),
+    columns: {},
+    indexes: [],
+  },
+  summaries: {
+    table: 'summaries',
+    key: (r) => String(r.id),
+    columns: { chat_id: (r) => r.chatId, created_at: (r) => r.createdAt },
+    indexes: [['chat_id', 'created_at']],
+  },
+  chatMessages: {
+    table: 'chat_messages',
+    key: (r) => String(r.id),
+    columns: { chat_id: (r) => r.chatId, created_at: (r) => r.createdAt },
+    indexes: [['chat_id', 'created_at']],
+  },
+  userMemories: {
+    table: 'user_memories',
+    key: (r) => String(r.id),
+    columns: { user_id: (r) => r.userId },
+    indexes: [['user_id']],
+  },
+};
+
+const COLLECTIONS = Object.keys(TABLES) as CollectionName[];
+
+/** Prepared statements of one table. */
+interface TableStatements {
+  upsert: StatementSync;
+  remove: StatementSync;
+  selectAll: StatementSync;
+}
+
+function createStorageError(code: string, message: string, details?: string): AppError {
+  return { code, category: 'CONFIGURATION', message, details };
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Opens (creating if needed) the SQLite file and its tables.
+ *
+ * @param filePath - Path of the `.sqlite` file.
+ * @returns Result tuple — fails when `node:sqlite` is unavailable or the
+ *          file cannot be opened.
+ */
+export function createSqliteStorage(filePath: string): [AppError | null, DatabaseStorage | null] {
+  let db: DatabaseSync;
+
+  try {
+    const { DatabaseSync: Sqlite } = require('node:sqlite') as typeof import('node:sqlite');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    db = new Sqlite(filePath);
+
+    db.exec('PRAGMA journal_mode = WAL');
+    db.exec('PRAGMA synchronous = NORMAL');
+    db.exec('CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+
+    for (const name of COLLECTIONS) {
+      const spec = TABLES[name] as TableSpec<unknown>;
+      const extra = Object.keys(spec.columns).map((c) => `, ${c}`).join('');
+      db.exec(`CREATE TABLE IF NOT EXISTS ${spec.table} (pk TEXT PRIMARY KEY${extra}, data TEXT NOT NULL)`);
+      for (const columns of spec.indexes) {
+        db.exec(
+          `CREATE INDEX IF NOT EXISTS idx_${spec.table}_${columns.join('_')} ON ${spec.table} (${columns.join(', ')})`,
+        );
+      }
+    }
+  } catch (e) {
+    const error = createStorageError(
+      DB_ERROR_CODES.INIT_FAILED,
+      'Failed to open SQLite database (requires Node.js >= 22.13)',
+      (e as Error).message,
+    );
+    auditLog.record(error.code, { error: error.details, filePath });
+    return [error, null];
+  }
+
+  const statements = new Map<CollectionName, TableStatements>();
+  for (const name of COLLECTIONS) {
+    const spec = TABLES[name] as TableSpec<unknown>;
+    const columns = ['pk', ...Object.keys(spec.columns), 'data'];
+    const updates = columns.slice(1).map((c) => `${c} = excluded.${c}`).join(', ');
+
+    statements.set(name, {
+      upsert: db.prepare(
+        `INSERT INTO ${spec.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')}) ` +
+        `ON CONFLICT(pk) DO UPDATE SET ${updates}`,
+      ),
+      remove: db.prepare(`DELETE FROM ${spec.table} WHERE pk = ?`),
+      selectAll: db.prepare(`SELECT pk, data FROM ${spec.table} ORDER BY rowid`),
+    });
+  }
+
+  const upsertMeta = db.prepare(
+    'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+  );
+
+  /** Last JSON written per table and key — the baseline for incremental saves. */
+  const written = new Map<CollectionName, Map<string, string>>();
+
+  async function load(): Promise<[AppError | null, DatabaseSchema | null]> {
+    try {
+      const metaRows = db.prepare('SELECT key, value FROM meta').all() as Array<{ key: string; value: string }>;
+      if (metaRows.length === 0) {
+        auditLog.trace('SQLite database empty, starting fresh');
+        return [null, null];
+      }
+
+      const meta: Record<string, unknown> = {};
+      for (const row of metaRows) meta[row.key] = JSON.parse(row.value);
+
+      const schema = { meta } as unknown as DatabaseSchema;
+      for (const name of COLLECTIONS) {
+        const rows = statements.get(name)!.selectAll.all() as Array<{ pk: string; data: string }>;
+        const baseline = new Map<string, string>();
+        (schema as unknown as Record<string, unknown[]>)[name] = rows.map((row) => {
+          baseline.set(row.pk, row.data);
+          return JSON.parse(row.data);
+        });
+        written.set(name, baseline);
+      }
+
+      return [null, schema];
+    } catch (e) {
+      const error = createStorageError(DB_ERROR_CODES.LOAD_FAILED, 'Failed to load SQLite database', (e as Error).message);
+      auditLog.record(error.code, { error: error.details, filePath });
+      return [error, null];
+    }
+  }
+
+  async function save(schema: DatabaseSchema): Promise<AppError | null> {
+    const next = new Map<CollectionName, Map<string, string>>();
+    let upserts = 0;
+    let deletes = 0;
+
+    try {
+      db.exec('BEGIN');
+
+      for (const name of COLLECTIONS) {
+        const spec = TABLES[name] as TableSpec<unknown>;
+        const stmts = statements.get(name)!;
+        const previous = written.get(name) ?? new Map<string, string>();
+        const current = new Map<string, string>();
+
+        for (const record of (schema[name] ?? []) as unknown[]) {
+          const key = spec.key(record);
+          const json = JSON.stringify(record);
+          current.set(key, json);
+
+          if (previous.get(key) !== json) {
+            stmts.upsert.run(key, ...Object.values(spec.columns).map((col) => col(record)), json);
+            upserts++;
+          }
+        }
+
+        for (const key of previous.keys()) {
+          if (!current.has(key)) {
+            stmts.remove.run(key);
+            deletes++;
+          }
+        }
+
+        next.set(name, current);
+      }
+
+      for (const [key, value] of Object.entries(schema.meta)) {
+        upsertMeta.run(key, JSON.stringify(value));
+      }
+
+      db.exec('COMMIT');
+    } catch (e) {
+      try { db.exec('ROLLBACK'); } catch { /* transaction already closed */ }
+
+      const error = createStorageError(DB_ERROR_CODES.PERSIST_FAILED, 'Failed to persist database', (e as Error).message);
+      auditLog.record(error.code, { error: error.details });
+      return error;
+    }
+
+    // Only move the baseline once the transaction is durable.
+    for (const [name, rows] of next) written.set(name, rows);
+    if (upserts + deletes > 0) {
+      auditLog.trace(`SQLite flush: ${upserts} rows written, ${deletes} removed`);
+    }
+    return null;
+  }
+
+  async function close(): Promise<void> {
+    try { db.close(); } catch { /* already closed */ }
+  }
+
+  return [null, { kind: 'sqlite', filePath, load, save, close }];
+}
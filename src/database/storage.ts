@@ -0,0 +1,106 @@
+/**
+ * @module database/storage
+ *
+ * Persistence backends behind {@link createDatabase}.  The database keeps
+ * every collection in memory ({@link IndexManager}); a storage backend only
+ * loads the schema once at start-up and saves it on each flush.
+ *
+ *   - {@link createJsonStorage}   — the whole schema in `database.json`,
+ *     rewritten atomically on every flush (the original format).
+ *   - `createSqliteStorage` (sqlite-storage.ts) — one table per collection,
+ *     only changed rows are written on each flush.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AppError } from '../assistant/types';
+import { auditLog } from '../assistant/audit-log';
+import { DatabaseSchema, DB_ERROR_CODES } from './types';
+
+// ---------------------------------------------------------------------------
+// Public shape
+// ---------------------------------------------------------------------------
+
+/**
+ * A persistence backend.
+ */
+export interface DatabaseStorage {
+  /** Backend name, for logs. */
+  kind: 'json' | 'sqlite';
+  /** File the data lives in. */
+  filePath: string;
+  /**
+   * Reads the stored schema.  `[null, null]` means nothing usable is stored
+   * and the database should start fresh.
+   */
+  load: () => Promise<[AppError | null, DatabaseSchema | null]>;
+  /** Persists the schema. */
+  save: (schema: DatabaseSchema) => Promise<AppError | null>;
+  /** Releases file handles.  The storage must not be used afterwards. */
+  close: () => Promise<void>;
+}
+
+function createStorageError(code: string, message: string, details?: string): AppError {
+  return { code, category: 'CONFIGURATION', message, details };
+}
+
+// ---------------------------------------------------------------------------
+// JSON file
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the JSON file backend (`<dataDir>/database.json`).
+ *
+ * Saves use an atomic write pattern:
+ *   1. Serialise into a temporary file next to the real one.
+ *   2. `rename` it over the real file.
+ *
+ * `rename` within the same filesystem is atomic on every major OS, so a
+ * crash between step 1 and step 2 leaves the previous valid file intact.
+ *
+ * @param dataDir - Directory holding `database.json`.
+ */
+export function createJsonStorage(dataDir: string): DatabaseStorage {
+  const filePath = path.join(dataDir, 'database.json');
+
+  async function load(): Promise<[AppError | null, DatabaseSchema | null]> {
+    const data = await fs.readFile(filePath, 'utf-8').catch(() => null);
+    if (!data) {
+      auditLog.trace('No database file found, starting fresh');
+      return [null, null];
+    }
+
+    const parsed = await Promise.resolve()
+      .then(() => JSON.parse(data) as DatabaseSchema)
+      .catch(() => null);
+
+    if (!parsed || !parsed.meta) {
+      auditLog.trace('Database file invalid, starting fresh');
+      return [null, null];
+    }
+
+    return [null, parsed];
+  }
+
+  async function save(schema: DatabaseSchema): Promise<AppError | null> {
+    const tmpPath = filePath + '.tmp';
+
+    return fs.writeFile(tmpPath, JSON.stringify(schema, null, 2), 'utf-8')
+      .then(() => fs.rename(tmpPath, filePath))   // atomic swap
+      .then(() => null)
+      .catch((e: Error) => {
+        // Best-effort cleanup of the tmp file so it does not linger.
+        fs.unlink(tmpPath).catch(() => { });
+
+        const error = createStorageError(
+          DB_ERROR_CODES.PERSIST_FAILED,
+          'Failed to persist database',
+          e.message
+        );
+        auditLog.record(error.code, { error: e.message });
+        return error;
+      });
+  }
+
+  return { kind: 'json', filePath, load, save, close: async () => { } };
+}
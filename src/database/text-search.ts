@@ -0,0 +1,36 @@
+/**
+ * @module database/text-search
+ *
+ * Tokenisation for the full-text index over the chat message buffer
+ * (see `IndexManager.chatMessageTerms` and `Database.searchChatMessages`).
+ *
+ * Text is lower-cased and stripped of diacritics, so "ação", "Acao" and
+ * "AÇÃO" are the same term, then split on anything that is not a letter or
+ * a digit.  Messages and queries go through the same function, which is
+ * all that keeps the index and its lookups consistent.
+ */
+
+/** Shorter tokens ("e", "a", "o") are not indexed. */
+export const MIN_SEARCH_TERM_LENGTH = 2;
+
+/**
+ * Lower-cases and removes diacritics (accents).
+ *
+ * @param text - Input string with possible accents.
+ */
+export function normalizeSearchText(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Splits text into its distinct search terms.
+ *
+ * @param text - Message text or search query.
+ * @returns Normalised terms, each once, in order of first appearance.
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const tokens = normalizeSearchText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= MIN_SEARCH_TERM_LENGTH);
+  return [...new Set(tokens)];
+}
@@ -4,6 +4,8 @@
  * =============================================================================
  */
 
+import type { RetentionOverrides } from './retention';
+
 /**
  * Conversation message stored in database
  */
@@ -30,6 +32,42 @@ export interface LinkRecord {
   expiresAt: number;  // Unix timestamp ms (24h from creation)
 }
 
+/**
+ * Cached expansion of a short link (t.co, bit.ly, vm.tiktok.com, …) to the
+ * URL it redirects to (Duylhou feature).  Short links never change target,
+ * so the cache is long-lived and saves a network round-trip per repeat.
+ */
+export interface ShortLinkRecord {
+  /** Short link key: lowercased host + path, no query or trailing slash. */
+  shortUrl: string;
+  /** Final URL after following redirects. */
+  resolvedUrl: string;
+  resolvedAt: number;  // Unix timestamp ms
+}
+
+/**
+ * Media fingerprint for duplicate detection of re-uploaded photos and
+ * videos (Duylhou feature).  Kept next to {@link LinkRecord} with the same
+ * expiry window.
+ */
+export interface MediaFingerprintRecord {
+  id: number;
+  chatId: number;
+  userId: number;
+  messageId: number;
+  mediaType: 'photo' | 'video' | 'animation';
+  /** Telegram's `file_unique_id` — identical for forwards of the same file. */
+  fileUniqueId: string;
+  /**
+   * 64-bit difference hash (16 hex chars) of the image or video thumbnail,
+   * computed locally.  Catches re-uploads that get a new `file_unique_id`.
+   * `null` when hashing failed.
+   */
+  perceptualHash: string | null;
+  createdAt: number;  // Unix timestamp ms
+  expiresAt: number;  // Unix timestamp ms
+}
+
 /**
  * Duylhou incident record - tracks when someone posted a duplicate
  */
@@ -41,18 +79,111 @@ export interface DuylhouIncident {
   normalizedUrl: string;
   createdAt: number;      // Unix timestamp ms
   month: string;          // YYYY-MM format for monthly aggregation
+  /** When the original was posted (ms) — absent on incidents recorded before stats existed. */
+  originalPostedAt?: number;
 }
 
 /**
- * Monthly leaderboard record - persisted ranking
+ * Monthly leaderboard record - persisted ranking, one per user, chat and month
  */
 export interface DuylhouLeaderboardEntry {
   userId: number;
+  chatId: number;         // Chat the incidents happened in
   month: string;          // YYYY-MM format
   count: number;          // Number of Duylhou incidents
   lastIncidentAt: number; // Unix timestamp ms
 }
 
+/**
+ * Record of an end-of-month "Duylhou do Mês" award post.
+ * One record per chat and month — its presence means the award was
+ * already sent, so a restart on the 1st does not post it twice.
+ */
+export interface DuylhouAwardRecord {
+  /** Month being awarded, YYYY-MM. */
+  month: string;
+  /** Chat the award was posted to. */
+  chatId: number;
+  /** Telegram message ID of the award post. */
+  messageId: number;
+  /** Users crowned for the month (several on a tie, empty for a clean month). */
+  winnerUserIds: number[];
+  /** Unix timestamp (ms) when the award was posted. */
+  sentAt: number;
+}
+
+/**
+ * Per-chat Duylhou settings, edited by chat admins via `/duylhou config`.
+ * Chats without a record use {@link DEFAULT_DUYLHOU_SETTINGS}.
+ */
+export interface DuylhouChatSettings {
+  chatId: number;
+  /** Master switch — `false` stops duplicate checks in the chat. */
+  enabled: boolean;
+  /** How long links/media count as "already posted".  `null` = global `linkExpiryMs`. */
+  expiryMs: number | null;
+  /** Domains never checked (subdomains included), e.g. `docs.google.com`. */
+  exemptDomains: string[];
+  /** Users whose posts are never checked nor registered. */
+  exemptUserIds: number[];
+  /** Sticker set to pick the callout sticker from.  `null` = global sticker. */
+  stickerSetName: string | null;
+  updatedAt: number;  // Unix timestamp ms
+  /** Admin who made the last change (0 for defaults). */
+  updatedBy: number;
+}
+
+/**
+ * Settings used for chats that were never configured.
+ */
+export const DEFAULT_DUYLHOU_SETTINGS: Omit<DuylhouChatSettings, 'chatId' | 'updatedAt' | 'updatedBy'> = {
+  enabled: true,
+  expiryMs: null,
+  exemptDomains: [],
+  exemptUserIds: [],
+  stickerSetName: null,
+};
+
+/**
+ * A single vote cast on a Duylhou appeal.
+ */
+export interface DuylhouAppealVote {
+  userId: number;
+  /** `true` = forgive (remove the incident), `false` = keep it. */
+  forgive: boolean;
+}
+
+/**
+ * A group vote contesting a Duylhou incident (false positive, intentional
+ * re-share…).  Every appeal is kept as its own record with its outcome,
+ * even after the incident itself is removed, so the snapshot fields below
+ * are copied from the incident when the appeal opens.
+ */
+export interface DuylhouAppealRecord {
+  id: number;
+  /** The contested incident. */
+  incidentId: number;
+  chatId: number;
+  /** Snapshot of the incident's offender. */
+  offenderId: number;
+  /** Snapshot of the incident's original poster. */
+  originalUserId: number;
+  /** Snapshot of the incident's URL. */
+  normalizedUrl: string;
+  /** User who pressed "Contestar". */
+  requestedBy: number;
+  /** Telegram message ID of the vote message (0 until it is sent). */
+  messageId: number;
+  votes: DuylhouAppealVote[];
+  status: 'open' | 'accepted' | 'rejected';
+  /** Unix timestamp (ms) when the appeal was opened. */
+  createdAt: number;
+  /** Unix timestamp (ms) when voting closes. */
+  closesAt: number;
+  /** Unix timestamp (ms) when the outcome was decided, `null` while open. */
+  resolvedAt: number | null;
+}
+
 /**
  * Rate limit record
  */
@@ -75,10 +206,38 @@ export interface ChatMessageRecord {
   username: string;
   /** Plain-text message content. */
   text: string;
+  /**
+   * Telegram message ID, for linking back to the message.  Absent on
+   * messages buffered before it was recorded.
+   */
+  messageId?: number;
+  /** `messageId` of the message this one replies to. */
+  replyToMessageId?: number;
+  /** Kind of media attached; `text` then holds the caption, if any. */
+  mediaType?: ChatMediaType;
+  /** Display name of the original author when the message was forwarded. */
+  forwardOrigin?: string;
   /** Unix timestamp (ms) when the message was received. */
   createdAt: number;
+  /** Unix timestamp (ms) of the last edit; `text` is the edited version. */
+  editedAt?: number;
 }
 
+/**
+ * Media attached to a buffered chat message.
+ */
+export type ChatMediaType =
+  | 'photo'
+  | 'video'
+  | 'animation'
+  | 'video_note'
+  | 'audio'
+  | 'voice'
+  | 'document'
+  | 'sticker'
+  | 'poll'
+  | 'location';
+
 /**
  * A persisted `/summary` output so the group does not lose its last summary
  * on bot restart.  Only the most-recent summary per chat is shown to users;
@@ -147,12 +306,22 @@ export interface UserMemoryRecord {
 export interface DatabaseSchema {
   conversations: ConversationRecord[];
   links: LinkRecord[];
+  /** Short link → expanded URL cache. */
+  shortLinks: ShortLinkRecord[];
+  /** Photo/video fingerprints for media duplicate detection. */
+  mediaFingerprints: MediaFingerprintRecord[];
   rateLimits: RateLimitRecord[];
   duylhouIncidents: DuylhouIncident[];
   duylhouLeaderboard: DuylhouLeaderboardEntry[];
+  /** End-of-month award posts already sent, one per chat and month. */
+  duylhouAwards: DuylhouAwardRecord[];
+  /** Appeals against Duylhou incidents and their outcomes. */
+  duylhouAppeals: DuylhouAppealRecord[];
+  /** Per-chat Duylhou settings (only chats that changed something). */
+  duylhouSettings: DuylhouChatSettings[];
   todos: TodoRecord[];
   summaries: SummaryRecord[];
-  /** Raw group-chat message buffer used by /summary. */
+  /** Raw group-chat messages: /buscar history, newest ones read by /summary. */
   chatMessages: ChatMessageRecord[];
   /** Long-term user memories for RAG-lite retrieval. */
   userMemories: UserMemoryRecord[];
@@ -161,11 +330,15 @@ export interface DatabaseSchema {
     lastSaved: number;
     conversationNextId: number;
     linkNextId: number;
+    mediaFingerprintNextId: number;
     duylhouIncidentNextId: number;
+    duylhouAppealNextId: number;
     todoNextId: number;
     summaryNextId: number;
     chatMessageNextId: number;
     userMemoryNextId: number;
+    /** Last journal entry contained in this snapshot (see journal.ts). */
+    journalSeq: number;
   };
 }
 
@@ -177,14 +350,45 @@ export interface DatabaseConfig {
   persistIntervalMs: number;  // How often to persist to disk
   linkExpiryMs: number;       // How long links are remembered (default 24h)
   conversationMaxMessages: number;  // Max messages per user/chat (default 10)
+  /** Days conversation history is kept (default: no age limit). */
+  conversationMaxAgeDays?: number;
   leaderboardRetentionDays: number; // How long to keep leaderboard data (default 30)
   cleanupIntervalMs: number;        // How often to run cleanup (default 24h)
-  /** Maximum age (ms) of buffered chat messages before they are purged (default 24 h). */
+  /** Maximum age (ms) of the messages /summary reads (default 24 h). */
   chatBufferMaxAgeMs?: number;
+  /** Days chat messages stay searchable with /buscar (default 7). */
+  searchHistoryDays?: number;
+  /** Messages per chat kept for /buscar (default 2000). */
+  searchHistoryMaxMessages?: number;
   /** Maximum memories per user before eviction (default 50). */
   maxMemoriesPerUser?: number;
   /** Days after which unused memories start decaying (default 30). */
   memoryDecayDays?: number;
+  /** Days a resolved short link stays cached (default 30). */
+  shortLinkRetentionDays?: number;
+  /** Storage backend: `database.json` (default) or `database.sqlite`. */
+  backend?: 'json' | 'sqlite';
+  /**
+   * Flush this many ms after a change instead of only on the persist
+   * interval (default 1000 for sqlite, off for json).
+   */
+  writeDelayMs?: number;
+  /**
+   * Append every mutating operation to `database.journal` and replay it on
+   * start-up, so a crash between flushes loses nothing (default true).
+   */
+  journal?: boolean;
+  /** How often a snapshot is written to `<dataDir>/backups` (default 24 h, 0 = never). */
+  backupIntervalMs?: number;
+  /** Snapshots kept at most (default 14). */
+  backupMaxCount?: number;
+  /** Snapshots older than this are deleted (default 30). */
+  backupMaxAgeDays?: number;
+  /**
+   * Per-collection changes to the retention policies derived from the
+   * fields above (see retention.ts).
+   */
+  retention?: RetentionOverrides;
 }
 
 /**
@@ -196,4 +400,10 @@ export const DB_ERROR_CODES = {
   LOAD_FAILED: 'DB_003',
   QUERY_FAILED: 'DB_004',
   INVALID_DATA: 'DB_005',
+  JOURNAL_FAILED: 'DB_006',
+  BACKUP_FAILED: 'DB_007',
+  RESTORE_IN_PROGRESS: 'DB_008',
+  SCHEMA_TOO_NEW: 'DB_009',
+  INVALID_RETENTION: 'DB_010',
+  ARCHIVE_FAILED: 'DB_011',
 } as const;
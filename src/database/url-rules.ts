@@ -0,0 +1,390 @@
+/**
+ * =============================================================================
+ * URL Rules - data-driven normalisation rules for duplicate detection
+ *
+ * The tracking parameters, content patterns and short-link shapes used by
+ * `link-utils.ts` are plain data.  The built-in set ({@link DEFAULT_URL_RULES})
+ * can be extended or replaced by a JSON file in the data directory
+ * (`url-rules.json` by default):
+ *
+ *   {
+ *     "version": 1,
+ *     "extendDefaults": true,
+ *     "trackingParams": ["xmt"],
+ *     "contentPatterns": [
+ *       { "name": "vimeo", "pattern": "vimeo\\.com/(?:video/)?(\\d+)",
+ *         "flags": "i", "normalize": "vimeo.com/{1}" }
+ *     ],
+ *     "shortLinkPatterns": ["^on\\.soundcloud\\.com/[A-Za-z0-9]+$"]
+ *   }
+ *
+ * `normalize` is a template: `{n}` inserts capture group n, `{n:lower}`
+ * inserts it lowercased.  With `extendDefaults` (the default) file entries
+ * are added to the built-ins — a content pattern with a built-in's `name`
+ * replaces it; with `false` the file's lists replace the built-ins.
+ *
+ * The loader watches the file and swaps the active rules on change.  An
+ * invalid file is rejected as a whole and the previous rules stay active.
+ * =============================================================================
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AppError } from '../assistant/types';
+import { auditLog } from '../assistant/audit-log';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One content pattern as written in the rules file. */
+export interface ContentPatternDefinition {
+  /** Unique label, shown by the admin test command. */
+  name: string;
+  /** Regular expression source matched against the full URL. */
+  pattern: string;
+  /** RegExp flags — only `i`, `m`, `s`, `u` are allowed. */
+  flags?: string;
+  /** Output template (`{1}`, `{2:lower}`, …). */
+  normalize: string;
+}
+
+/** Shape of the rules file. */
+export interface UrlRulesFile {
+  version: 1;
+  /** Merge with the built-in rules (default) or replace them. */
+  extendDefaults?: boolean;
+  /** Query parameters stripped during generic normalisation. */
+  trackingParams?: string[];
+  /** Checked in order; the first match decides the normalised form. */
+  contentPatterns?: ContentPatternDefinition[];
+  /** Matched (case-insensitive) against `host + path` of a URL. */
+  shortLinkPatterns?: string[];
+}
+
+/** A content pattern ready to run. */
+export interface CompiledContentPattern {
+  name: string;
+  pattern: RegExp;
+  normalize: (match: RegExpMatchArray) => string;
+}
+
+/** The rule set consumed by `link-utils.ts`. */
+export interface CompiledUrlRules {
+  trackingParams: Set<string>;
+  contentPatterns: CompiledContentPattern[];
+  shortLinkPatterns: RegExp[];
+  /** Where the rules came from — `'default'` or the file path. */
+  source: string;
+  loadedAt: number;
+}
+
+export const URL_RULES_ERROR_CODES = {
+  READ_FAILED: 'URLRULES_001',
+  INVALID: 'URLRULES_002',
+} as const;
+
+// ---------------------------------------------------------------------------
+// Built-in rules
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_URL_RULES: Required<UrlRulesFile> = {
+  version: 1,
+  extendDefaults: true,
+  trackingParams: [
+    // UTM parameters
+    'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
+    // Social media
+    'fbclid', 'igshid', 'igsh', 's', 't', 'si',
+    // Analytics
+    'ref', 'source', 'mc_cid', 'mc_eid',
+    // Twitter/X
+    'ref_src', 'ref_url',
+    // YouTube
+    'feature', 'ab_channel',
+    // General
+    'share', 'shared', 'from',
+  ],
+  contentPatterns: [
+    { name: 'instagram', pattern: 'instagram\\.com\\/(?:p|reel|reels)\\/([A-Za-z0-9_-]+)', flags: 'i', normalize: 'instagram.com/p/{1}' },
+    { name: 'twitter', pattern: '(?:twitter\\.com|x\\.com)\\/([A-Za-z0-9_]+)\\/status\\/(\\d+)', flags: 'i', normalize: 'x.com/{1:lower}/status/{2}' },
+    { name: 'youtube', pattern: '(?:youtube\\.com\\/watch\\?v=|youtu\\.be\\/)([A-Za-z0-9_-]{11})', flags: 'i', normalize: 'youtube.com/watch?v={1}' },
+    { name: 'youtube-shorts', pattern: 'youtube\\.com\\/shorts\\/([A-Za-z0-9_-]{11})', flags: 'i', normalize: 'youtube.com/shorts/{1}' },
+    { name: 'tiktok', pattern: 'tiktok\\.com\\/@([^\\/]+)\\/video\\/(\\d+)', flags: 'i', normalize: 'tiktok.com/@{1:lower}/video/{2}' },
+    { name: 'tiktok-short', pattern: 'vm\\.tiktok\\.com\\/([A-Za-z0-9]+)', flags: 'i', normalize: 'vm.tiktok.com/{1}' },
+    { name: 'reddit', pattern: 'reddit\\.com\\/r\\/([^\\/]+)\\/comments\\/([A-Za-z0-9]+)', flags: 'i', normalize: 'reddit.com/r/{1:lower}/comments/{2}' },
+    { name: 'threads', pattern: 'threads\\.(?:net|com)\\/@([^\\/]+)\\/post\\/([A-Za-z0-9_-]+)', flags: 'i', normalize: 'threads.net/@{1:lower}/post/{2}' },
+    { name: 'bluesky', pattern: 'bsky\\.app\\/profile\\/([^\\/]+)\\/post\\/([a-z0-9]+)', flags: 'i', normalize: 'bsky.app/profile/{1:lower}/post/{2}' },
+    { name: 'facebook-reel', pattern: 'facebook\\.com\\/reel\\/(\\d+)', flags: 'i', normalize: 'facebook.com/reel/{1}' },
+    { name: 'twitch-clip', pattern: '(?:clips\\.twitch\\.tv\\/|twitch\\.tv\\/[^\\/]+\\/clip\\/)([A-Za-z0-9_-]+)', flags: 'i', normalize: 'clips.twitch.tv/{1}' },
+  ],
+  shortLinkPatterns: [
+    '^t\\.co\\/[A-Za-z0-9]+$',
+    '^bit\\.ly\\/[A-Za-z0-9_-]+$',
+    '^tinyurl\\.com\\/[A-Za-z0-9_-]+$',
+    '^(?:vm|vt)\\.tiktok\\.com\\/[A-Za-z0-9]+$',
+    '^tiktok\\.com\\/t\\/[A-Za-z0-9]+$',
+    '^redd\\.it\\/[A-Za-z0-9]+$',
+    '^reddit\\.com\\/r\\/[^\\/]+\\/s\\/[A-Za-z0-9]+$',
+    // redd.it lands here first; the next hop adds the subreddit.
+    '^reddit\\.com\\/comments\\/[A-Za-z0-9]+$',
+    '^fb\\.watch\\/[A-Za-z0-9_-]+$',
+    '^(?:m\\.)?facebook\\.com\\/share\\/[rv]\\/[A-Za-z0-9]+$',
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Validation & compilation
+// ---------------------------------------------------------------------------
+
+const ALLOWED_FLAGS = /^[imsu]*$/;
+const TEMPLATE_TOKEN = /\{(\d+)(:lower)?\}/g;
+
+function invalid(message: string): [AppError, null] {
+  return [{ code: URL_RULES_ERROR_CODES.INVALID, category: 'CONFIGURATION', message }, null];
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * Compiles a regular expression, returning `null` instead of throwing.
+ */
+function safeRegExp(source: string, flags: string): RegExp | null {
+  try { return new RegExp(source, flags); } catch { return null; }
+}
+
+/**
+ * Compiles one content pattern and checks its template only references
+ * capture groups that exist.
+ */
+function compileContentPattern(
+  def: ContentPatternDefinition,
+  index: number,
+): [AppError | null, CompiledContentPattern | null] {
+  const where = `contentPatterns[${index}]`;
+  if (!def || typeof def !== 'object') return invalid(`${where} must be an object`);
+  if (typeof def.name !== 'string' || !def.name) return invalid(`${where}.name must be a non-empty string`);
+  if (typeof def.pattern !== 'string' || !def.pattern) return invalid(`${where}.pattern must be a non-empty string`);
+  if (typeof def.normalize !== 'string' || !def.normalize) return invalid(`${where}.normalize must be a non-empty string`);
+
+  const flags = def.flags ?? '';
+  if (typeof flags !== 'string' || !ALLOWED_FLAGS.test(flags)) {
+    return invalid(`${where}.flags may only contain i, m, s, u`);
+  }
+
+  const pattern = safeRegExp(def.pattern, flags);
+  if (!pattern) return invalid(`${where}.pattern is not a valid regular expression`);
+
+  // Matching the empty alternative reveals the number of capture groups.
+  const groupCount = new RegExp(`${def.pattern}|`, flags).exec('')!.length - 1;
+  for (const [, group] of def.normalize.matchAll(TEMPLATE_TOKEN)) {
+    if (Number(group) < 1 || Number(group) > groupCount) {
+      return invalid(`${where}.normalize references group {${group}} but the pattern has ${groupCount}`);
+    }
+  }
+
+  const template = def.normalize;
+  return [null, {
+    name: def.name,
+    pattern,
+    normalize: (m) => template.replace(TEMPLATE_TOKEN, (_, group: string, lower?: string) => {
+      const value = m[Number(group)] ?? '';
+      return lower ? value.toLowerCase() : value;
+    }),
+  }];
+}
+
+/**
+ * Validates a parsed rules file and compiles it (merged with the defaults
+ * unless `extendDefaults` is `false`).
+ *
+ * @param raw    - Parsed JSON.
+ * @param source - Label stored on the result (file path or `'default'`).
+ * @returns Result tuple with the compiled rules.
+ */
+export function compileUrlRules(raw: unknown, source: string): [AppError | null, CompiledUrlRules | null] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return invalid('rules must be a JSON object');
+
+  const file = raw as Partial<UrlRulesFile>;
+  if (file.version !== 1) return invalid('unsupported "version" (expected 1)');
+  if (file.extendDefaults !== undefined && typeof file.extendDefaults !== 'boolean') {
+    return invalid('"extendDefaults" must be a boolean');
+  }
+  if (file.trackingParams !== undefined && !isStringArray(file.trackingParams)) {
+    return invalid('"trackingParams" must be an array of strings');
+  }
+  if (file.contentPatterns !== undefined && !Array.isArray(file.contentPatterns)) {
+    return invalid('"contentPatterns" must be an array');
+  }
+  if (file.shortLinkPatterns !== undefined && !isStringArray(file.shortLinkPatterns)) {
+    return invalid('"shortLinkPatterns" must be an array of strings');
+  }
+
+  const extend = file.extendDefaults !== false && source !== 'default';
+  const base = extend ? DEFAULT_URL_RULES : { trackingParams: [], contentPatterns: [], shortLinkPatterns: [] };
+
+  // --- content patterns: file first, then defaults not overridden by name ---
+  const definitions = file.contentPatterns ?? [];
+  const names = new Set<string>();
+  const contentPatterns: CompiledContentPattern[] = [];
+
+  for (let i = 0; i < definitions.length; i++) {
+    const [err, compiled] = compileContentPattern(definitions[i], i);
+    if (err || !compiled) return [err, null];
+    if (names.has(compiled.name)) return invalid(`duplicate content pattern name "${compiled.name}"`);
+    names.add(compiled.name);
+    contentPatterns.push(compiled);
+  }
+
+  for (let i = 0; i < base.contentPatterns.length; i++) {
+    if (names.has(base.contentPatterns[i].name)) continue;
+    const [err, compiled] = compileContentPattern(base.contentPatterns[i], i);
+    if (err || !compiled) return [err, null];
+    contentPatterns.push(compiled);
+  }
+
+  // --- short links ---
+  const shortLinkPatterns: RegExp[] = [];
+  for (const [i, sourcePattern] of [...(file.shortLinkPatterns ?? []), ...base.shortLinkPatterns].entries()) {
+    const pattern = safeRegExp(sourcePattern, 'i');
+    if (!pattern) return invalid(`shortLinkPatterns[${i}] is not a valid regular expression`);
+    shortLinkPatterns.push(pattern);
+  }
+
+  const trackingParams = new Set(
+    [...base.trackingParams, ...(file.trackingParams ?? [])].map((p) => p.toLowerCase()),
+  );
+
+  return [null, { trackingParams, contentPatterns, shortLinkPatterns, source, loadedAt: Date.now() }];
+}
+
+// ---------------------------------------------------------------------------
+// Active rule set
+// ---------------------------------------------------------------------------
+
+const [, builtInRules] = compileUrlRules(DEFAULT_URL_RULES, 'default');
+let activeRules: CompiledUrlRules = builtInRules!;
+
+/** Rules currently used by `normalizeUrl` / `isShortLink`. */
+export function getActiveUrlRules(): CompiledUrlRules {
+  return activeRules;
+}
+
+/**
+ * Swaps the active rules.  `null` restores the built-in set.
+ */
+export function setActiveUrlRules(rules: CompiledUrlRules | null): void {
+  activeRules = rules ?? builtInRules!;
+}
+
+// ---------------------------------------------------------------------------
+// File loader (hot reload)
+// ---------------------------------------------------------------------------
+
+/**
+ * Configuration for the rules file loader.
+ */
+export interface UrlRulesLoaderConfig {
+  /** Directory holding the rules file (the bot's `DATA_DIR`). */
+  dataDir: string;
+  /** File name inside `dataDir`.  Default `url-rules.json`. */
+  fileName?: string;
+  /** How often the file is polled for changes.  Default 5 s. */
+  pollIntervalMs?: number;
+}
+
+/** Public surface of the loader. */
+export interface UrlRulesLoader {
+  /**
+   * (Re)loads the file now.  A missing file restores the built-in rules;
+   * an invalid one keeps the current rules and returns the error.
+   */
+  load: () => AppError | null;
+  /** Loads once and starts watching the file. */
+  start: () => void;
+  /** Stops watching. */
+  stop: () => void;
+  /** Full path of the watched file. */
+  filePath: string;
+  /** Error of the last failed load, cleared by the next successful one. */
+  getLastError: () => AppError | null;
+}
+
+/**
+ * Creates the rules file loader.
+ *
+ * @param config - See {@link UrlRulesLoaderConfig}.
+ */
+export function createUrlRulesLoader(config: UrlRulesLoaderConfig): UrlRulesLoader {
+  const { dataDir, fileName = 'url-rules.json', pollIntervalMs = 5000 } = config;
+  const filePath = path.join(dataDir, fileName);
+
+  let watching = false;
+  let lastError: AppError | null = null;
+
+  function load(): AppError | null {
+    let text: string;
+    try {
+      text = fs.readFileSync(filePath, 'utf-8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        if (activeRules.source !== 'default') auditLog.trace('URL rules file removed, using built-in rules');
+        setActiveUrlRules(null);
+        lastError = null;
+        return null;
+      }
+      lastError = {
+        code: URL_RULES_ERROR_CODES.READ_FAILED,
+        category: 'CONFIGURATION',
+        message: `Could not read ${filePath}`,
+        details: (e as Error).message,
+      };
+      auditLog.record(lastError.code, { error: lastError.details });
+      return lastError;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      [lastError] = invalid(`invalid JSON: ${(e as Error).message}`);
+      auditLog.record(lastError.code, { file: filePath, error: lastError.message });
+      return lastError;
+    }
+
+    const [err, rules] = compileUrlRules(parsed, filePath);
+    if (err || !rules) {
+      lastError = err;
+      auditLog.record(err?.code || URL_RULES_ERROR_CODES.INVALID, { file: filePath, error: err?.message });
+      return lastError;
+    }
+
+    setActiveUrlRules(rules);
+    lastError = null;
+    auditLog.trace(
+      `URL rules loaded from ${filePath}: ${rules.contentPatterns.length} patterns, ` +
+      `${rules.trackingParams.size} tracking params, ${rules.shortLinkPatterns.length} short-link patterns`,
+    );
+    return null;
+  }
+
+  function start(): void {
+    if (watching) return;
+    load();
+    // watchFile (polling) survives editors that replace the file on save.
+    fs.watchFile(filePath, { interval: pollIntervalMs, persistent: false }, (curr, prev) => {
+      if (curr.mtimeMs !== prev.mtimeMs || curr.size !== prev.size) load();
+    });
+    watching = true;
+  }
+
+  function stop(): void {
+    if (!watching) return;
+    fs.unwatchFile(filePath);
+    watching = false;
+  }
+
+  return { load, start, stop, filePath, getLastError: () => lastError };
+}
@@ -0,0 +1,134 @@
+/**
+ * =============================================================================
+ * Chat archive tool — export one chat's data, or import it on another host
+ *
+ * Usage (with the bot stopped):
+ *   npm run db:chat-archive -- export <chatId> [--out=<file>]
+ *   npm run db:chat-archive -- import <file> [--chat=<chatId>]
+ *
+ * Options:
+ *   --data-dir=<dir>  data directory (default: ./data)
+ *   --sqlite          the bot runs with DB_BACKEND=sqlite
+ *   --out=<file>      export target (default: chat-<chatId>.jsonl)
+ *   --chat=<chatId>   import under a different chat ID (the group moved)
+ *
+ * The format and merge rules are documented in src/database/chat-archive.ts.
+ * An import first saves the current data as a `pre-import` snapshot.  Chat
+ * admins can also export their chat from Telegram with /exportar.
+ * =============================================================================
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createJsonStorage, DatabaseStorage } from '../database/storage';
+import { createSqliteStorage } from '../database/sqlite-storage';
+import { createEmptySchema, migrateSchema } from '../database/schema-migrator';
+import { getBackupDir, writeBackup } from '../database/backups';
+import {
+  CHAT_ARCHIVE_COLLECTIONS,
+  exportChatArchive,
+  importChatArchive,
+  parseChatArchive,
+  serializeChatArchive,
+} from '../database/chat-archive';
+import { formatError } from '../assistant/errors';
+
+const USAGE = 'Usage: npm run db:chat-archive -- export <chatId> [--out=<file>] | import <file> [--chat=<chatId>] [--data-dir=<dir>] [--sqlite]';
+
+function flagValue(flags: string[], name: string): string | undefined {
+  const flag = flags.find((f) => f.startsWith(`--${name}=`));
+  return flag?.slice(name.length + 3);
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const flags = args.filter((a) => a.startsWith('--'));
+  const [command, target] = args.filter((a) => !a.startsWith('--'));
+
+  const chatFlag = flagValue(flags, 'chat');
+  const chatId = Number(command === 'export' ? target : chatFlag ?? 0);
+  if (!(command === 'export' || command === 'import') || !target || !Number.isInteger(chatId)) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const dataDir = path.resolve(flagValue(flags, 'data-dir') ?? path.join(__dirname, '../../data'));
+
+  let storage: DatabaseStorage;
+  if (flags.includes('--sqlite')) {
+    const [openError, sqlite] = createSqliteStorage(path.join(dataDir, 'database.sqlite'));
+    if (openError || !sqlite) {
+      console.error(formatError(openError!));
+      return 1;
+    }
+    storage = sqlite;
+  } else {
+    storage = createJsonStorage(dataDir);
+  }
+
+  try {
+    const [loadError, loaded] = await storage.load();
+    if (loadError || (!loaded && command === 'export')) {
+      console.error(loadError ? formatError(loadError) : `No database in ${storage.filePath}`);
+      return 1;
+    }
+    // Importing on a new host starts from an empty database.
+    const schema = loaded ?? createEmptySchema();
+    const [migrationError] = migrateSchema(schema);
+    if (migrationError) {
+      console.error(formatError(migrationError));
+      return 1;
+    }
+
+    if (command === 'export') {
+      const archive = exportChatArchive(schema, chatId, Date.now(), { includeTodos: true });
+      const outFile = path.resolve(flagValue(flags, 'out') ?? `chat-${chatId}.jsonl`);
+      await fs.writeFile(outFile, serializeChatArchive(archive), 'utf-8');
+      for (const collection of CHAT_ARCHIVE_COLLECTIONS) {
+        console.log(`  ${collection.padEnd(20)} ${archive.header.counts[collection]}`);
+      }
+      console.log(`Exported chat ${chatId} to ${outFile}`);
+      return 0;
+    }
+
+    const [parseError, archive] = parseChatArchive(await fs.readFile(path.resolve(target), 'utf-8'));
+    if (parseError || !archive) {
+      console.error(formatError(parseError!));
+      return 1;
+    }
+
+    // Unflushed journal entries would be replayed on top of the import.
+    const journal = await fs.stat(path.join(dataDir, 'database.journal')).catch(() => null);
+    if (journal && journal.size > 0) {
+      console.error('database.journal holds unflushed operations; start and stop the bot once, then import again.');
+      return 1;
+    }
+
+    if (loaded) {
+      const [backupError, backup] = await writeBackup(getBackupDir(dataDir), loaded, 'pre-import');
+      if (backupError || !backup) {
+        console.error(formatError(backupError!));
+        return 1;
+      }
+      console.log(`Current data saved as ${backup.name}`);
+    }
+
+    const report = importChatArchive(schema, archive, { targetChatId: chatFlag ? chatId : undefined });
+
+    const saveError = await storage.save(schema);
+    if (saveError) {
+      console.error(formatError(saveError));
+      return 1;
+    }
+
+    for (const collection of CHAT_ARCHIVE_COLLECTIONS) {
+      console.log(`  ${collection.padEnd(20)} +${report.added[collection]}  (${report.skipped[collection]} already present)`);
+    }
+    console.log(`Imported chat ${archive.header.chatId} as ${report.chatId} into ${storage.filePath}`);
+    return 0;
+  } finally {
+    await storage.close();
+  }
+}
+
+main().then((code) => process.exit(code));
@@ -0,0 +1,135 @@
+/**
+ * =============================================================================
+ * Offline backup tool — list, create and restore database snapshots
+ *
+ * Usage (with the bot stopped):
+ *   npm run db:backup -- list
+ *   npm run db:backup -- create
+ *   npm run db:backup -- restore <file name> [--force]
+ *
+ * Options:
+ *   --data-dir=<dir>  data directory (default: ./data)
+ *   --sqlite          the bot runs with DB_BACKEND=sqlite
+ *
+ * Snapshots live in `<dataDir>/backups` (see src/database/backups.ts); the
+ * running bot writes one every 24 h and offers the same via `/backup`.
+ * A restore first saves the current data as a `pre-restore` snapshot.  It
+ * refuses while `database.journal` holds operations not yet flushed into
+ * the data file (the bot was killed rather than stopped) unless `--force`.
+ * =============================================================================
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createJsonStorage, DatabaseStorage } from '../database/storage';
+import { createSqliteStorage } from '../database/sqlite-storage';
+import { migrateSchema } from '../database/schema-migrator';
+import { getBackupDir, listBackups, readBackup, writeBackup } from '../database/backups';
+import { formatError } from '../assistant/errors';
+
+const USAGE = 'Usage: npm run db:backup -- list | create | restore <file name> [--force] [--data-dir=<dir>] [--sqlite]';
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const flags = args.filter((a) => a.startsWith('--'));
+  const [command, name] = args.filter((a) => !a.startsWith('--'));
+
+  const dataDirFlag = flags.find((f) => f.startsWith('--data-dir='));
+  const dataDir = path.resolve(dataDirFlag ? dataDirFlag.slice('--data-dir='.length) : path.join(__dirname, '../../data'));
+  const backupDir = getBackupDir(dataDir);
+
+  if (command === 'list') {
+    const backups = await listBackups(backupDir);
+    if (backups.length === 0) console.log(`No backups in ${backupDir}`);
+    for (const backup of backups) {
+      console.log(`${backup.name}  ${formatSize(backup.sizeBytes).padStart(9)}  ${new Date(backup.createdAt).toISOString()}`);
+    }
+    return 0;
+  }
+
+  if (command !== 'create' && !(command === 'restore' && name)) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  let storage: DatabaseStorage;
+  if (flags.includes('--sqlite')) {
+    const [openError, sqlite] = createSqliteStorage(path.join(dataDir, 'database.sqlite'));
+    if (openError || !sqlite) {
+      console.error(formatError(openError!));
+      return 1;
+    }
+    storage = sqlite;
+  } else {
+    storage = createJsonStorage(dataDir);
+  }
+
+  try {
+    const [loadError, current] = await storage.load();
+    if (loadError) {
+      console.error(formatError(loadError));
+      return 1;
+    }
+
+    if (command === 'create') {
+      if (!current) {
+        console.error(`Nothing to back up in ${storage.filePath}`);
+        return 1;
+      }
+      const [writeError, backup] = await writeBackup(backupDir, current, 'manual');
+      if (writeError || !backup) {
+        console.error(formatError(writeError!));
+        return 1;
+      }
+      console.log(`Created ${path.join(backupDir, backup.name)}`);
+      return 0;
+    }
+
+    // restore
+    const journalPath = path.join(dataDir, 'database.journal');
+    const journal = await fs.stat(journalPath).catch(() => null);
+    if (journal && journal.size > 0 && !flags.includes('--force')) {
+      console.error(`${journalPath} holds unflushed operations; start and stop the bot once, or rerun with --force to discard them.`);
+      return 1;
+    }
+
+    const [readError, restored] = await readBackup(backupDir, name);
+    if (readError || !restored) {
+      console.error(formatError(readError!));
+      return 1;
+    }
+    const [migrationError] = migrateSchema(restored);
+    if (migrationError) {
+      console.error(formatError(migrationError));
+      return 1;
+    }
+
+    if (current) {
+      const [safetyError, safety] = await writeBackup(backupDir, current, 'pre-restore');
+      if (safetyError || !safety) {
+        console.error(formatError(safetyError!));
+        return 1;
+      }
+      console.log(`Current data saved as ${safety.name}`);
+    }
+
+    restored.meta.journalSeq = 0;
+    const saveError = await storage.save(restored);
+    if (saveError) {
+      console.error(formatError(saveError));
+      return 1;
+    }
+    await fs.rm(journalPath, { force: true });
+
+    console.log(`Restored ${name} into ${storage.filePath}`);
+    return 0;
+  } finally {
+    await storage.close();
+  }
+}
+
+main().then((code) => process.exit(code));
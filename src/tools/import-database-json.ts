@@ -0,0 +1,67 @@
+/**
+ * =============================================================================
+ * Offline import: database.json → database.sqlite
+ *
+ * Usage (with the bot stopped):
+ *   npm run db:import-sqlite -- [dataDir] [--force]
+ *
+ * Reads `<dataDir>/database.json`, applies the schema migrations and writes
+ * every collection into `<dataDir>/database.sqlite`.  Refuses to touch a
+ * SQLite file that already holds data unless `--force` is given, in which
+ * case its contents are replaced.  The JSON file is left untouched, so
+ * switching back to `DB_BACKEND=json` stays possible.
+ * =============================================================================
+ */
+
+import * as path from 'path';
+import { createJsonStorage } from '../database/storage';
+import { createSqliteStorage } from '../database/sqlite-storage';
+import { migrateSchema } from '../database/schema-migrator';
+import { formatError } from '../assistant/errors';
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const dataDir = path.resolve(args.find((a) => !a.startsWith('--')) ?? path.join(__dirname, '../../data'));
+
+  const [loadError, schema] = await createJsonStorage(dataDir).load();
+  if (loadError || !schema) {
+    console.error(`No usable database.json in ${dataDir}${loadError ? `: ${formatError(loadError)}` : ''}`);
+    return 1;
+  }
+  const [migrationError] = migrateSchema(schema);
+  if (migrationError) {
+    console.error(formatError(migrationError));
+    return 1;
+  }
+
+  const [openError, sqlite] = createSqliteStorage(path.join(dataDir, 'database.sqlite'));
+  if (openError || !sqlite) {
+    console.error(formatError(openError!));
+    return 1;
+  }
+
+  const [existingError, existing] = await sqlite.load();
+  if (existingError || (existing && !force)) {
+    console.error(existingError
+      ? formatError(existingError)
+      : `${sqlite.filePath} already holds data; rerun with --force to replace it.`);
+    await sqlite.close();
+    return 1;
+  }
+
+  const saveError = await sqlite.save(schema);
+  await sqlite.close();
+  if (saveError) {
+    console.error(formatError(saveError));
+    return 1;
+  }
+
+  console.log(`Imported ${path.join(dataDir, 'database.json')} into ${sqlite.filePath}:`);
+  for (const [name, records] of Object.entries(schema)) {
+    if (Array.isArray(records)) console.log(`  ${name.padEnd(20)} ${records.length}`);
+  }
+  return 0;
+}
+
+main().then((code) => process.exit(code));
@@ -0,0 +1,99 @@
+/**
+ * =============================================================================
+ * Offline schema migration — report or apply pending migrations
+ *
+ * Usage (with the bot stopped):
+ *   npm run db:migrate -- --dry-run    report what each migration would change
+ *   npm run db:migrate                 apply them (after a pre-migration backup)
+ *
+ * Options:
+ *   --data-dir=<dir>  data directory (default: ./data)
+ *   --sqlite          the bot runs with DB_BACKEND=sqlite
+ *
+ * The bot applies pending migrations on its own at start-up; this tool is
+ * for checking an old file first, or upgrading one outside the bot.
+ * =============================================================================
+ */
+
+import * as path from 'path';
+import { createJsonStorage, DatabaseStorage } from '../database/storage';
+import { createSqliteStorage } from '../database/sqlite-storage';
+import { CURRENT_SCHEMA_VERSION, MigrationReport, migrateSchema } from '../database/schema-migrator';
+import { getBackupDir, writeBackup } from '../database/backups';
+import { formatError } from '../assistant/errors';
+
+function printReport(report: MigrationReport): void {
+  if (report.steps.length === 0) {
+    console.log(`Schema is at v${report.fromVersion}, the current version — nothing to do.`);
+    return;
+  }
+
+  const verb = report.dryRun ? 'would migrate' : 'migrated';
+  console.log(`Schema ${verb} from v${report.fromVersion} to v${report.toVersion}:`);
+  for (const step of report.steps) {
+    console.log(`  v${step.version} ${step.description}`);
+    if (step.changes.length === 0) console.log('      (no changes)');
+    for (const change of step.changes) console.log(`      - ${change}`);
+  }
+}
+
+async function main(): Promise<number> {
+  const flags = process.argv.slice(2);
+  const dryRun = flags.includes('--dry-run');
+
+  const dataDirFlag = flags.find((f) => f.startsWith('--data-dir='));
+  const dataDir = path.resolve(dataDirFlag ? dataDirFlag.slice('--data-dir='.length) : path.join(__dirname, '../../data'));
+
+  let storage: DatabaseStorage;
+  if (flags.includes('--sqlite')) {
+    const [openError, sqlite] = createSqliteStorage(path.join(dataDir, 'database.sqlite'));
+    if (openError || !sqlite) {
+      console.error(formatError(openError!));
+      return 1;
+    }
+    storage = sqlite;
+  } else {
+    storage = createJsonStorage(dataDir);
+  }
+
+  try {
+    const [loadError, schema] = await storage.load();
+    if (loadError || !schema) {
+      console.error(loadError ? formatError(loadError) : `No database in ${storage.filePath}`);
+      return 1;
+    }
+
+    const [migrationError, report] = migrateSchema(schema, { dryRun: true });
+    if (migrationError || !report) {
+      console.error(formatError(migrationError!));
+      return 1;
+    }
+
+    if (dryRun || report.steps.length === 0) {
+      printReport(report);
+      return 0;
+    }
+
+    const [backupError, backup] = await writeBackup(getBackupDir(dataDir), schema, `pre-migration-v${report.fromVersion}`);
+    if (backupError || !backup) {
+      console.error(formatError(backupError!));
+      return 1;
+    }
+    console.log(`Backup: ${backup.name}`);
+
+    const [, applied] = migrateSchema(schema);
+    const saveError = await storage.save(schema);
+    if (saveError) {
+      console.error(formatError(saveError));
+      return 1;
+    }
+
+    printReport(applied!);
+    console.log(`Saved ${storage.filePath} at v${CURRENT_SCHEMA_VERSION}.`);
+    return 0;
+  } finally {
+    await storage.close();
+  }
+}
+
+main().then((code) => process.exit(code));
@@ -8,6 +8,70 @@
  *   3  The leaderboard counter increments correctly across multiple incidents.
  *   4  cleanupOldIncidents removes only stale entries from the index.
  *   5  getStats reflects the current index size, not a stale array.
+ *   6  The leaderboard is scoped per chat; omitting chatId gives the global
+ *      view; the all-time view sums every month; ranking buttons parse
+ *      `ranking:<YYYY-MM|all>[:global]` and months shift across years.
+ *   7  Legacy leaderboard entries without chatId are split by chat on load.
+ *   8  A forgiven (removed) incident decrements the leaderboard; the appeal
+ *      record outlives the incident.  An appeal whose vote message cannot
+ *      be posted is withdrawn and the offender can contest again.
+ *   9  Media fingerprints match by file_unique_id, then by perceptual hash
+ *      within the Hamming threshold, scoped per chat; flat (dark or
+ *      uniform) frames are not hashed and near-blank hashes never match;
+ *      the handler checks media in the background, not on the update.
+ *  10  Cached short links are expanded before normalisation, so two share
+ *      links of the same post normalise identically, an expansion that
+ *      still ends on a short link is not cached, and a GET retry after a
+ *      refused HEAD stays within the deadline (no network involved).
+ *  11  A url-rules.json file extends the built-in rules, an invalid file is
+ *      rejected without touching the active rules, and deleting it restores
+ *      the defaults.
+ *  12  Per-chat settings default sensibly, persist, and a shortened window
+ *      applies to links that were already stored; the callout's link to
+ *      the original works in supergroups and public chats only, its
+ *      elapsed-time label reads naturally, and `janela` only accepts
+ *      1–720 hours.
+ *  13  Statistics: top URLs, victims, offender→original pairs and the
+ *      median repost delay (incidents without originalPostedAt skipped).
+ *  14  A write delay flushes shortly after a change; the SQLite backend
+ *      round-trips a reload (reported as skipped where node:sqlite is
+ *      missing, after checking it fails cleanly).
+ *  15  Operations made since the last flush are replayed from the journal
+ *      with their original IDs and timestamps (an omitted optional argument
+ *      stays omitted); a flush empties the journal, even when nothing
+ *      changed, and a reload does not apply them twice.
+ *  16  Backups: a snapshot restores the earlier state (after saving a
+ *      pre-restore snapshot), survives a reload, and pruning keeps the
+ *      configured number of snapshots.  During a restore writes are
+ *      refused, the awards wait, and button presses are answered.
+ *  17  Migrations: a dry run steps through every version without touching
+ *      the schema or reseeding existing fields; loading a v1 file backs it
+ *      up, seeds the new collections and stamps the current version; a
+ *      file from a newer version is refused and left intact.
+ *  18  Retention: an override spec parses (bad ones are rejected), a
+ *      per-chat cap with `archive` writes the evicted messages to the
+ *      archive before dropping them, and cleanup reports per-policy counts.
+ *  19  Configuration: every out-of-range variable is reported at once, and
+ *      the redacted copy hides the bot token and API key.
+ *  20  Chat archive: an export holds only the chat's records (the todos
+ *      only when asked for), survives a serialise → parse round-trip,
+ *      imports with fresh IDs and advanced counters, a second import adds
+ *      nothing, and an archive from an unknown schema version is refused.
+ *  21  User data: the export gathers the user's records from every
+ *      collection, and erasure deletes their own records, anonymises
+ *      shared incidents and appeals, and leaves other users untouched.
+ *  22  Message search: terms match case- and accent-insensitively, all
+ *      terms must match, results stay per chat, messages past the /summary
+ *      buffer stay searchable, and messages trimmed by the history cap or
+ *      erased drop out of the index.
+ *  23  Replies and edits: an edit replaces the buffered text (and its
+ *      search terms), and the /summary transcript nests replies under
+ *      their parent with media, forward and edit notes.
+ *  24  Links of the new platforms normalise to one form per post (host
+ *      variants and tracking parameters dropped).
+ *  25  Incidents and awards follow the São Paulo calendar; an award missed
+ *      on the 1st is posted on a later day, every tied leader is crowned,
+ *      and a month already recorded for a chat is not posted again.
  *
  * Uses a temporary directory for the database file so nothing touches the
  * real `data/` folder.  The temp dir is removed after every test.
@@ -17,7 +81,28 @@
 import * as fs   from 'fs/promises';
 import * as path from 'path';
 import * as os   from 'os';
-import { createDatabase } from '../src/database/database';
+import axios from 'axios';
+import type { Api, Context } from 'grammy';
+import { createDatabase, Database } from '../src/database/database';
+import { computeDifferenceHash, hammingDistance } from '../src/database/fingerprint-utils';
+import { explainNormalization, isShortLink, normalizeUrl, shortLinkKey } from '../src/database/link-utils';
+import { createUrlRulesLoader } from '../src/database/url-rules';
+import { CURRENT_SCHEMA_VERSION, migrateSchema } from '../src/database/schema-migrator';
+import { getArchiveDir, parseRetentionSpec } from '../src/database/retention';
+import { CONFIG_ERROR_CODES, loadConfig, redactConfig } from '../src/config';
+import { importChatArchive, parseChatArchive, serializeChatArchive } from '../src/database/chat-archive';
+import { createEmptySchema } from '../src/database/schema-migrator';
+import type { DatabaseSchema } from '../src/database/types';
+import { ANONYMOUS_USER_ID } from '../src/database';
+import { createLinkResolver } from '../src/bot/handlers/link-resolver';
+import { createDuylhouHandler, formatElapsed, isExemptDomain } from '../src/bot/handlers/duylhou';
+import { buildMessageLink } from '../src/bot/handlers/telegram-formatting';
+import { parseRankingCallback, shiftMonth } from '../src/bot/handlers/ranking';
+import { createDuylhouAwardsScheduler, getSaoPauloCalendar } from '../src/bot/handlers/duylhou-awards';
+import { createDuylhouAppeals } from '../src/bot/handlers/duylhou-appeals';
+import { createBackupHandler } from '../src/bot/handlers/backup';
+import { parseWindowHours } from '../src/bot/handlers/duylhou-config';
+import { buildTranscript } from '../src/bot/handlers/summary';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -29,35 +114,48 @@ import { createDatabase } from '../src/database/database';
  * @returns A tuple of [database instance, path to the temp dir].
  */
 /**
- * Waits for a database instance's internal async init() to finish.
+ * Waits for a database instance's async init() (load, migrations, journal
+ * replay) to finish.
  *
- * init() is fire-and-forget inside the constructor.  When the DB file
- * already exists on disk (reload path) init reads + parses it, sets
- * `initialized = true`, and calls rebuildIndexes — all inside one
- * microtask chain that we cannot await from outside.  A fixed 500 ms
- * wait is more than sufficient for local-disk I/O and is the simplest
- * reliable approach without modifying the Database internals.
- *
- * @param _db     - (unused, kept for call-site clarity)
- * @param _tmpDir - (unused)
+ * @param db - Instance returned by createDatabase.
  */
-async function waitForInit(_db: unknown, _tmpDir: string) {
-  await new Promise((r) => setTimeout(r, 500));
+async function waitForInit(db: Database) {
+  const error = await db.ready();
+  if (error) throw new Error(`DB init failed: ${error.message}`);
 }
 
-async function makeTempDb() {
-  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
-  const [err, db] = createDatabase({
+/**
+ * Database options shared by the tests: persistence and cleanup timers
+ * are pushed far out so only the test decides when to flush.
+ *
+ * @param tmpDir - Data directory.
+ */
+function backendTestOptions(tmpDir: string) {
+  return {
     dataDir: tmpDir,
     persistIntervalMs: 999_999,
     linkExpiryMs: 24 * 60 * 60 * 1000,
     conversationMaxMessages: 10,
     leaderboardRetentionDays: 30,
     cleanupIntervalMs: 999_999,
-  });
+  };
+}
+
+/**
+ * A database.json written by the launch build (schema v1), before any
+ * migration added collections or counters.
+ */
+type LegacyV1Schema =
+  Pick<DatabaseSchema, 'conversations' | 'links' | 'rateLimits' | 'duylhouIncidents' | 'duylhouLeaderboard'> & {
+    meta: Pick<DatabaseSchema['meta'], 'version' | 'lastSaved' | 'conversationNextId' | 'linkNextId' | 'duylhouIncidentNextId'>;
+  };
+
+async function makeTempDb() {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
+  const [err, db] = createDatabase(backendTestOptions(tmpDir));
 
   if (err || !db) throw new Error(`DB init failed: ${err?.message}`);
-  await waitForInit(db, tmpDir);
+  await waitForInit(db);
   return { db, tmpDir };
 }
 
@@ -86,6 +184,19 @@ async function cleanup(tmpDir: string) {
 
 let passed = 0;
 let failed = 0;
+let skipped = 0;
+
+/** Thrown by {@link skip}; reported instead of counted as a pass. */
+class SkippedTest extends Error {}
+
+/**
+ * Ends the current test as skipped (e.g. a runtime feature is missing).
+ *
+ * @param reason - Shown next to the test name.
+ */
+function skip(reason: string): never {
+  throw new SkippedTest(reason);
+}
 
 /**
  * Runs a single named test case.  Catches and reports any thrown error.
@@ -99,6 +210,11 @@ async function test(name: string, fn: () => Promise<void>) {
     console.log(`  ✅  ${name}`);
     passed++;
   } catch (e: unknown) {
+    if (e instanceof SkippedTest) {
+      console.log(`  ⏭️  ${name} — skipped: ${e.message}`);
+      skipped++;
+      return;
+    }
     console.error(`  ❌  ${name}`);
     console.error(`       ${(e as Error).message}`);
     failed++;
@@ -180,7 +296,7 @@ async function run() {
         cleanupIntervalMs: 999_999,
       });
       assert(!err2 && db2, 'second DB instance failed to init');
-      await waitForInit(db2, tmpDir);
+      await waitForInit(db2!);
 
       const stats2 = db2!.getStats();
       assert(stats2.incidents === 2, `reloaded DB has ${stats2.incidents} incidents, expected 2`);
@@ -264,7 +380,7 @@ async function run() {
         cleanupIntervalMs: 999_999,
       });
       assert(!err2 && db2, 'reload failed');
-      await waitForInit(db2, tmpDir);
+      await waitForInit(db2!);
 
       // Before cleanup: 2 incidents (1 current + 1 old)
       const statsBefore = db2!.getStats();
@@ -301,10 +417,1012 @@ async function run() {
     }
   });
 
+  // -----------------------------------------------------------------------
+  // 6. Leaderboard is per chat; the global view sums every chat
+  // -----------------------------------------------------------------------
+  await test('leaderboard scoped per chat, global and all-time views sum', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      db.recordDuylhouIncident(42, 99, -1, 'instagram.com/p/aaa');
+      db.recordDuylhouIncident(42, 99, -1, 'instagram.com/p/bbb');
+      db.recordDuylhouIncident(42, 99, -2, 'instagram.com/p/ccc');
+      db.recordDuylhouIncident(7, 99, -2, 'instagram.com/p/ddd');
+
+      const chatA = db.getDuylhouLeaderboard(undefined, 10, -1);
+      assert(chatA.length === 1 && chatA[0].count === 2, `chat -1: expected user 42 with 2, got ${JSON.stringify(chatA)}`);
+
+      const chatB = db.getDuylhouLeaderboard(undefined, 10, -2);
+      assert(chatB.length === 2, `chat -2: expected 2 entries, got ${chatB.length}`);
+      assert(chatB[0].rank === 1 && chatB[1].rank === 1, 'chat -2: tied users should share rank 1');
+
+      const global = db.getDuylhouLeaderboard(undefined, 10);
+      assert(global[0].userId === 42 && global[0].count === 3, `global: expected user 42 with 3, got ${JSON.stringify(global[0])}`);
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+
+    // All-time view: earlier months are summed per user, per chat or globally.
+    const historyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
+    const current = new Date().toISOString().slice(0, 7);
+    const previous = shiftMonth(current, -1);
+    const history = createEmptySchema();
+    history.duylhouLeaderboard.push(
+      { userId: 42, chatId: -1, month: previous, count: 4, lastIncidentAt: 1000 },
+      { userId: 42, chatId: -1, month: current, count: 1, lastIncidentAt: 3000 },
+      { userId: 7, chatId: -1, month: previous, count: 5, lastIncidentAt: 2000 },
+      { userId: 7, chatId: -2, month: current, count: 2, lastIncidentAt: 4000 },
+    );
+    await fs.writeFile(path.join(historyDir, 'database.json'), JSON.stringify(history), 'utf-8');
+    const [historyErr, historyDb] = createDatabase({ ...backendTestOptions(historyDir), leaderboardRetentionDays: 999 });
+    try {
+      assert(!historyErr && historyDb, 'history DB failed to init');
+      await waitForInit(historyDb);
+
+      const chatAllTime = historyDb.getDuylhouAllTimeLeaderboard(10, -1);
+      assert(chatAllTime.every((entry) => entry.count === 5 && entry.rank === 1) && chatAllTime.length === 2,
+        `chat -1 all-time: expected 42 and 7 tied at 5, got ${JSON.stringify(chatAllTime)}`);
+      assert(chatAllTime.find((entry) => entry.userId === 42)?.lastIncidentAt === 3000, 'all-time must keep the latest incident');
+
+      const globalAllTime = historyDb.getDuylhouAllTimeLeaderboard(10);
+      assert(globalAllTime[0].userId === 7 && globalAllTime[0].count === 7 && globalAllTime[1].rank === 2,
+        `global all-time: expected user 7 with 7 first, got ${JSON.stringify(globalAllTime)}`);
+      assert(historyDb.getDuylhouAllTimeLeaderboard(1).length === 1, 'limit not applied');
+      await historyDb.shutdown();
+    } finally {
+      await cleanup(historyDir);
+    }
+
+    // Month arithmetic and navigation button data.
+    assert(shiftMonth('2025-01', -1) === '2024-12' && shiftMonth('2024-12', 1) === '2025-01', 'year boundary not crossed');
+    assert(shiftMonth('2025-03', -14) === '2024-01', 'multi-year shift wrong');
+    assert(JSON.stringify(parseRankingCallback('ranking:2025-01')) === '{"period":"2025-01","global":false}', 'month callback not parsed');
+    assert(JSON.stringify(parseRankingCallback('ranking:all:global')) === '{"period":"all","global":true}', 'global all-time callback not parsed');
+    for (const bad of ['ranking:2025-13', 'ranking:2025-1', 'ranking:', 'ranking:hoje', 'other:2025-01']) {
+      assert(parseRankingCallback(bad) === null, `malformed callback "${bad}" accepted`);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 7. Legacy (chat-less) leaderboard entries are migrated on load
+  // -----------------------------------------------------------------------
+  await test('legacy leaderboard entries are split by chat on load', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      db.recordDuylhouIncident(42, 99, -1, 'instagram.com/p/aaa');
+      db.recordDuylhouIncident(42, 99, -2, 'instagram.com/p/bbb');
+      await db.flush();
+      await db.shutdown();
+
+      // Rewrite the leaderboard in the pre-chatId shape: one merged entry
+      // whose count (3) exceeds the surviving incidents (2).
+      const raw = await readRawJson(tmpDir);
+      const month = raw.duylhouIncidents[0].month;
+      raw.duylhouLeaderboard = [{ userId: 42, month, count: 3, lastIncidentAt: Date.now() }];
+      raw.meta.version = 1;  // files of that era predate versioned migrations
+      await fs.writeFile(path.join(tmpDir, 'database.json'), JSON.stringify(raw), 'utf-8');
+
+      const [err2, db2] = createDatabase(backendTestOptions(tmpDir));
+      assert(!err2 && db2, 'reload failed');
+      await waitForInit(db2!);
+
+      const chatA = db2!.getDuylhouLeaderboard(month, 10, -1);
+      const chatB = db2!.getDuylhouLeaderboard(month, 10, -2);
+      const total = (chatA[0]?.count ?? 0) + (chatB[0]?.count ?? 0);
+      assert(chatA.length === 1 && chatB.length === 1, 'expected one entry per chat after migration');
+      assert(total === 3, `expected migrated counts to sum to 3, got ${total}`);
+
+      await db2!.shutdown();
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 8. Removing an incident decrements the leaderboard; appeal is kept
+  // -----------------------------------------------------------------------
+  await test('removeDuylhouIncident decrements leaderboard, appeal survives', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      const first = db.recordDuylhouIncident(42, 99, -1, 'instagram.com/p/aaa');
+      db.recordDuylhouIncident(42, 99, -1, 'instagram.com/p/bbb');
+
+      const [appealErr, appeal] = db.createDuylhouAppeal({
+        incidentId: first.id,
+        requestedBy: 42,
+        closesAt: Date.now() + 60_000,
+      });
+      assert(!appealErr && appeal, `appeal creation failed: ${appealErr?.message}`);
+
+      const [dupErr] = db.createDuylhouAppeal({ incidentId: first.id, requestedBy: 42, closesAt: Date.now() });
+      assert(dupErr, 'second appeal for the same incident should be rejected');
+
+      assert(db.removeDuylhouIncident(first.id), 'removeDuylhouIncident returned false');
+      assert(!db.getDuylhouIncident(first.id), 'incident still present after removal');
+
+      const board = db.getDuylhouLeaderboard(undefined, 10, -1);
+      assert(board.length === 1 && board[0].count === 1, `expected count 1 after removal, got ${JSON.stringify(board)}`);
+
+      const kept = db.getDuylhouAppeal(appeal!.id);
+      assert(kept && kept.normalizedUrl === 'instagram.com/p/aaa', 'appeal record lost its incident snapshot');
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+  });
+
+  await test('appeal whose vote message fails is withdrawn and can be retried', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      const incident = db.recordDuylhouIncident(42, 99, -1, 'instagram.com/p/ccc');
+      let sendFails = true;
+      const api = {
+        sendMessage: async () => {
+          if (sendFails) throw new Error('chat not found');
+          return { message_id: 77 };
+        },
+        getChatMember: async () => { throw new Error('offline'); },
+      } as unknown as Api;
+      const appeals = createDuylhouAppeals({ api, database: db });
+
+      const answers: string[] = [];
+      let buttonRemoved = false;
+      const press = () => ({
+        from: { id: 42 },
+        callbackQuery: { data: `duylhou:appeal:${incident.id}`, message: { message_id: 5 } },
+        answerCallbackQuery: async (options?: { text?: string }) => { answers.push(options?.text ?? ''); },
+        editMessageReplyMarkup: async () => { buttonRemoved = true; },
+      }) as unknown as Context;
+
+      await appeals.handleCallback(press());
+      assert(db.getDuylhouAppealByIncident(incident.id) === null, 'an appeal nobody can vote on was kept');
+      assert(!buttonRemoved, '"Contestar" removed although the vote never opened');
+      assert(answers[0]?.startsWith('❌'), `offender not told it failed: ${answers[0]}`);
+
+      sendFails = false;
+      await appeals.handleCallback(press());
+      const appeal = db.getDuylhouAppealByIncident(incident.id);
+      assert(appeal?.status === 'open' && appeal.messageId === 77, `retry did not open the vote: ${JSON.stringify(appeal)}`);
+      assert(buttonRemoved, '"Contestar" kept after the vote opened');
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 9. Media fingerprints: exact id, then perceptual hash, per chat
+  // -----------------------------------------------------------------------
+  await test('findMediaFingerprint matches file id and near-identical hashes', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      // A horizontal gradient and the same gradient slightly brightened
+      // must hash identically; the reversed gradient must not.
+      const gradient = Uint8Array.from({ length: 72 }, (_, i) => 255 - (i % 9) * 20);
+      const brighter = gradient.map((v) => Math.min(255, v + 3));
+      const reversed = Uint8Array.from({ length: 72 }, (_, i) => (i % 9) * 20);
+
+      const hash = computeDifferenceHash(gradient)!;
+      assert(hash.length === 16, `expected 16 hex chars, got ${hash}`);
+      assert(hammingDistance(hash, computeDifferenceHash(brighter)!) === 0, 'brightened copy should hash identically');
+      assert(hammingDistance(hash, computeDifferenceHash(reversed)!) === 64, 'reversed gradient should differ in every bit');
+
+      const stored = db.addMediaFingerprint({
+        chatId: -1, userId: 42, messageId: 10,
+        mediaType: 'photo', fileUniqueId: 'AQADabc', perceptualHash: hash,
+      });
+
+      assert(db.findMediaFingerprint(-1, 'AQADabc')?.id === stored.id, 'exact file_unique_id lookup failed');
+      assert(db.findMediaFingerprint(-1, 'AQADnew')?.id === undefined, 'unknown id without hash should not match');
+
+      // Re-upload: new file_unique_id, hash one bit away.
+      const nearHash = (parseInt(hash[0], 16) ^ 1).toString(16) + hash.slice(1);
+      assert(db.findMediaFingerprint(-1, 'AQADnew', nearHash)?.id === stored.id, 'perceptual match failed');
+      assert(!db.findMediaFingerprint(-1, 'AQADnew', computeDifferenceHash(reversed)), 'distant hash should not match');
+      assert(!db.findMediaFingerprint(-2, 'AQADabc', hash), 'fingerprint leaked across chats');
+
+      // Two different dark thumbnails (encoder noise only) are too flat to
+      // hash, and flat hashes stored earlier never match each other.
+      const darkA = Uint8Array.from({ length: 72 }, (_, i) => (i * 7) % 4);
+      const darkB = Uint8Array.from({ length: 72 }, (_, i) => 10 + ((i * 5 + 1) % 3));
+      assert(computeDifferenceHash(darkA) === null && computeDifferenceHash(darkB) === null, 'flat frames should not be hashed');
+      db.addMediaFingerprint({
+        chatId: -1, userId: 7, messageId: 11,
+        mediaType: 'video', fileUniqueId: 'AQADdark', perceptualHash: '0000000000000000',
+      });
+      assert(!db.findMediaFingerprint(-1, 'AQADdark2', '0000000000000000'), 'identical flat hashes matched');
+      assert(!db.findMediaFingerprint(-1, 'AQADdark2', '0000000000000104'), 'near-blank hashes matched');
+
+      assert(db.getStats().mediaFingerprints === 2, 'stats should count the stored fingerprints');
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+  });
+
+  await test('media checks run off the update path', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      let releaseDownload!: () => void;
+      const downloadGate = new Promise<void>((resolve) => { releaseDownload = resolve; });
+      const api = { getFile: async () => { await downloadGate; return {}; } };
+      const photo = (userId: number, messageId: number, fileUniqueId: string) => ({
+        chat: { id: -1, type: 'supergroup' },
+        from: { id: userId },
+        message: {
+          message_id: messageId,
+          photo: [{ file_id: `small-${fileUniqueId}`, file_unique_id: fileUniqueId, width: 90, height: 90 }],
+        },
+        api,
+      }) as unknown as Context;
+
+      const handler = createDuylhouHandler({ database: db });
+      let timer: NodeJS.Timeout | undefined;
+      const blocked = new Promise<'blocked'>((resolve) => { timer = setTimeout(() => resolve('blocked'), 1000); });
+      const outcome = await Promise.race([handler.handleMessage(photo(42, 1, 'AQADphoto')), blocked]);
+      clearTimeout(timer);
+      assert(outcome !== 'blocked', 'the update waited for the media download');
+      assert(db.getStats().mediaFingerprints === 0, 'the photo was registered before its hash was ready');
+
+      releaseDownload();
+      for (let i = 0; i < 50 && db.getStats().mediaFingerprints === 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      assert(db.findMediaFingerprint(-1, 'AQADphoto')?.userId === 42, 'queued media check never registered the photo');
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 10. Short links resolve through the persisted cache
+  // -----------------------------------------------------------------------
+  await test('cached short links normalise to the expanded URL', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      assert(isShortLink('https://vm.tiktok.com/ZMabc123/'), 'vm.tiktok.com should be a short link');
+      assert(isShortLink('https://www.reddit.com/r/brasil/s/Xy12Ab'), 'reddit /s/ should be a short link');
+      assert(!isShortLink('https://www.tiktok.com/@user/video/123'), 'full TikTok URL is not a short link');
+      assert(shortLinkKey('https://t.co/AbC?amp=1') === 't.co/AbC', 'key should drop query, keep case');
+
+      const target = 'https://www.tiktok.com/@User/video/7300000000000000000?_r=1';
+      db.setShortLink('vm.tiktok.com/ZMabc123', target);
+      db.setShortLink('t.co/AbC', target);
+
+      // Timeout 0: any cache miss would fall back to the short form.
+      const resolver = createLinkResolver({ database: db, timeoutMs: 0 });
+      const urls = await resolver.extractAndNormalizeUrls(
+        'olha https://vm.tiktok.com/ZMabc123/ e https://t.co/AbC e https://bit.ly/nope',
+      );
+
+      assert(urls.length === 3, `expected 3 URLs, got ${urls.length}`);
+      assert(urls[0].original === 'https://vm.tiktok.com/ZMabc123/', 'original URL must be preserved');
+      assert(urls[0].normalized === 'tiktok.com/@user/video/7300000000000000000', `unexpected ${urls[0].normalized}`);
+      assert(urls[1].normalized === urls[0].normalized, 'both share links should normalise identically');
+      assert(urls[2].normalized === 'bit.ly/nope', `unresolved link should keep its short form, got ${urls[2].normalized}`);
+
+      // A chain cut off by the hop limit ends on another short link: used,
+      // but not cached, so the next occurrence tries again.
+      const originalHead = axios.head;
+      axios.head = (async () => ({ status: 301, headers: { location: 'https://t.co/Next' } })) as typeof axios.head;
+      try {
+        const partial = await createLinkResolver({ database: db, maxHops: 1 }).resolve('https://bit.ly/chain');
+        assert(partial === 'https://t.co/Next', `unexpected partial expansion ${partial}`);
+        assert(!db.getShortLink('bit.ly/chain'), 'a partial expansion must not be cached');
+      } finally {
+        axios.head = originalHead;
+      }
+
+      // A GET retry after a refused HEAD only gets the time the HEAD left,
+      // and none at all once the deadline has passed.
+      const originalGet = axios.get;
+      const getTimeouts: number[] = [];
+      axios.head = (async () => {
+        await new Promise((r) => setTimeout(r, 60));
+        return { status: 405, headers: {} };
+      }) as typeof axios.head;
+      axios.get = (async (_url: string, options: { timeout: number }) => {
+        getTimeouts.push(options.timeout);
+        return { status: 301, headers: { location: target } };
+      }) as typeof axios.get;
+      try {
+        const resolver = createLinkResolver({ database: db, timeoutMs: 100 });
+        assert(await resolver.resolve('https://bit.ly/refused') === target, 'GET fallback not followed');
+        assert(getTimeouts.length === 1 && getTimeouts[0] <= 40, `GET fallback got ${getTimeouts[0]} ms of a 100 ms budget`);
+        assert(await resolver.resolve('https://bit.ly/late', Date.now() + 30) === 'https://bit.ly/late', 'late link expanded');
+        assert(getTimeouts.length === 1, 'GET sent after the deadline');
+      } finally {
+        axios.head = originalHead;
+        axios.get = originalGet;
+      }
+
+      await db.flush();
+      const raw = await readRawJson(tmpDir);
+      assert(raw.shortLinks.length === 3, 'short link cache should be persisted');
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 11. URL rules file: extend, reject invalid, fall back to defaults
+  // -----------------------------------------------------------------------
+  await test('url-rules.json extends defaults and invalid files are rejected', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
+    const loader = createUrlRulesLoader({ dataDir: tmpDir });
+    try {
+      const vimeo = 'https://vimeo.com/video/76979871?xmt=1';
+      assert(explainNormalization(vimeo).rule === null, 'vimeo should use the generic rule by default');
+
+      await fs.writeFile(loader.filePath, JSON.stringify({
+        version: 1,
+        trackingParams: ['xmt'],
+        contentPatterns: [{
+          name: 'vimeo',
+          pattern: 'vimeo\\.com/(?:video/)?(\\d+)',
+          flags: 'i',
+          normalize: 'vimeo.com/{1}',
+        }],
+      }));
+      assert(loader.load() === null, 'valid rules file was rejected');
+
+      const { normalized, rule } = explainNormalization(vimeo);
+      assert(rule === 'vimeo', `expected vimeo rule, got ${rule}`);
+      assert(normalized === 'vimeo.com/76979871', `unexpected ${normalized}`);
+      assert(normalizeUrl('https://example.com/a?xmt=9&id=1') === 'example.com/a?id=1', 'file tracking param not stripped');
+      assert(normalizeUrl('https://youtu.be/dQw4w9WgXcQ') === 'youtube.com/watch?v=dQw4w9WgXcQ', 'built-in rules lost');
+
+      // Template referencing a missing group → whole file rejected.
+      await fs.writeFile(loader.filePath, JSON.stringify({
+        version: 1,
+        contentPatterns: [{ name: 'bad', pattern: 'foo\\.com/(\\d+)', normalize: 'foo.com/{2}' }],
+      }));
+      assert(loader.load() !== null, 'invalid rules file was accepted');
+      assert(explainNormalization(vimeo).rule === 'vimeo', 'invalid file replaced the active rules');
+
+      await fs.unlink(loader.filePath);
+      assert(loader.load() === null, 'missing file should not be an error');
+      assert(explainNormalization(vimeo).rule === null, 'defaults not restored after file removal');
+    } finally {
+      loader.stop();
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 12. Per-chat Duylhou settings
+  // -----------------------------------------------------------------------
+  await test('per-chat settings: defaults, persistence, window applies retroactively', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      const defaults = db.getDuylhouSettings(-1);
+      assert(defaults.enabled && defaults.expiryMs === null, 'unexpected defaults');
+      assert(defaults.exemptDomains.length === 0 && defaults.stickerSetName === null, 'unexpected default lists');
+
+      db.addLink({ url: 'https://a.com/x', normalizedUrl: 'a.com/x', chatId: -1, userId: 1, messageId: 1 });
+      db.addLink({ url: 'https://a.com/x', normalizedUrl: 'a.com/x', chatId: -2, userId: 1, messageId: 1 });
+      assert(db.findLink('a.com/x', -1), 'link should be live under the default window');
+
+      // A 1 ms window in chat -1 expires its link; chat -2 is untouched.
+      await new Promise((r) => setTimeout(r, 5));
+      db.updateDuylhouSettings(-1, { expiryMs: 1, exemptDomains: ['docs.google.com'] }, 42);
+      assert(!db.findLink('a.com/x', -1), 'shortened window should expire existing links');
+      assert(db.findLink('a.com/x', -2), 'other chats must keep the default window');
+
+      assert(isExemptDomain('https://docs.google.com/document/d/1', ['docs.google.com']), 'exact domain not exempt');
+      assert(isExemptDomain('drive.docs.google.com/x', ['docs.google.com']), 'subdomain not exempt');
+      assert(!isExemptDomain('https://notdocs.google.com/x', ['docs.google.com']), 'suffix without dot must not match');
+
+      // The callout links back to the original post where the chat allows it.
+      assert(buildMessageLink(-1001234567890, 42) === 'https://t.me/c/1234567890/42', 'supergroup link wrong');
+      assert(buildMessageLink(-1001234567890, 42, 'grupo_publico') === 'https://t.me/grupo_publico/42', 'public chat link should use the username');
+      assert(buildMessageLink(-123456, 42) === null, 'basic groups have no message links');
+      assert(buildMessageLink(123456, 42) === null, 'private chats have no message links');
+      assert(formatElapsed(59_999) === 'agora mesmo', 'under a minute should read "agora mesmo"');
+      assert(formatElapsed(5 * 60_000) === 'há 5 min', `unexpected ${formatElapsed(5 * 60_000)}`);
+      assert(formatElapsed(130 * 60_000) === 'há 2h 10min', `unexpected ${formatElapsed(130 * 60_000)}`);
+      assert(formatElapsed(3 * 24 * 60 * 60_000) === 'há 3 dias', `unexpected ${formatElapsed(3 * 24 * 60 * 60_000)}`);
+
+      // `/duylhou config janela` accepts exactly the advertised 1–720 hours.
+      assert(parseWindowHours('1') === 60 * 60 * 1000, '1 hour should be accepted');
+      assert(parseWindowHours('1,5') === 90 * 60 * 1000, 'decimal comma not parsed');
+      assert(parseWindowHours('720') === 720 * 60 * 60 * 1000, '720 hours should be accepted');
+      for (const rejected of ['0.99', '0.01', '0', '-3', '720.5', 'abc', '']) {
+        assert(parseWindowHours(rejected) === null, `window "${rejected}" should be rejected`);
+      }
+
+      await db.flush();
+      const raw = await readRawJson(tmpDir);
+      assert(raw.duylhouSettings.length === 1, 'only the configured chat should be stored');
+      assert(raw.duylhouSettings[0].updatedBy === 42, 'updatedBy not recorded');
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 13. Duylhou statistics
+  // -----------------------------------------------------------------------
+  await test('stats: top URLs, victims, pairs and median repost delay', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      const now = Date.now();
+      // User 42 copies 99 twice on the same URL; 7 copies 99 once; 42 copies 8 once.
+      db.recordDuylhouIncident(42, 99, -1, 'a.com/x', now - 10 * 60_000);
+      db.recordDuylhouIncident(42, 99, -1, 'a.com/x', now - 30 * 60_000);
+      db.recordDuylhouIncident(7, 99, -1, 'b.com/y', now - 20 * 60_000);
+      db.recordDuylhouIncident(42, 8, -1, 'c.com/z');           // legacy: no originalPostedAt
+      db.recordDuylhouIncident(42, 99, -2, 'a.com/x', now);     // other chat
+
+      assert(db.getDuylhouIncidentCount(undefined, -1) === 4, 'incident count wrong');
+
+      const urls = db.getTopDuplicatedUrls(undefined, 5, -1);
+      assert(urls[0].normalizedUrl === 'a.com/x' && urls[0].count === 2, `top URL wrong: ${JSON.stringify(urls)}`);
+
+      const victims = db.getTopDuylhouVictims(undefined, 5, -1);
+      assert(victims[0].userId === 99 && victims[0].count === 3, `top victim wrong: ${JSON.stringify(victims)}`);
+
+      const [pair] = db.getTopDuylhouPairs(undefined, 1, -1);
+      assert(pair.offenderId === 42 && pair.originalUserId === 99 && pair.count === 2, `top pair wrong: ${JSON.stringify(pair)}`);
+
+      const { medianMs, samples } = db.getMedianRepostDelay(undefined, -1);
+      assert(samples === 3, `expected 3 samples, got ${samples}`);
+      assert(medianMs !== null && Math.abs(medianMs - 20 * 60_000) < 1000, `median should be ~20 min, got ${medianMs}`);
+
+      assert(db.getTopDuplicatedUrls(undefined, 5)[0].count === 3, 'global view should include every chat');
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 14. Storage backends
+  // -----------------------------------------------------------------------
+  await test('write delay flushes soon after a change', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
+    try {
+      const [err, db] = createDatabase({ ...backendTestOptions(tmpDir), writeDelayMs: 50 });
+      assert(!err && db, 'json DB failed to init');
+      await waitForInit(db);
+      db!.recordDuylhouIncident(42, 99, -1, 'a.com/x');
+      await new Promise((r) => setTimeout(r, 300));
+      const raw = await readRawJson(tmpDir);
+      assert(raw.duylhouIncidents.length === 1, 'write delay did not flush');
+      await db!.shutdown();
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  await test('sqlite backend reloads', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
+    try {
+      const [sqlErr, sqlDb] = createDatabase({ ...backendTestOptions(tmpDir), backend: 'sqlite' });
+      if (sqlErr || !sqlDb) {
+        // Runtimes without node:sqlite must fail up front.
+        assert(sqlErr?.code === 'DB_001', `unexpected sqlite error: ${sqlErr?.code}`);
+        skip(`node:sqlite unavailable on Node ${process.versions.node}`);
+      }
+      await waitForInit(sqlDb);
+      sqlDb.recordDuylhouIncident(42, 99, -1, 'a.com/x');
+      sqlDb.recordDuylhouIncident(7, 99, -1, 'b.com/y');
+      await sqlDb.flush();
+      assert(sqlDb.removeDuylhouIncident(1), 'remove failed');
+      await sqlDb.shutdown();
+
+      const [err2, reloaded] = createDatabase({ ...backendTestOptions(tmpDir), backend: 'sqlite' });
+      assert(!err2 && reloaded, 'sqlite reload failed');
+      await waitForInit(reloaded!);
+      assert(reloaded!.getStats().incidents === 1, 'removed incident came back after reload');
+      await reloaded!.shutdown();
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 15. Write-ahead journal
+  // -----------------------------------------------------------------------
+  await test('journal replays unflushed operations exactly once', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      // Simulate a hard kill: the first instance never flushes.
+      const incident = db.recordDuylhouIncident(42, 99, -1, 'a.com/x');
+      const link = db.addLink({ url: 'https://a.com/x', normalizedUrl: 'a.com/x', chatId: -1, userId: 99, messageId: 5 });
+      db.updateDuylhouSettings(-1, { exemptDomains: ['b.com'] }, 1);
+      db.addConversation({ userId: 7, chatId: -1, role: 'user', content: 'oi' });
+      db.addConversation({ userId: 7, chatId: -2, role: 'user', content: 'olá' });
+      db.clearConversations(7, undefined);
+
+      const lines = (await fs.readFile(path.join(tmpDir, 'database.journal'), 'utf-8')).trim().split('\n');
+      assert(lines.some((line) => line.includes('"op":"clearConversations","args":[7]}')), 'trailing undefined argument was journaled');
+
+      const [err2, db2] = createDatabase(backendTestOptions(tmpDir));
+      assert(!err2 && db2, 'second DB instance failed to init');
+      await waitForInit(db2!);
+
+      const replayed = db2!.getDuylhouIncident(incident.id);
+      assert(replayed !== null && replayed.createdAt === incident.createdAt, 'incident not replayed with original timestamp');
+      const replayedLink = db2!.findLink('a.com/x', -1);
+      assert(replayedLink?.id === link.id && replayedLink.expiresAt === link.expiresAt, 'link not replayed identically');
+      assert(db2!.getDuylhouSettings(-1).exemptDomains[0] === 'b.com', 'settings not replayed');
+      assert(db2!.getConversations(7).length === 0, 'clearing every chat replayed as a single chat');
+
+      await db2!.flush();
+      const journal = await fs.readFile(path.join(tmpDir, 'database.journal'), 'utf-8');
+      assert(journal === '', `journal should be empty after flush, has ${journal.length} bytes`);
+      await db2!.shutdown();
+
+      const [err3, db3] = createDatabase(backendTestOptions(tmpDir));
+      assert(!err3 && db3, 'third DB instance failed to init');
+      await waitForInit(db3!);
+      assert(db3!.getStats().incidents === 1, `expected 1 incident, got ${db3!.getStats().incidents}`);
+      const idle = await fs.readFile(path.join(tmpDir, 'database.journal'), 'utf-8');
+      assert(idle.includes('"op":"runCleanup"'), 'start-up cleanup should be journaled');
+      await db3!.flush();
+      const cleaned = await fs.readFile(path.join(tmpDir, 'database.journal'), 'utf-8');
+      assert(cleaned === '', 'a flush with nothing dirty should still empty the journal');
+      await db3!.shutdown();
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 16. Backups
+  // -----------------------------------------------------------------------
+  await test('backup → change → restore brings the snapshot back', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
+    const options = { ...backendTestOptions(tmpDir), backupMaxCount: 3 };
+    const [err, db] = createDatabase(options);
+    assert(!err && db, 'DB failed to init');
+    await waitForInit(db);
+    try {
+      db!.recordDuylhouIncident(42, 99, -1, 'a.com/x');
+      const [backupErr, backup] = await db!.createBackup();
+      assert(!backupErr && backup, `backup failed: ${backupErr?.message}`);
+
+      db!.recordDuylhouIncident(7, 99, -1, 'b.com/y');
+      assert(db!.getStats().incidents === 2, 'setup: expected 2 incidents');
+
+      // While the restore runs, writes are refused, the timed jobs wait and
+      // the guard answers button presses without passing them on.
+      const restoring = db!.restoreBackup(backup!.name);
+      assert(db!.isRestoring(), 'not flagged as restoring');
+      let refused = false;
+      try {
+        db!.recordDuylhouIncident(9, 99, -1, 'c.com/z');
+      } catch {
+        refused = true;
+      }
+      assert(refused, 'write accepted during the restore');
+      const awards = createDuylhouAwardsScheduler({ api: {} as unknown as Api, database: db!, targetChatIds: [-1] });
+      assert(await awards.runOnce() === 0, 'awards ran during the restore');
+
+      const answered: string[] = [];
+      let passedOn = false;
+      const press = {
+        update: { update_id: 1 },
+        callbackQuery: { data: 'duylhou:appeal:1' },
+        answerCallbackQuery: async (options: { text: string }) => { answered.push(options.text); return true; },
+      } as unknown as Context;
+      await createBackupHandler({ database: db!, adminId: 1 }).restoreGuard(press, async () => { passedOn = true; });
+      assert(!passedOn && answered.length === 1, 'button press not answered by the restore guard');
+
+      const restoreErr = await restoring;
+      assert(!restoreErr, `restore failed: ${restoreErr?.message}`);
+      assert(!db!.isRestoring(), 'still flagged as restoring');
+      assert(db!.getStats().incidents === 1, `expected 1 incident after restore, got ${db!.getStats().incidents}`);
+
+      const backups = await db!.listBackups();
+      assert(backups.some((b) => b.label === 'pre-restore'), 'no pre-restore snapshot');
+      assert((await db!.restoreBackup('../database.json')) !== null, 'path outside the backup dir accepted');
+      await db!.shutdown();
+
+      // The restored state is what a restart sees (journal entries of the
+      // replaced state must not be replayed on top).
+      const [err2, db2] = createDatabase(options);
+      assert(!err2 && db2, 'reload failed');
+      await waitForInit(db2!);
+      assert(db2!.getStats().incidents === 1, `expected 1 incident after reload, got ${db2!.getStats().incidents}`);
+
+      for (let i = 0; i < 3; i++) {
+        await new Promise((r) => setTimeout(r, 5));  // distinct timestamps
+        await db2!.createBackup();
+      }
+      assert((await db2!.listBackups()).length === 3, 'pruning did not cap the snapshot count');
+      await db2!.shutdown();
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 17. Versioned migrations
+  // -----------------------------------------------------------------------
+  await test('migrations: dry run, version stamp, newer file refused', async () => {
+    const legacy = (): LegacyV1Schema => ({
+      conversations: [], links: [], rateLimits: [], duylhouIncidents: [], duylhouLeaderboard: [],
+      meta: { version: 1, lastSaved: 0, conversationNextId: 1, linkNextId: 1, duylhouIncidentNextId: 1 },
+    });
+
+    const original: DatabaseSchema = createEmptySchema();
+    original.meta.version = 1;
+    const [dryErr, dry] = migrateSchema(original, { dryRun: true });
+    assert(!dryErr && dry, 'dry run failed');
+    assert(original.meta.version === 1, 'dry run mutated the schema');
+    assert(dry!.toVersion === CURRENT_SCHEMA_VERSION, `dry run should reach v${CURRENT_SCHEMA_VERSION}`);
+    assert(dry!.steps.length === CURRENT_SCHEMA_VERSION - 1, `expected one step per version, got ${dry!.steps.length}`);
+    assert(dry!.steps.every((step) => step.changes.length === 0), 'migrations must not reseed existing fields');
+
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
+    const options = backendTestOptions(tmpDir);
+    try {
+      await fs.writeFile(path.join(tmpDir, 'database.json'), JSON.stringify(legacy()), 'utf-8');
+      const [err, db] = createDatabase(options);
+      assert(!err && db, 'DB failed to init');
+      await waitForInit(db);
+      assert((await db!.listBackups()).some((b) => b.label === 'pre-migration-v1'), 'no pre-migration backup');
+      await db!.shutdown();
+      const migrated = await readRawJson(tmpDir);
+      assert(migrated.meta.version === CURRENT_SCHEMA_VERSION, 'version not persisted');
+      assert(Array.isArray(migrated.todos) && migrated.meta.todoNextId === 1, 'legacy file not seeded with todos');
+
+      const future = legacy();
+      future.meta.version = CURRENT_SCHEMA_VERSION + 1;
+      const futureJson = JSON.stringify(future);
+      await fs.writeFile(path.join(tmpDir, 'database.json'), futureJson, 'utf-8');
+      const [, db2] = createDatabase(options);
+      assert((await db2!.ready())?.code === 'DB_009', 'a newer schema must fail init');
+      const [addErr] = db2!.addChatMessage({ chatId: -1, userId: 1, username: 'a', text: 'oi' });
+      assert(addErr !== null, 'a newer schema must leave the database uninitialised');
+      await db2!.shutdown();
+      assert(await fs.readFile(path.join(tmpDir, 'database.json'), 'utf-8') === futureJson, 'newer file was overwritten');
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 18. Retention policies
+  // -----------------------------------------------------------------------
+  await test('retention: spec parsing, archive on per-chat cap, outcomes', async () => {
+    const [specErr, overrides] = parseRetentionSpec('chatMessages:maxPerKey=2,action=archive; shortLinks:maxAge=none');
+    assert(!specErr && overrides, `spec rejected: ${specErr?.details}`);
+    assert(overrides!.chatMessages?.maxCountPerKey === 2 && overrides!.chatMessages.action === 'archive', 'chatMessages override lost');
+    assert(overrides!.shortLinks?.maxAgeMs === null, '`none` should lift the limit');
+    assert(parseRetentionSpec('chatMessages:maxAge=soon')[0] !== null, 'bad duration accepted');
+    assert(parseRetentionSpec('nope:maxPerKey=1')[0] !== null, 'unknown collection accepted');
+
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
+    const options = backendTestOptions(tmpDir);
+    try {
+      const [badErr] = createDatabase({ ...options, retention: { chatMessages: { maxCountPerKey: 0 } } });
+      assert(badErr?.code === 'DB_010', `invalid policy accepted: ${badErr?.code}`);
+
+      const [err, db] = createDatabase({ ...options, retention: overrides! });
+      assert(!err && db, 'DB failed to init');
+      await waitForInit(db);
+
+      const policies = db!.getRetentionPolicies();
+      const chatPolicy = policies.find((p) => p.collection === 'chatMessages');
+      assert(chatPolicy?.maxCountPerKey === 2 && chatPolicy.maxAgeMs === 7 * 24 * 60 * 60 * 1000, `unexpected policy: ${JSON.stringify(chatPolicy)}`);
+      assert(policies.find((p) => p.collection === 'conversations')?.maxCountPerKey === 10, 'default derived from config lost');
+
+      for (const text of ['um', 'dois', 'três', 'quatro']) {
+        db!.addChatMessage({ chatId: -1, userId: 1, username: 'a', text });
+      }
+      db!.addChatMessage({ chatId: -2, userId: 1, username: 'a', text: 'outro chat' });
+
+      const result = db!.runCleanup();
+      assert(result.chatMessagesRemoved === 2, `expected 2 removed, got ${result.chatMessagesRemoved}`);
+      const outcome = result.policies.find((o) => o.collection === 'chatMessages');
+      assert(outcome?.capped === 2 && outcome.archived === 2 && outcome.error === null, `unexpected outcome: ${JSON.stringify(outcome)}`);
+      assert(db!.getLastCleanupResult() === result, 'last cleanup result not kept');
+
+      const [, kept] = db!.getChatMessages(-1);
+      assert(kept?.map((m) => m.text).join(',') === 'três,quatro', `wrong messages kept: ${kept?.map((m) => m.text)}`);
+      assert(db!.getChatMessages(-2)[1]?.length === 1, 'other chat affected by the cap');
+
+      const [archiveFile] = await fs.readdir(getArchiveDir(tmpDir));
+      assert(archiveFile?.startsWith('chatMessages-'), `unexpected archive file: ${archiveFile}`);
+      const archived = (await fs.readFile(path.join(getArchiveDir(tmpDir), archiveFile), 'utf-8')).trim().split('\n');
+      assert(archived.map((line) => JSON.parse(line).text).join(',') === 'um,dois', `archive holds ${archived}`);
+      await db!.shutdown();
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 19. Configuration validation and redaction
+  // -----------------------------------------------------------------------
+  await test('config: out-of-range values rejected, secrets redacted', async () => {
+    const saved = { ...process.env };
+    try {
+      Object.assign(process.env, {
+        BOT_TOKEN: '123:secret-token',
+        GEMINI_API_KEY: 'secret-key',
+        DATA_DIR: 'data',
+        RATE_LIMIT_MAX_REQUESTS: '0',
+        MEDIA_MAX_CONCURRENCY: 'many',
+      });
+      const [badErr] = loadConfig();
+      assert(badErr?.code === CONFIG_ERROR_CODES.INVALID_VALUE, `expected INVALID_VALUE, got ${badErr?.code}`);
+      assert(
+        badErr.message.includes('RATE_LIMIT_MAX_REQUESTS') && badErr.message.includes('MEDIA_MAX_CONCURRENCY'),
+        `not every problem reported: ${badErr.message}`,
+      );
+
+      process.env.RATE_LIMIT_MAX_REQUESTS = '3';
+      process.env.MEDIA_MAX_CONCURRENCY = '4';
+      const [err, config] = loadConfig();
+      assert(!err && config, `valid config rejected: ${err?.message}`);
+      assert(config!.rateLimit.maxRequests === 3 && config!.media.maxConcurrency === 4, 'values not applied');
+      assert(path.isAbsolute(config!.database.dataDir), 'DATA_DIR not resolved');
+
+      const dump = JSON.stringify(redactConfig(config!));
+      assert(!dump.includes('secret'), 'secrets leaked into the redacted config');
+      assert(config!.bot.token === '123:secret-token', 'redaction mutated the original config');
+    } finally {
+      for (const key of Object.keys(process.env)) {
+        if (!(key in saved)) delete process.env[key];
+      }
+      Object.assign(process.env, saved);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 20. Per-chat export / import
+  // -----------------------------------------------------------------------
+  await test('chat archive: export, round-trip, idempotent import, version check', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      db.addLink({ url: 'https://a.com/x', normalizedUrl: 'a.com/x', chatId: -1, userId: 1, messageId: 10 });
+      db.addLink({ url: 'https://b.com/y', normalizedUrl: 'b.com/y', chatId: -2, userId: 1, messageId: 11 });
+      db.recordDuylhouIncident(2, 1, -1, 'a.com/x');
+      db.addChatMessage({ chatId: -1, userId: 1, username: 'a', text: 'oi' });
+      db.addTodo({ text: 'migrar o bot', user: 'admin' });
+
+      const groupArchive = db.exportChat(-1);
+      assert(groupArchive.header.counts.todos === 0 && groupArchive.records.todos.length === 0, 'a group export must not hold the bot-wide todos');
+
+      const archive = db.exportChat(-1, { includeTodos: true });
+      assert(archive.header.counts.links === 1, `expected only chat -1 links, got ${archive.header.counts.links}`);
+      assert(archive.header.counts.todos === 1, 'admin export lost the todos');
+
+      const text = serializeChatArchive(archive);
+      const [parseErr, parsed] = parseChatArchive(text);
+      assert(!parseErr && parsed, `round-trip failed: ${parseErr?.details}`);
+      assert(parseChatArchive(text.split('\n').slice(0, -2).join('\n'))[0] !== null, 'truncated archive accepted');
+
+      const target = createEmptySchema();
+      target.links.push({ id: 1, url: 'https://c.com', normalizedUrl: 'c.com', chatId: -9, userId: 5, messageId: 1, createdAt: 0, expiresAt: 0 });
+      target.meta.linkNextId = 2;
+
+      const report = importChatArchive(target, parsed!, { targetChatId: -9 });
+      assert(report.added.links === 1 && report.added.duylhouIncidents === 1 && report.added.todos === 1, `unexpected report: ${JSON.stringify(report.added)}`);
+      const imported = target.links.find((l) => l.normalizedUrl === 'a.com/x');
+      assert(imported?.id === 2 && imported.chatId === -9 && target.meta.linkNextId === 3, `IDs not merged: ${JSON.stringify(imported)}`);
+      assert(target.duylhouLeaderboard[0]?.chatId === -9, 'leaderboard not moved to the target chat');
+
+      const again = importChatArchive(target, parsed!, { targetChatId: -9 });
+      assert(Object.values(again.added).every((n) => n === 0), `second import added ${JSON.stringify(again.added)}`);
+      assert(target.meta.linkNextId === 3, 'skipped records consumed IDs');
+
+      const future = text.replace(/"schemaVersion":\d+/, `"schemaVersion":${CURRENT_SCHEMA_VERSION + 1}`);
+      const [futureErr] = parseChatArchive(future);
+      assert(futureErr?.message === 'Incompatible chat archive', `newer archive not refused: ${futureErr?.message}`);
+      await db.shutdown();
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 21. User data access and erasure
+  // -----------------------------------------------------------------------
+  await test('user data: export collects, erasure deletes and anonymises', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      db.addLink({ url: 'https://a.com/x', normalizedUrl: 'a.com/x', chatId: -1, userId: 7, messageId: 10 });
+      db.addLink({ url: 'https://b.com/y', normalizedUrl: 'b.com/y', chatId: -1, userId: 8, messageId: 11 });
+      db.addChatMessage({ chatId: -1, userId: 7, username: 'sete', text: 'oi' });
+      db.addChatMessage({ chatId: -1, userId: 8, username: 'oito', text: 'olá' });
+      const incident = db.recordDuylhouIncident(8, 7, -1, 'a.com/x');
+      const [appealErr] = db.createDuylhouAppeal({ incidentId: incident.id, requestedBy: 8, closesAt: Date.now() + 60_000 });
+      assert(!appealErr, `appeal creation failed: ${appealErr?.message}`);
+
+      const data = db.getUserData(7);
+      assert(data.links.length === 1 && data.chatMessages.length === 1, `export missed records: ${JSON.stringify(data)}`);
+      assert(data.duylhouIncidents.length === 1 && data.duylhouAppeals.length === 1, 'export missed the incident where the user is the original poster');
+
+      const report = db.eraseUserData(7);
+      assert(report.links.deleted === 1 && report.chatMessages.deleted === 1, `unexpected deletions: ${JSON.stringify(report)}`);
+      assert(report.duylhouIncidents.anonymised === 1 && report.duylhouAppeals.anonymised === 1, `unexpected anonymisation: ${JSON.stringify(report)}`);
+      assert(report.duylhouLeaderboard.deleted === 0, 'the offender\'s leaderboard entry was counted for the victim');
+
+      const kept = db.getDuylhouIncident(incident.id);
+      assert(kept?.originalUserId === ANONYMOUS_USER_ID && kept.offenderId === 8, `incident not anonymised: ${JSON.stringify(kept)}`);
+
+      const after = db.getUserData(7);
+      const leftovers = Object.entries(after).filter(([, value]) => Array.isArray(value) && value.length > 0);
+      assert(leftovers.length === 0, `records left after erasure: ${JSON.stringify(leftovers)}`);
+
+      const other = db.getUserData(8);
+      assert(other.links.length === 1 && other.chatMessages.length === 1 && other.duylhouLeaderboard.length === 1, 'another user\'s data was touched');
+      await db.shutdown();
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 22. Full-text search over the message buffer
+  // -----------------------------------------------------------------------
+  await test('message search: accents, all terms, per chat, history outlives the /summary buffer', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duylhou-test-'));
+    const [dbErr, db] = createDatabase({ ...backendTestOptions(tmpDir), searchHistoryMaxMessages: 12 });
+    if (dbErr || !db) throw new Error(`DB init failed: ${dbErr?.message}`);
+    await waitForInit(db);
+    try {
+      db.addChatMessage({ chatId: -1, userId: 1, username: 'um', text: 'Vamos no churrasco Sábado?', messageId: 101 });
+      db.addChatMessage({ chatId: -1, userId: 2, username: 'dois', text: 'sabado tem jogo', messageId: 102 });
+      db.addChatMessage({ chatId: -2, userId: 1, username: 'um', text: 'SÁBADO!', messageId: 7 });
+
+      const [err, both] = db.searchChatMessages(-1, 'sabado');
+      assert(!err && both, `search failed: ${err?.message}`);
+      assert(both.length === 2 && both[0].messageId === 102, `expected both chat -1 messages, newest first: ${JSON.stringify(both)}`);
+
+      const [, narrowed] = db.searchChatMessages(-1, 'CHURRASCO sábado');
+      assert(narrowed?.length === 1 && narrowed[0].userId === 1, `all terms should be required: ${JSON.stringify(narrowed)}`);
+      const [, byUser] = db.searchChatMessages(-1, 'sabado', { userId: 2 });
+      assert(byUser?.length === 1, 'userId filter ignored');
+      const [, none] = db.searchChatMessages(-1, 'churrasco futebol');
+      assert(none?.length === 0, 'a term absent from the chat still matched');
+
+      db.eraseUserData(2);
+      const [, afterErase] = db.searchChatMessages(-1, 'jogo');
+      assert(afterErase?.length === 0, 'erased message still indexed');
+
+      // The /summary buffer holds 10 messages per chat, the search history 12.
+      for (let i = 0; i < 10; i++) db.addChatMessage({ chatId: -1, userId: 3, username: 'tres', text: `mensagem ${i}` });
+      const [, buffer] = db.getChatMessages(-1);
+      assert(buffer?.length === 10 && buffer[0].text === 'mensagem 0', `/summary buffer should hold the newest 10: ${buffer?.length}`);
+      const [, older] = db.searchChatMessages(-1, 'churrasco');
+      assert(older?.length === 1, 'a message past the /summary buffer should still be searchable');
+
+      for (let i = 10; i < 12; i++) db.addChatMessage({ chatId: -1, userId: 3, username: 'tres', text: `mensagem ${i}` });
+      const [, trimmed] = db.searchChatMessages(-1, 'churrasco');
+      assert(trimmed?.length === 0, 'message trimmed by the history cap still indexed');
+      const [, recent] = db.searchChatMessages(-1, 'mensagem', { limit: 50 });
+      assert(recent?.length === 12, `expected 12 searchable matches, got ${recent?.length}`);
+      await db.shutdown();
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 23. Replies, edits and the threaded /summary transcript
+  // -----------------------------------------------------------------------
+  await test('edits update the buffer; transcript nests replies', async () => {
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      db.addChatMessage({ chatId: -1, userId: 1, username: 'Ana', text: 'quem vai no jogo?', messageId: 1 });
+      db.addChatMessage({ chatId: -1, userId: 2, username: 'Bia', text: 'alguém viu isso', messageId: 2, forwardOrigin: 'Canal X' });
+      db.addChatMessage({ chatId: -1, userId: 3, username: 'Caio', text: 'eu vou', messageId: 3, replyToMessageId: 1 });
+      db.addChatMessage({ chatId: -1, userId: 1, username: 'Ana', text: '', messageId: 4, replyToMessageId: 3, mediaType: 'photo' });
+      db.addChatMessage({ chatId: -1, userId: 2, username: 'Bia', text: 'sobre ontem', messageId: 5, replyToMessageId: 999 });
+
+      const edited = db.editChatMessage(-1, 3, 'eu não vou');
+      assert(edited?.text === 'eu não vou' && edited.editedAt !== undefined, `edit not applied: ${JSON.stringify(edited)}`);
+      assert(db.editChatMessage(-1, 42, 'x') === null, 'edit of an unknown message returned a record');
+      const [, found] = db.searchChatMessages(-1, 'nao vou');
+      assert(found?.length === 1 && found[0].messageId === 3, 'search does not see the edited text');
+
+      const [, messages] = db.getChatMessages(-1);
+      const lines = buildTranscript(messages!).split('\n').map((line) => line.replace(/\[[^\]]*\d:\d\d[^\]]*\] /, ''));
+      const expected = [
+        '#1 Ana: quem vai no jogo?',
+        '  ↳ #3 Caio (editada): eu não vou',
+        '    ↳ #4 Ana: [foto]',
+        '#2 Bia (encaminhada de Canal X): alguém viu isso',
+        '#5 Bia (respondendo a uma mensagem anterior): sobre ontem',
+      ];
+      assert(JSON.stringify(lines) === JSON.stringify(expected), `unexpected transcript:\n${lines.join('\n')}`);
+      await db.shutdown();
+    } finally {
+      await cleanup(tmpDir);
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 24. Duylhou normalisation of the new platforms
+  // -----------------------------------------------------------------------
+  await test('new platform links normalise to one form per post', async () => {
+    const pairs: Array<[string, string]> = [
+      ['https://bsky.app/profile/Fulano.bsky.social/post/3l6oveex3ii2l?ref=share', 'bsky.app/profile/fulano.bsky.social/post/3l6oveex3ii2l'],
+      ['https://www.threads.com/@Beltrano/post/C9xYzAbCdEf?xmt=AQGz', 'threads.net/@beltrano/post/C9xYzAbCdEf'],
+      ['https://m.facebook.com/reel/1234567890123456/?mibextid=rS40aB', 'facebook.com/reel/1234567890123456'],
+      ['https://www.twitch.tv/gaules/clip/BraveTallCat-4Head_abc?filter=clips', 'clips.twitch.tv/BraveTallCat-4Head_abc'],
+      ['https://clips.twitch.tv/BraveTallCat-4Head_abc', 'clips.twitch.tv/BraveTallCat-4Head_abc'],
+    ];
+    for (const [url, expected] of pairs) {
+      const normalized = normalizeUrl(url);
+      assert(normalized === expected, `${url} → ${normalized}, expected ${expected}`);
+    }
+    assert(isShortLink('https://fb.watch/abC-12_x/'), 'fb.watch should be expanded like other short links');
+    assert(isShortLink('https://www.facebook.com/share/r/1AbCdEfGh/'), 'facebook share link should be expanded');
+  });
+
+  // -----------------------------------------------------------------------
+  // 25. End-of-month Duylhou awards (Telegram API stubbed)
+  // -----------------------------------------------------------------------
+  await test('awards: São Paulo months, missed 1st caught up, tied winners, one post per month and chat', async () => {
+    // The 1st starts at 03:00 UTC in São Paulo.
+    assert(getSaoPauloCalendar(new Date('2026-03-01T02:59:00Z')).day === 28, 'still February in São Paulo');
+    assert(JSON.stringify(getSaoPauloCalendar(new Date('2026-03-01T03:00:00Z'))) === '{"day":1,"month":"2026-03"}', 'March 1st not detected');
+
+    const { db, tmpDir } = await makeTempDb();
+    try {
+      // Incidents are bucketed by the same calendar, whatever the host timezone.
+      const realNow = Date.now;
+      try {
+        Date.now = () => Date.parse('2026-03-01T02:30:00Z');
+        assert(db.getCurrentMonth() === '2026-02', `late February evening counted as ${db.getCurrentMonth()}`);
+        assert(db.recordDuylhouIncident(5, 99, -3, 'a.com/0').month === '2026-02', 'incident not in February');
+        Date.now = () => Date.parse('2026-03-01T03:00:00Z');
+        assert(db.getCurrentMonth() === '2026-03', 'March not started at 00:00 in São Paulo');
+      } finally {
+        Date.now = realNow;
+      }
+
+      db.recordDuylhouIncident(42, 99, -1, 'a.com/1');
+      db.recordDuylhouIncident(42, 99, -1, 'a.com/2');
+      db.recordDuylhouIncident(7, 99, -1, 'a.com/3');
+      db.recordDuylhouIncident(7, 99, -1, 'a.com/4');
+      db.recordDuylhouIncident(9, 99, -1, 'a.com/5');
+
+      const sent: Array<{ chatId: number; text: string }> = [];
+      const api = {
+        sendMessage: async (chatId: number, text: string) => {
+          sent.push({ chatId, text });
+          return { message_id: 500 + sent.length };
+        },
+        getChatMember: async () => { throw new Error('offline'); },
+        pinChatMessage: async () => true,
+      } as unknown as Api;
+
+      const month = db.getCurrentMonth();
+      const nextMonth = shiftMonth(month, 1);
+      const awards = createDuylhouAwardsScheduler({ api, database: db, targetChatIds: [-1, -2] });
+
+      // The bot was down on the 1st: the first tick afterwards posts the award.
+      assert(await awards.runOnce(new Date(`${nextMonth}-03T12:00:00-03:00`)) === 2, 'missed award not posted after the 1st');
+      assert(await awards.runOnce(new Date(`${nextMonth}-03T18:00:00-03:00`)) === 0, 'second tick posted again');
+      assert(sent.length === 2, `expected 2 messages, got ${sent.length}`);
+
+      const award = db.getDuylhouAward(month, -1);
+      assert(JSON.stringify([...award!.winnerUserIds].sort()) === '[42,7]', `tied users must both win, got ${award?.winnerUserIds}`);
+      assert(award!.messageId === 501, 'award record lacks the post');
+      assert(sent[0].text.includes('empate') && sent[0].text.includes('Usuário 42') && sent[0].text.includes('Usuário 7'), 'tie not announced');
+      assert(db.getDuylhouAward(month, -2)?.winnerUserIds.length === 0 && sent[1].text.includes('Nenhum Duylhou'), 'empty chat not handled');
+    } finally {
+      await db.shutdown();
+      await cleanup(tmpDir);
+    }
+  });
+
   // -----------------------------------------------------------------------
   // Summary
   // -----------------------------------------------------------------------
-  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  console.log(`\n── Results: ${passed} passed, ${failed} failed, ${skipped} skipped ──\n`);
   process.exit(failed > 0 ? 1 : 0);
 }
 
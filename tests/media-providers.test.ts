@@ -0,0 +1,331 @@
+/**
+ * =============================================================================
+ * Unit tests — media providers
+ *
+ * Verifies that:
+ *   1  Instagram carousels: every sidecar slide becomes a media item, in
+ *      order, with videos and photos told apart.
+ *   2  Twitter: photos, GIFs and every video of a tweet become items in
+ *      tweet order, the quote tweet's text joins the caption, and a tweet
+ *      without media falls back to the quoted tweet's.
+ *   3  Reddit: gallery entries become items in gallery order (escaped
+ *      URLs fixed, invalid entries skipped), a crosspost uses the original
+ *      post's video, and the best audio track is found in a DASH manifest.
+ *   4  TikTok: photo URLs match, a slideshow's images become items with
+ *      the author and caption kept, and video posts still use `play`.
+ *   5  Bluesky: images under a quote post become items, and a video post
+ *      returns its HLS playlist (read from saved API responses).
+ *   6  Threads: the requested post's carousel is found among the page's
+ *      JSON blocks, slides in order with the best video and image, while
+ *      a reply on the same page keeps its own photo.
+ *   7  Facebook Reels and Twitch clips: the HD reel URL is unescaped from
+ *      the saved page, and the best clip quality is signed with its token.
+ *   8  A failed DASH merge or HLS remux (missing ffmpeg or unreadable
+ *      input) destroys the output stream with the error instead of
+ *      crashing the process.
+ *
+ * Responses are built inline or read from tests/fixtures/media/; nothing
+ * touches the network.
+ * =============================================================================
+ */
+
+import * as fs   from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { InstagramProvider } from '../src/bot/handlers/media/providers/instagram.provider';
+import { TwitterProvider } from '../src/bot/handlers/media/providers/twitter.provider';
+import { RedditProvider } from '../src/bot/handlers/media/providers/reddit.provider';
+import { TikTokProvider } from '../src/bot/handlers/media/providers/tiktok.provider';
+import { MEDIA_ERROR_CODES } from '../src/bot/handlers/media/types';
+import { BlueskyProvider } from '../src/bot/handlers/media/providers/bluesky.provider';
+import { ThreadsProvider } from '../src/bot/handlers/media/providers/threads.provider';
+import { FacebookProvider } from '../src/bot/handlers/media/providers/facebook.provider';
+import { TwitchProvider } from '../src/bot/handlers/media/providers/twitch.provider';
+import { mergeDashStreams, remuxHlsStream } from '../src/bot/handlers/media/dash-merge';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads a saved platform response from tests/fixtures/media/.
+ *
+ * @param name - File name inside the fixtures directory.
+ */
+async function readFixture(name: string) {
+  return fs.readFile(path.join(__dirname, 'fixtures', 'media', name), 'utf-8');
+}
+
+/**
+ * Drains a stream and resolves with the error that ended it, or `null`
+ * when it ended cleanly.  Gives up after `timeoutMs`.
+ *
+ * @param stream    - Stream to watch.
+ * @param timeoutMs - How long to wait for it to end.
+ */
+function streamError(stream: Readable, timeoutMs = 10_000): Promise<Error | null> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('stream neither ended nor failed')), timeoutMs);
+    stream.on('error', (err) => { clearTimeout(timer); resolve(err); });
+    stream.on('end', () => { clearTimeout(timer); resolve(null); });
+    stream.resume();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Test runner (no external framework — just assertions + exit code)
+// ---------------------------------------------------------------------------
+
+let passed = 0;
+let failed = 0;
+
+/**
+ * Runs a single named test case.  Catches and reports any thrown error.
+ *
+ * @param name - Human-readable test label.
+ * @param fn   - Async test body.
+ */
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    console.log(`  ✅  ${name}`);
+    passed++;
+  } catch (e: unknown) {
+    console.error(`  ❌  ${name}`);
+    console.error(`       ${(e as Error).message}`);
+    failed++;
+  }
+}
+
+/**
+ * Throws when the condition is falsy.
+ *
+ * @param cond    - Value to check.
+ * @param message - Error message when `cond` is falsy.
+ */
+function assert(cond: unknown, message: string): asserts cond {
+  if (!cond) throw new Error(message);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+async function run() {
+  console.log('\n── media providers ──\n');
+
+  // -----------------------------------------------------------------------
+  // 1. Instagram carousel parsing (no network involved)
+  // -----------------------------------------------------------------------
+  await test('instagram sidecar posts yield every slide in order', async () => {
+    const gql = {
+      shortcode_media: {
+        display_url: 'https://cdn.example/1.jpg',
+        owner: { username: 'fotografa' },
+        edge_media_to_caption: { edges: [{ node: { text: 'três fotos' } }] },
+        edge_sidecar_to_children: {
+          edges: [
+            { node: { is_video: false, display_url: 'https://cdn.example/1.jpg' } },
+            { node: { is_video: true, video_url: 'https://cdn.example/2.mp4', display_url: 'https://cdn.example/2.jpg' } },
+            { node: { is_video: false, display_url: '//cdn.example/3.jpg?a=1&amp;b=2' } },
+          ],
+        },
+      },
+    };
+    const html = `<script>{"gql_data":${JSON.stringify(JSON.stringify(gql))}}</script>`;
+
+    const result = new InstagramProvider()['parseGql'](html);
+    assert(result && !result[0] && result[1], 'gql block not parsed');
+    const media = result[1];
+    assert(media.author === 'fotografa' && media.caption === 'três fotos', `metadata lost: ${JSON.stringify(media)}`);
+    assert(JSON.stringify(media.items) === JSON.stringify([
+      { type: 'photo', url: 'https://cdn.example/1.jpg' },
+      { type: 'video', url: 'https://cdn.example/2.mp4' },
+      { type: 'photo', url: 'https://cdn.example/3.jpg?a=1&b=2' },
+    ]), `unexpected items: ${JSON.stringify(media.items)}`);
+  });
+
+  // -----------------------------------------------------------------------
+  // 2. Twitter media and quote tweets (no network involved)
+  // -----------------------------------------------------------------------
+  await test('twitter: all media in order, quote text, quoted media fallback', async () => {
+    const twitter = new TwitterProvider();
+    const [err, media] = twitter['parseTweet']({
+      tweet: {
+        text: 'olha isso',
+        author: { name: 'Fulano' },
+        media: {
+          all: [
+            { type: 'photo', url: 'https://pbs.example/1.jpg' },
+            { type: 'video', url: 'https://video.example/2.mp4' },
+            { type: 'video', url: 'https://video.example/3.mp4' },
+          ],
+        },
+        quote: { text: 'tweet original', author: { name: 'Beltrano' } },
+      },
+    });
+    assert(!err && media, `parse failed: ${err?.message}`);
+    assert(JSON.stringify(media.items?.map((i) => i.type)) === '["photo","video","video"]', `unexpected items: ${JSON.stringify(media.items)}`);
+    assert(media.caption === 'olha isso\n\n💬 Beltrano: tweet original', `quote missing from caption: ${media.caption}`);
+
+    const [, gif] = twitter['parseTweet']({
+      tweet: { text: 'reação', quote: { text: 'q', media: { videos: [{ type: 'gif', url: 'https://video.example/g.mp4' }] } } },
+    });
+    assert(gif?.items?.length === 1 && gif.items[0].type === 'animation', `quoted GIF not used: ${JSON.stringify(gif)}`);
+
+    const [noMediaErr] = twitter['parseTweet']({ tweet: { text: 'só texto' } });
+    assert(noMediaErr?.message === 'No media in tweet', 'text-only tweet should be rejected');
+  });
+
+  // -----------------------------------------------------------------------
+  // 3. Reddit galleries and DASH audio (no network involved)
+  // -----------------------------------------------------------------------
+  await test('reddit: gallery order, crosspost video, DASH audio track', async () => {
+    const reddit = new RedditProvider();
+    const [err, gallery] = reddit['parsePost']({
+      title: 'fotos', author: 'op',
+      gallery_data: { items: [{ media_id: 'b' }, { media_id: 'x' }, { media_id: 'a' }] },
+      media_metadata: {
+        a: { status: 'valid', e: 'Image', s: { u: 'https://preview.redd.it/a.jpg?w=1&amp;s=2' } },
+        b: { status: 'valid', e: 'AnimatedImage', s: { gif: 'https://i.redd.it/b.gif', mp4: 'https://preview.redd.it/b.mp4' } },
+        x: { status: 'failed' },
+      },
+    });
+    assert(!err && gallery, `gallery not parsed: ${err?.message}`);
+    assert(JSON.stringify(gallery.items) === JSON.stringify([
+      { type: 'animation', url: 'https://preview.redd.it/b.mp4' },
+      { type: 'photo', url: 'https://preview.redd.it/a.jpg?w=1&s=2' },
+    ]), `unexpected gallery items: ${JSON.stringify(gallery.items)}`);
+
+    const [, crosspost] = reddit['parsePost']({
+      title: 'repost', author: 'outro',
+      crosspost_parent_list: [{ secure_media: { reddit_video: { fallback_url: 'https://v.redd.it/v/DASH_720.mp4' } } }],
+    });
+    assert(crosspost?.videoUrl === 'https://v.redd.it/v/DASH_720.mp4' && crosspost.author === 'outro', 'crosspost video not used');
+
+    const mpd = `<MPD><Period>
+      <AdaptationSet contentType="video"><Representation bandwidth="900000"><BaseURL>DASH_720.mp4</BaseURL></Representation></AdaptationSet>
+      <AdaptationSet contentType="audio">
+        <Representation bandwidth="64000"><BaseURL>DASH_AUDIO_64.mp4</BaseURL></Representation>
+        <Representation bandwidth="128000"><BaseURL>DASH_AUDIO_128.mp4</BaseURL></Representation>
+      </AdaptationSet></Period></MPD>`;
+    const audio = reddit['parseAudioUrl'](mpd, 'https://v.redd.it/v/DASHPlaylist.mpd?a=1');
+    assert(audio === 'https://v.redd.it/v/DASH_AUDIO_128.mp4', `wrong audio track: ${audio}`);
+    assert(reddit['parseAudioUrl']('<MPD></MPD>', 'https://v.redd.it/v/DASHPlaylist.mpd') === null, 'silent video got an audio track');
+  });
+
+  // -----------------------------------------------------------------------
+  // 4. TikTok slideshows (no network involved)
+  // -----------------------------------------------------------------------
+  await test('tiktok: photo links match, slideshow images become items', async () => {
+    const tiktok = new TikTokProvider();
+    assert(tiktok.regex.test('https://www.tiktok.com/@fulano/photo/7300000000000000000'), 'photo URL not matched');
+
+    const [err, slideshow] = tiktok['parseResponse']({
+      code: 0,
+      data: {
+        title: 'viagem', author: { nickname: 'Fulano' }, play: 'https://tikwm.example/music.mp3',
+        images: ['https://p16.example/1.jpg', 'https://p16.example/2.jpg'],
+      },
+    });
+    assert(!err && slideshow, `slideshow not parsed: ${err?.message}`);
+    assert(slideshow.items?.length === 2 && slideshow.items[1].url === 'https://p16.example/2.jpg', `unexpected items: ${JSON.stringify(slideshow.items)}`);
+    assert(slideshow.author === 'Fulano' && slideshow.caption === 'viagem' && !slideshow.videoUrl, 'slideshow metadata wrong');
+
+    const [, video] = tiktok['parseResponse']({ code: 0, data: { title: 'v', play: 'https://tikwm.example/v.mp4' } });
+    assert(video?.videoUrl === 'https://tikwm.example/v.mp4' && !video.items, 'video post no longer uses play');
+  });
+
+  // -----------------------------------------------------------------------
+  // 5. Bluesky images and video (saved API responses)
+  // -----------------------------------------------------------------------
+  await test('bluesky: quote-post images become items, video keeps its playlist', async () => {
+    const bluesky = new BlueskyProvider();
+    const match = 'https://bsky.app/profile/fulano.bsky.social/post/3l6oveex3ii2l'.match(bluesky.regex);
+    assert(match?.[1] === 'fulano.bsky.social' && match[2] === '3l6oveex3ii2l', 'post URL not matched');
+
+    const [err, images] = bluesky['parseThread'](JSON.parse(await readFixture('bluesky-images.json')));
+    assert(!err && images, `images not parsed: ${err?.message}`);
+    assert(images.items?.length === 2 && images.items.every((item) => item.type === 'photo'), `unexpected items: ${JSON.stringify(images.items)}`);
+    assert(images.items[1].url.endsWith('/bafkreibbb@jpeg') && images.author === 'Fulano de Tal', 'image order or author wrong');
+
+    const [, video] = bluesky['parseThread'](JSON.parse(await readFixture('bluesky-video.json')));
+    assert(video?.videoUrl?.endsWith('/playlist.m3u8') === true, `playlist not returned: ${video?.videoUrl}`);
+    assert(video.author === 'ciclano.bsky.social' && video.caption === 'gol no último minuto', 'handle should stand in for an empty display name');
+
+    const [missing] = bluesky['parseThread']({ thread: { post: { record: { text: 'só texto' } } } });
+    assert(missing?.code === MEDIA_ERROR_CODES.NOT_FOUND, 'text-only post should be NOT_FOUND');
+  });
+
+  // -----------------------------------------------------------------------
+  // 6. Threads carousels (saved post page)
+  // -----------------------------------------------------------------------
+  await test('threads: carousel found by code, slides in order, replies ignored', async () => {
+    const threads = new ThreadsProvider();
+    assert(threads.regex.test('https://www.threads.com/@beltrano/post/C9xYzAbCdEf'), 'threads.com URL not matched');
+
+    const html = await readFixture('threads-carousel.html');
+    const [err, post] = threads['parsePage'](html, 'C9xYzAbCdEf');
+    assert(!err && post, `post not parsed: ${err?.message}`);
+    assert(JSON.stringify(post.items?.map((item) => item.type)) === '["photo","video","photo"]', `unexpected slide types: ${JSON.stringify(post.items)}`);
+    assert(post.items![0].url.includes('slide1_1440') && post.items![1].url.includes('slide2_720'), 'best version not picked');
+    assert(post.author === 'beltrano' && post.caption === 'fim de semana na praia', 'post metadata wrong');
+
+    const [, reply] = threads['parsePage'](html, 'C9xYzReply1');
+    assert(reply?.imageUrl?.endsWith('/reply.jpg') === true && !reply.items, 'reply should keep its own photo');
+
+    const [missing] = threads['parsePage'](html, 'SomeOtherCode');
+    assert(missing?.code === MEDIA_ERROR_CODES.NOT_FOUND, 'the profile picture must not be sent as media');
+  });
+
+  // -----------------------------------------------------------------------
+  // 7. Facebook Reels and Twitch clips (saved page / GQL response)
+  // -----------------------------------------------------------------------
+  await test('facebook reel HD URL unescaped; twitch clip signed at best quality', async () => {
+    const facebook = new FacebookProvider();
+    assert(facebook.regex.test('https://www.facebook.com/share/r/1AbCdEfGh/'), 'share link not matched');
+    assert(facebook.regex.test('https://fb.watch/abC-12_x/'), 'fb.watch link not matched');
+
+    const [fbErr, reel] = facebook['parsePage'](await readFixture('facebook-reel.html'));
+    assert(!fbErr && reel, `reel not parsed: ${fbErr?.message}`);
+    assert(reel.videoUrl === 'https://video.xx.fbcdn.net/o1/v/t2/f2/m69/hd.mp4?efg=eyJ2ZW5jb2RlX3RhZyI6ImhkIn0%3D&_nc_ht=video.xx.fbcdn.net', `unexpected reel URL: ${reel.videoUrl}`);
+    assert(reel.caption === 'Receita da vó: pão de queijo em 20 minutos & sem sujeira', `unexpected caption: ${reel.caption}`);
+
+    const twitch = new TwitchProvider();
+    assert(twitch.regex.exec('https://www.twitch.tv/gaules/clip/BraveTallCat-4Head_abc')?.[1] === 'BraveTallCat-4Head_abc', 'channel clip URL not matched');
+
+    const [twErr, clip] = twitch['parseClip'](JSON.parse(await readFixture('twitch-clip.json')));
+    assert(!twErr && clip, `clip not parsed: ${twErr?.message}`);
+    const signed = new URL(clip.videoUrl!);
+    assert(signed.pathname.endsWith('/1080.mp4'), `best quality not picked: ${signed.pathname}`);
+    assert(signed.searchParams.get('sig') === '8f1c0a2bd0e4c8c9e7a1f0b2d3c4e5f6a7b8c9d0', 'signature missing');
+    assert(JSON.parse(signed.searchParams.get('token')!).expires === 1790000000, 'token not encoded intact');
+    assert(clip.author === 'Gaules' && clip.caption === 'que jogada é essa', 'clip metadata wrong');
+
+    const [gone] = twitch['parseClip']({ data: { clip: null } });
+    assert(gone?.code === MEDIA_ERROR_CODES.NOT_FOUND, 'deleted clip should be NOT_FOUND');
+  });
+
+  // -----------------------------------------------------------------------
+  // 8. ffmpeg failures surface on the output stream
+  // -----------------------------------------------------------------------
+  await test('a failed DASH merge or HLS remux errors the stream, not the process', async () => {
+    const missing = path.join(__dirname, 'fixtures', 'media', 'missing.mp4');
+    const mergeErr = await streamError(mergeDashStreams(missing, missing));
+    assert(mergeErr !== null, 'merging unreadable inputs should fail');
+
+    const remuxErr = await streamError(remuxHlsStream(path.join(__dirname, 'fixtures', 'media', 'missing.m3u8')));
+    assert(remuxErr !== null, 'remuxing an unreadable playlist should fail');
+  });
+
+  // -----------------------------------------------------------------------
+  // Summary
+  // -----------------------------------------------------------------------
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch((e) => {
+  console.error('Test runner crashed:', e);
+  process.exit(1);
+});